@@ -0,0 +1,177 @@
+// components/AdminAnalytics.tsx
+import React, { useCallback, useEffect, useState } from "react";
+import type { AnalyticsSummary, CountRow } from "@/lib/analytics";
+
+type Data = { summary: AnalyticsSummary; names: Record<string, string>; kiosks: string[] };
+
+const PERIODS = [1, 7, 30, 90];
+
+const box: React.CSSProperties = {
+  padding: "6px 8px",
+  borderRadius: 6,
+  border: "1px solid #333",
+  background: "#111",
+  color: "#eee",
+  fontSize: 14,
+};
+const card: React.CSSProperties = { border: "1px solid #2a2a2a", borderRadius: 10, padding: 14 };
+const cell: React.CSSProperties = { padding: "6px 8px" };
+
+const pct = (n: number) => `${Math.round(n * 100)}%`;
+const money = (n: number, currency: string | null) => `${currency ?? ""} ${n.toFixed(2)}`.trim();
+
+function Stat({ label, value, hint }: { label: string; value: string | number; hint?: string }) {
+  return (
+    <div style={card}>
+      <div style={{ color: "#aaa", fontSize: 13 }}>{label}</div>
+      <div style={{ fontSize: 26, fontWeight: 800, marginTop: 4 }}>{value}</div>
+      {hint && <div style={{ color: "#777", fontSize: 12, marginTop: 2 }}>{hint}</div>}
+    </div>
+  );
+}
+
+/** A ranked list with a bar per row, scaled to the first */
+function Ranking({ title, rows, label }: { title: string; rows: CountRow[]; label: (key: string) => string }) {
+  const max = rows[0]?.count || 1;
+  return (
+    <div style={card}>
+      <div style={{ fontWeight: 700, marginBottom: 10 }}>{title}</div>
+      {!rows.length && <div style={{ color: "#666" }}>Sin datos en el periodo.</div>}
+      {rows.map((r) => (
+        <div key={r.key} style={{ marginBottom: 6 }}>
+          <div style={{ display: "flex", justifyContent: "space-between", gap: 8, fontSize: 14 }}>
+            <span style={{ overflow: "hidden", textOverflow: "ellipsis", whiteSpace: "nowrap" }}>{label(r.key)}</span>
+            <span style={{ color: "#aaa" }}>{r.count}</span>
+          </div>
+          <div style={{ height: 4, background: "#222", borderRadius: 2 }}>
+            <div style={{ width: `${(r.count / max) * 100}%`, height: 4, background: "#2563eb", borderRadius: 2 }} />
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+/**
+ * Kiosk usage for management: conversations and how many end in a printed
+ * ticket, what customers ask for, what the assistant recommends and what gets
+ * taken out again, stock that let customers down, and sales per day and kiosk.
+ */
+export default function AdminAnalytics() {
+  const [days, setDays] = useState(7);
+  const [kiosk, setKiosk] = useState("");
+  const [data, setData] = useState<Data | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    const r = await fetch(`/api/admin/analytics?days=${days}&kiosk=${encodeURIComponent(kiosk)}`);
+    const d = await r.json().catch(() => ({}));
+    if (!r.ok) return setError(d.error || `Error ${r.status}`);
+    setError(null);
+    setData(d);
+  }, [days, kiosk]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const s = data?.summary;
+  const product = (sku: string) => (data?.names[sku] ? `${data.names[sku]} (${sku})` : sku);
+  const kiosks = Array.from(new Set([...(data?.kiosks ?? []), ...(kiosk ? [kiosk] : [])]));
+
+  return (
+    <div>
+      <div style={{ display: "flex", gap: 12, alignItems: "center", marginBottom: 16 }}>
+        <select style={box} value={days} onChange={(e) => setDays(Number(e.target.value))}>
+          {PERIODS.map((n) => (
+            <option key={n} value={n}>
+              {n === 1 ? "Últimas 24 horas" : `Últimos ${n} días`}
+            </option>
+          ))}
+        </select>
+        <select style={box} value={kiosk} onChange={(e) => setKiosk(e.target.value)}>
+          <option value="">Todos los kioscos</option>
+          {kiosks.map((k) => (
+            <option key={k} value={k}>
+              {k}
+            </option>
+          ))}
+        </select>
+        <button
+          onClick={load}
+          style={{ padding: "6px 12px", borderRadius: 6, border: "none", background: "#333", color: "#fff" }}
+        >
+          Actualizar
+        </button>
+      </div>
+      {error && <div style={{ color: "#f87171", marginBottom: 12 }}>{error}</div>}
+
+      {s && (
+        <>
+          <div style={{ display: "grid", gridTemplateColumns: "repeat(auto-fit, minmax(170px, 1fr))", gap: 12 }}>
+            <Stat label="Conversaciones" value={s.conversations} hint={`${s.turns} mensajes`} />
+            <Stat label="Con ticket impreso" value={s.converted} hint={`conversión ${pct(s.conversion)}`} />
+            <Stat label="Abandonadas" value={s.abandoned} />
+            <Stat label="Tickets" value={s.orders} />
+            <Stat
+              label="Tiempo de respuesta"
+              value={`${(s.avg_latency_ms / 1000).toFixed(1)} s`}
+              hint={`p95 ${(s.p95_latency_ms / 1000).toFixed(1)} s`}
+            />
+            <Stat label="Errores del modelo" value={s.errors} hint={s.turns ? pct(s.errors / s.turns) : undefined} />
+          </div>
+
+          <div
+            style={{
+              display: "grid",
+              gridTemplateColumns: "repeat(auto-fit, minmax(280px, 1fr))",
+              gap: 12,
+              marginTop: 16,
+            }}
+          >
+            <Ranking
+              title="Búsquedas más frecuentes"
+              rows={s.top_queries}
+              label={(key) => {
+                const zero = s.top_queries.find((r) => r.key === key)?.zero ?? 0;
+                return zero ? `${key} · ${zero} sin resultados` : key;
+              }}
+            />
+            <Ranking title="Más recomendados" rows={s.recommended} label={product} />
+            <Ranking title="Más quitados de la canasta" rows={s.removed} label={product} />
+            <Ranking title="Agotados que se pidieron" rows={s.out_of_stock} label={product} />
+          </div>
+
+          <div style={{ ...card, marginTop: 16 }}>
+            <div style={{ fontWeight: 700, marginBottom: 10 }}>Por día y kiosco</div>
+            <table style={{ width: "100%", borderCollapse: "collapse", fontSize: 14 }}>
+              <thead>
+                <tr style={{ textAlign: "left", color: "#aaa", borderBottom: "1px solid #333" }}>
+                  <th style={cell}>Día</th>
+                  <th style={cell}>Kiosco</th>
+                  <th style={{ ...cell, textAlign: "right" }}>Conversaciones</th>
+                  <th style={{ ...cell, textAlign: "right" }}>Tickets</th>
+                  <th style={{ ...cell, textAlign: "right" }}>Ventas</th>
+                  <th style={{ ...cell, textAlign: "right" }}>Ticket promedio</th>
+                </tr>
+              </thead>
+              <tbody>
+                {s.days.map((d) => (
+                  <tr key={`${d.day}|${d.kiosk_id}`} style={{ borderBottom: "1px solid #222" }}>
+                    <td style={cell}>{d.day}</td>
+                    <td style={cell}>{d.kiosk_id}</td>
+                    <td style={{ ...cell, textAlign: "right" }}>{d.conversations}</td>
+                    <td style={{ ...cell, textAlign: "right" }}>{d.orders}</td>
+                    <td style={{ ...cell, textAlign: "right" }}>{money(d.revenue, d.currency)}</td>
+                    <td style={{ ...cell, textAlign: "right" }}>{d.orders ? money(d.avg_basket, d.currency) : "—"}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {!s.days.length && <div style={{ color: "#666", marginTop: 8 }}>Sin actividad en el periodo.</div>}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,148 @@
+// components/AdminImport.tsx
+import React, { useState } from "react";
+import type { ImportPlan } from "@/lib/catalog-admin";
+
+const ACTIONS: Record<string, { label: string; color: string }> = {
+  create: { label: "Nuevo", color: "#22c55e" },
+  update: { label: "Cambia", color: "#eab308" },
+  unchanged: { label: "Igual", color: "#666" },
+};
+
+const show = (v: unknown) =>
+  v === null || v === undefined || v === "" ? "—" : typeof v === "object" ? JSON.stringify(v) : String(v);
+
+const button: React.CSSProperties = { padding: "10px 18px", borderRadius: 8, border: "none", color: "#fff" };
+
+/**
+ * CSV import in two steps: "Revisar" runs a dry run and shows what each row
+ * would create or change (and every error); "Aplicar" writes it. Export is a
+ * plain download of /api/admin/export, in the same columns.
+ */
+export default function AdminImport({ onApplied }: { onApplied?: () => void }) {
+  const [csv, setCsv] = useState<string | null>(null);
+  const [fileName, setFileName] = useState("");
+  const [plan, setPlan] = useState<ImportPlan | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [showUnchanged, setShowUnchanged] = useState(false);
+
+  async function send(dryRun: boolean) {
+    if (!csv) return;
+    setBusy(true);
+    setMessage(null);
+    try {
+      const r = await fetch("/api/admin/import", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ csv, dryRun }),
+      });
+      const d = await r.json();
+      if (d.plan) setPlan(d.plan);
+      if (!r.ok) return setMessage(d.error || `Error ${r.status}`);
+      if (!dryRun) {
+        setMessage(`Listo: ${d.applied.products} productos y ${d.applied.synonyms} listas de sinónimos actualizados.`);
+        setCsv(null);
+        onApplied?.();
+      }
+    } catch (e) {
+      setMessage((e as Error)?.message || "No se pudo importar.");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function pick(file: File) {
+    setPlan(null);
+    setMessage(null);
+    setFileName(file.name);
+    setCsv(await file.text());
+  }
+
+  const pending = plan ? plan.summary.create + plan.summary.update : 0;
+  const rows = plan?.rows.filter((r) => showUnchanged || r.action !== "unchanged") ?? [];
+
+  return (
+    <div>
+      <div style={{ display: "flex", gap: 12, alignItems: "center", flexWrap: "wrap", marginBottom: 16 }}>
+        <button
+          onClick={() => (window.location.href = "/api/admin/export")}
+          style={{ ...button, background: "#2563eb" }}
+        >
+          Descargar catálogo (CSV)
+        </button>
+        <input type="file" accept=".csv,text/csv" onChange={(e) => e.target.files?.[0] && pick(e.target.files[0])} />
+        <button onClick={() => send(true)} disabled={!csv || busy} style={{ ...button, background: "#444" }}>
+          Revisar cambios
+        </button>
+        <button
+          onClick={() => send(false)}
+          disabled={!csv || busy || !plan || plan.errors.length > 0 || pending === 0}
+          style={{ ...button, background: "#16a34a" }}
+        >
+          Aplicar {pending ? `(${pending})` : ""}
+        </button>
+      </div>
+      <div style={{ color: "#888", fontSize: 14, marginBottom: 16 }}>
+        Columnas: sku, name/nombre, brand/marca, category/categoria, subcategory, description, price/precio,
+        currency/moneda, stock/existencias, image_url, location/ubicacion, specs (JSON), synonyms (separados por |). Solo sku es
+        obligatoria; una celda vacía conserva el valor actual.
+      </div>
+
+      {message && (
+        <div style={{ marginBottom: 12, color: plan?.errors.length ? "#f87171" : "#86efac" }}>{message}</div>
+      )}
+
+      {plan && (
+        <>
+          <div style={{ marginBottom: 12 }}>
+            {fileName}: <b>{plan.summary.create}</b> nuevos, <b>{plan.summary.update}</b> con cambios,{" "}
+            <b>{plan.summary.unchanged}</b> sin cambios, <b style={{ color: plan.errors.length ? "#f87171" : undefined }}>
+              {plan.errors.length}
+            </b>{" "}
+            errores
+            <label style={{ marginLeft: 16, color: "#aaa" }}>
+              <input type="checkbox" checked={showUnchanged} onChange={(e) => setShowUnchanged(e.target.checked)} /> ver
+              filas sin cambios
+            </label>
+          </div>
+
+          {plan.errors.length > 0 && (
+            <table style={{ width: "100%", borderCollapse: "collapse", marginBottom: 16, color: "#fca5a5" }}>
+              <tbody>
+                {plan.errors.map((e, i) => (
+                  <tr key={i} style={{ borderBottom: "1px solid #3a0e0e" }}>
+                    <td style={{ padding: 6, width: 80 }}>Línea {e.line}</td>
+                    <td style={{ padding: 6, width: 160 }}>{e.sku ?? ""}</td>
+                    <td style={{ padding: 6 }}>{e.error}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+
+          <table style={{ width: "100%", borderCollapse: "collapse" }}>
+            <tbody>
+              {rows.map((r) => (
+                <tr key={r.sku} style={{ borderBottom: "1px solid #2a2a2a", verticalAlign: "top" }}>
+                  <td style={{ padding: 6, width: 80, color: "#777" }}>{r.line}</td>
+                  <td style={{ padding: 6, width: 160 }}>{r.sku}</td>
+                  <td style={{ padding: 6, width: 90, color: ACTIONS[r.action].color }}>{ACTIONS[r.action].label}</td>
+                  <td style={{ padding: 6 }}>
+                    {r.action === "create"
+                      ? r.product.name
+                      : r.changes.map((c) => (
+                          <div key={c.field}>
+                            <span style={{ color: "#aaa" }}>{c.field}:</span>{" "}
+                            <s style={{ color: "#888" }}>{show(c.from)}</s> → {show(c.to)}
+                          </div>
+                        ))}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </>
+      )}
+    </div>
+  );
+}
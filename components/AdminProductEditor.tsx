@@ -0,0 +1,181 @@
+// components/AdminProductEditor.tsx
+import React, { useState } from "react";
+import type { Product } from "@/lib/catalog";
+
+export type AdminProduct = Product & { synonyms: string[] };
+
+const FIELDS: { key: keyof Product; label: string; type?: "number" | "textarea" }[] = [
+  { key: "name", label: "Nombre" },
+  { key: "brand", label: "Marca" },
+  { key: "category", label: "Categoría" },
+  { key: "subcategory", label: "Subcategoría" },
+  { key: "description", label: "Descripción", type: "textarea" },
+  { key: "price", label: "Precio", type: "number" },
+  { key: "currency", label: "Moneda" },
+  { key: "stock", label: "Existencias", type: "number" },
+  { key: "image_url", label: "URL de imagen" },
+  { key: "location", label: "Ubicación (pasillo-anaquel-gaveta)" },
+];
+
+const input: React.CSSProperties = {
+  width: "100%",
+  padding: "8px 10px",
+  borderRadius: 8,
+  border: "1px solid #333",
+  background: "#111",
+  color: "#eee",
+  fontSize: 15,
+};
+
+/**
+ * Create/edit form for one product: fields, synonyms (one per line), specs as
+ * JSON and the picture. `product` null = new product.
+ */
+export default function AdminProductEditor({
+  product,
+  onSaved,
+  onClose,
+}: {
+  product: AdminProduct | null;
+  onSaved: (p: AdminProduct) => void;
+  onClose: () => void;
+}) {
+  const isNew = !product;
+  const [form, setForm] = useState<Record<string, string>>(() => {
+    const out: Record<string, string> = { sku: product?.sku ?? "", currency: product?.currency ?? "MXN" };
+    for (const f of FIELDS) if (product && product[f.key] != null) out[f.key] = String(product[f.key]);
+    return out;
+  });
+  const [synonyms, setSynonyms] = useState((product?.synonyms ?? []).join("\n"));
+  const [specs, setSpecs] = useState(product?.specs ? JSON.stringify(product.specs, null, 2) : "");
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const set = (key: string, value: string) => setForm((f) => ({ ...f, [key]: value }));
+
+  async function save() {
+    setError(null);
+    let parsedSpecs: unknown = null;
+    if (specs.trim()) {
+      try {
+        parsedSpecs = JSON.parse(specs);
+      } catch {
+        return setError("Las especificaciones no son JSON válido.");
+      }
+    }
+    setBusy(true);
+    try {
+      const body = {
+        product: { ...form, specs: parsedSpecs },
+        synonyms: synonyms.split("\n"),
+      };
+      const r = await fetch(isNew ? "/api/admin/products" : `/api/admin/products/${encodeURIComponent(form.sku)}`, {
+        method: isNew ? "POST" : "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      });
+      const d = await r.json();
+      if (!r.ok) return setError(d.error || `Error ${r.status}`);
+      onSaved({ ...d.product, synonyms: d.synonyms });
+    } catch (e) {
+      setError((e as Error)?.message || "No se pudo guardar.");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function upload(file: File) {
+    setError(null);
+    setBusy(true);
+    try {
+      const r = await fetch(`/api/admin/images?sku=${encodeURIComponent(form.sku)}`, {
+        method: "POST",
+        headers: { "Content-Type": file.type },
+        body: file,
+      });
+      const d = await r.json();
+      if (!r.ok) return setError(d.error || `Error ${r.status}`);
+      set("image_url", d.image_url);
+    } catch (e) {
+      setError((e as Error)?.message || "No se pudo subir la imagen.");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  return (
+    <div style={{ background: "#1a1a1a", border: "1px solid #333", borderRadius: 12, padding: 20 }}>
+      <div style={{ display: "flex", justifyContent: "space-between", marginBottom: 14 }}>
+        <h3 style={{ margin: 0 }}>{isNew ? "Nuevo producto" : `Editar ${product.sku}`}</h3>
+        <button onClick={onClose} style={{ background: "none", border: "none", color: "#aaa", fontSize: 18 }}>
+          ✕
+        </button>
+      </div>
+
+      <div style={{ display: "grid", gridTemplateColumns: "160px 1fr", gap: 10, alignItems: "center" }}>
+        <label>SKU</label>
+        <input style={input} value={form.sku} disabled={!isNew} onChange={(e) => set("sku", e.target.value)} />
+        {FIELDS.map((f) => (
+          <React.Fragment key={f.key}>
+            <label>{f.label}</label>
+            {f.type === "textarea" ? (
+              <textarea
+                style={{ ...input, minHeight: 70 }}
+                value={form[f.key] ?? ""}
+                onChange={(e) => set(f.key, e.target.value)}
+              />
+            ) : (
+              <input
+                style={input}
+                type={f.type === "number" ? "number" : "text"}
+                step={f.key === "price" ? "0.01" : "1"}
+                min={0}
+                value={form[f.key] ?? ""}
+                onChange={(e) => set(f.key, e.target.value)}
+              />
+            )}
+          </React.Fragment>
+        ))}
+        <label>Imagen</label>
+        <div style={{ display: "flex", gap: 12, alignItems: "center" }}>
+          {form.image_url && (
+            <img src={form.image_url} alt="" width={64} height={64} style={{ objectFit: "cover", borderRadius: 8 }} />
+          )}
+          <input
+            type="file"
+            accept="image/jpeg,image/png,image/webp"
+            disabled={isNew || busy}
+            onChange={(e) => e.target.files?.[0] && upload(e.target.files[0])}
+          />
+          {isNew && <span style={{ color: "#888" }}>Guarda el producto antes de subir su imagen.</span>}
+        </div>
+        <label>Sinónimos (uno por línea)</label>
+        <textarea style={{ ...input, minHeight: 90 }} value={synonyms} onChange={(e) => setSynonyms(e.target.value)} />
+        <label>Especificaciones (JSON)</label>
+        <textarea
+          style={{ ...input, minHeight: 90, fontFamily: "monospace" }}
+          value={specs}
+          placeholder='{ "material": "PVC", "diametro": "1/2\"" }'
+          onChange={(e) => setSpecs(e.target.value)}
+        />
+      </div>
+
+      {error && <div style={{ color: "#f87171", marginTop: 12 }}>{error}</div>}
+      <div style={{ marginTop: 16, display: "flex", gap: 10 }}>
+        <button
+          onClick={save}
+          disabled={busy}
+          style={{ padding: "10px 18px", borderRadius: 8, border: "none", background: "#16a34a", color: "#fff" }}
+        >
+          {busy ? "Guardando…" : "Guardar"}
+        </button>
+        <button
+          onClick={onClose}
+          style={{ padding: "10px 18px", borderRadius: 8, border: "1px solid #444", background: "none", color: "#ddd" }}
+        >
+          Cancelar
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,197 @@
+// components/AdminQueryQueue.tsx
+import React, { useCallback, useEffect, useState } from "react";
+import type { QueryMiss, QueryMissStatus } from "@/lib/query-log";
+
+type Pick = { sku: string; name: string };
+type Row = QueryMiss & { suggestions: Pick[] };
+
+const STATUS_LABELS: Record<QueryMissStatus, string> = {
+  open: "Pendientes",
+  mapped: "Mapeadas",
+  dismissed: "Descartadas",
+};
+
+const SOURCE_LABELS: Record<string, string> = { search: "búsqueda", agent: "asistente" };
+
+const box: React.CSSProperties = {
+  padding: "6px 8px",
+  borderRadius: 6,
+  border: "1px solid #333",
+  background: "#111",
+  color: "#eee",
+  fontSize: 14,
+};
+const button: React.CSSProperties = { padding: "6px 12px", borderRadius: 6, border: "none", color: "#fff" };
+
+const chip = (on: boolean): React.CSSProperties => ({
+  padding: "4px 10px",
+  borderRadius: 999,
+  border: `1px solid ${on ? "#2563eb" : "#444"}`,
+  background: on ? "#1e3a8a" : "transparent",
+  color: on ? "#fff" : "#ccc",
+  fontSize: 13,
+  cursor: "pointer",
+});
+
+/** One queued query: pick SKUs (suggested or searched), adjust the term, map or dismiss */
+function QueryRow({ row, onDone }: { row: Row; onDone: (message: string) => void }) {
+  const [term, setTerm] = useState(row.normalized);
+  const [picked, setPicked] = useState<Pick[]>([]);
+  const [lookup, setLookup] = useState("");
+  const [found, setFound] = useState<Pick[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    if (lookup.trim().length < 2) return setFound([]);
+    const t = setTimeout(async () => {
+      // the admin product list, not /api/search: staff lookups must not land in the miss log
+      const r = await fetch(`/api/admin/products?q=${encodeURIComponent(lookup.trim())}`);
+      const d = await r.json().catch(() => ({}));
+      setFound(((d.products ?? []) as Pick[]).slice(0, 8).map((p) => ({ sku: p.sku, name: p.name })));
+    }, 250);
+    return () => clearTimeout(t);
+  }, [lookup]);
+
+  const toggle = (p: Pick) =>
+    setPicked((list) => (list.some((x) => x.sku === p.sku) ? list.filter((x) => x.sku !== p.sku) : [...list, p]));
+
+  async function send(action: "map" | "dismiss" | "reopen") {
+    setBusy(true);
+    setError(null);
+    try {
+      const r = await fetch("/api/admin/queries", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ normalized: row.normalized, action, skus: picked.map((p) => p.sku), term }),
+      });
+      const d = await r.json().catch(() => ({}));
+      if (!r.ok) return setError(d.error || `Error ${r.status}`);
+      onDone(
+        action === "map"
+          ? `«${d.term}» ahora es sinónimo de ${picked.map((p) => p.sku).join(", ")}.`
+          : action === "dismiss"
+          ? `«${row.normalized}» descartada.`
+          : `«${row.normalized}» vuelve a pendientes.`
+      );
+    } catch (e) {
+      setError((e as Error)?.message || "No se pudo guardar.");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  const options = [...row.suggestions, ...found.filter((f) => !row.suggestions.some((s) => s.sku === f.sku))];
+
+  return (
+    <div style={{ border: "1px solid #2a2a2a", borderRadius: 10, padding: 14, marginBottom: 12 }}>
+      <div style={{ display: "flex", alignItems: "baseline", gap: 12, flexWrap: "wrap" }}>
+        <strong style={{ fontSize: 17 }}>{row.normalized}</strong>
+        <span style={{ color: "#aaa" }}>
+          {row.count}× · {row.zero_count} sin resultados · última: {new Date(row.last_seen).toLocaleString()} ·{" "}
+          {row.sources.map((s) => SOURCE_LABELS[s] ?? s).join(", ")}
+        </span>
+      </div>
+      <div style={{ color: "#888", fontSize: 13, margin: "4px 0 10px" }}>
+        {row.examples.map((x) => `“${x}”`).join(" · ")}
+        {row.status === "mapped" && row.skus.length > 0 && <> · mapeada a {row.skus.join(", ")}</>}
+      </div>
+
+      {row.status === "open" ? (
+        <>
+          <div style={{ display: "flex", gap: 8, flexWrap: "wrap", marginBottom: 10 }}>
+            {options.map((p) => (
+              <button key={p.sku} onClick={() => toggle(p)} style={chip(picked.some((x) => x.sku === p.sku))}>
+                {p.name} <span style={{ color: "#888" }}>{p.sku}</span>
+              </button>
+            ))}
+            {picked
+              .filter((p) => !options.some((o) => o.sku === p.sku))
+              .map((p) => (
+                <button key={p.sku} onClick={() => toggle(p)} style={chip(true)}>
+                  {p.name} <span style={{ color: "#888" }}>{p.sku}</span>
+                </button>
+              ))}
+            {!options.length && !picked.length && <span style={{ color: "#666" }}>Sin sugerencias; busca abajo.</span>}
+          </div>
+          <div style={{ display: "flex", gap: 8, alignItems: "center", flexWrap: "wrap" }}>
+            <input
+              style={{ ...box, flex: 1, minWidth: 200 }}
+              placeholder="Buscar otro producto (SKU o nombre)"
+              value={lookup}
+              onChange={(e) => setLookup(e.target.value)}
+            />
+            <label style={{ color: "#aaa", fontSize: 13 }}>
+              Sinónimo{" "}
+              <input style={{ ...box, width: 180 }} value={term} onChange={(e) => setTerm(e.target.value)} />
+            </label>
+            <button
+              onClick={() => send("map")}
+              disabled={busy || !picked.length || !term.trim()}
+              style={{ ...button, background: "#16a34a" }}
+            >
+              Mapear ({picked.length})
+            </button>
+            <button onClick={() => send("dismiss")} disabled={busy} style={{ ...button, background: "#444" }}>
+              Descartar
+            </button>
+          </div>
+        </>
+      ) : (
+        <button onClick={() => send("reopen")} disabled={busy} style={{ ...button, background: "#444" }}>
+          Reabrir
+        </button>
+      )}
+      {error && <div style={{ color: "#f87171", marginTop: 8 }}>{error}</div>}
+    </div>
+  );
+}
+
+/**
+ * Searches that found little or nothing, most frequent first. Mapping a query
+ * to products adds it as a synonym of each, so the next customer who types it
+ * finds them; queries that aren't about the catalog can be dismissed.
+ */
+export default function AdminQueryQueue() {
+  const [status, setStatus] = useState<QueryMissStatus>("open");
+  const [rows, setRows] = useState<Row[] | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    const r = await fetch(`/api/admin/queries?status=${status}`);
+    const d = await r.json().catch(() => ({}));
+    if (!r.ok) return setMessage(d.error || `Error ${r.status}`);
+    setRows(d.queries);
+  }, [status]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  return (
+    <div>
+      <div style={{ display: "flex", gap: 8, alignItems: "center", marginBottom: 16 }}>
+        {(Object.keys(STATUS_LABELS) as QueryMissStatus[]).map((s) => (
+          <button key={s} onClick={() => setStatus(s)} style={chip(status === s)}>
+            {STATUS_LABELS[s]}
+          </button>
+        ))}
+        <button onClick={load} style={{ ...button, background: "#333", marginLeft: "auto" }}>
+          Actualizar
+        </button>
+      </div>
+      {message && <div style={{ color: "#aaa", marginBottom: 12 }}>{message}</div>}
+      {rows && !rows.length && <div style={{ color: "#666" }}>No hay búsquedas en esta lista.</div>}
+      {rows?.map((row) => (
+        <QueryRow
+          key={row.normalized}
+          row={row}
+          onDone={(m) => {
+            setMessage(m);
+            load();
+          }}
+        />
+      ))}
+    </div>
+  );
+}
@@ -1,16 +1,20 @@
 // components/BasketPane.tsx
-import React from "react";
-
-type BasketItem = {
-  sku: string;
-  name: string;
-  price: number;
-  currency: string;
-  stock: number;
-  image_url?: string;
-  why?: string;
-  qty?: number;
-};
+import React, { useState } from "react";
+import StoreMap from "@/components/StoreMap";
+import type { PlanLine } from "@/lib/plan";
+import type { OrderShortfall } from "@/lib/orders";
+import { applyPromotions, discountsBySku, Promotion, promotionsFor } from "@/lib/promotions";
+import { computeTotals, formatMoney, taxName } from "@/lib/totals";
+import { describeLocation, routeStops } from "@/lib/wayfinding";
+
+type BasketItem = PlanLine;
+
+export const stockPill = (stock: number) =>
+  stock === 0
+    ? { bg: "#3a0e0e", text: "Agotado" }
+    : stock <= 3
+    ? { bg: "#3a2a0e", text: `Bajo (${stock})` }
+    : { bg: "#143a14", text: `Stock (${stock})` };
 
 export default function BasketPane({
   title,
@@ -20,6 +24,12 @@ export default function BasketPane({
   onConfirm,
   onReset,
   onQtyChange,
+  shortfalls = [],
+  onReplace,
+  onRemove,
+  onAdd,
+  onOpen,
+  promotions = [],
 }: {
   title?: string;
   steps?: string[];
@@ -28,14 +38,15 @@ export default function BasketPane({
   onConfirm?: () => void;
   onReset?: () => void;
   onQtyChange?: (sku: string, qty: number) => void;
+  shortfalls?: OrderShortfall[];
+  onReplace?: (sku: string, alt: BasketItem) => void;
+  onRemove?: (sku: string) => void;
+  /** "Agregar" on a suggestion */
+  onAdd?: (item: BasketItem) => void;
+  /** tapping a product's picture or name: its detail panel */
+  onOpen?: (sku: string) => void;
+  promotions?: Promotion[];
 }) {
-  const pill = (stock: number) =>
-    stock === 0
-      ? { bg: "#3a0e0e", text: "Agotado" }
-      : stock <= 3
-      ? { bg: "#3a2a0e", text: `Bajo (${stock})` }
-      : { bg: "#143a14", text: `Stock (${stock})` };
-
   const handleInc = (it: BasketItem) => {
     const current = Math.max(1, Number(it.qty || 1));
     if (onQtyChange) onQtyChange(it.sku, Math.min(current + 1, Math.max(1, it.stock || 0)));
@@ -45,7 +56,189 @@ export default function BasketPane({
     if (onQtyChange) onQtyChange(it.sku, Math.max(1, current - 1));
   };
 
-  const subtotal = items.reduce((s, it) => s + Number(it.price || 0) * Math.max(1, Number(it.qty || 1)), 0);
+  // "list": as the assistant built it; "route": by aisle, in walking order, with the map
+  const [view, setView] = useState<"list" | "route">("list");
+  const stops = routeStops(items);
+
+  const applied = applyPromotions(promotions, items);
+  const off = discountsBySku(applied);
+  const totals = computeTotals(items.map((it) => ({ ...it, discount: off.get(it.sku) ?? 0 })));
+
+  // one basket line: picture, stock, promotions, quantity, remove, and alternatives when short
+  const renderLine = (it: BasketItem) => {
+    const p = stockPill(it.stock);
+    const qty = Math.max(1, Number(it.qty || 1));
+    const canInc = qty < Math.max(1, Number(it.stock || 0));
+    const canDec = qty > 1;
+    const short = shortfalls.find((s) => s.sku === it.sku);
+    return (
+      <div key={it.sku} style={{ display: "flex", gap: 14, marginBottom: 18, alignItems: "center" }}>
+        {it.image_url && (
+          <img
+            src={it.image_url}
+            alt={it.name}
+            width={72}
+            height={72}
+            onClick={() => onOpen?.(it.sku)}
+            style={{ objectFit: "cover", borderRadius: 10, background: "#111", cursor: "pointer" }}
+          />
+        )}
+        <div style={{ flex: 1 }}>
+          <div style={{ display: "flex", justifyContent: "space-between", alignItems: "baseline" }}>
+            <div
+              onClick={() => onOpen?.(it.sku)}
+              style={{ fontWeight: 600, color: "#f3f4f6", fontSize: 18, cursor: "pointer" }}
+            >
+              {it.name}
+            </div>
+            <span
+              style={{
+                fontSize: 13,
+                padding: "3px 8px",
+                borderRadius: 6,
+                background: p.bg,
+                color: "#d1fae5",
+                marginLeft: 8,
+              }}
+            >
+              {p.text}
+            </span>
+          </div>
+          {it.location && (
+            <div style={{ fontSize: 13, color: "#93c5fd", marginTop: 2 }}>{describeLocation(it.location)}</div>
+          )}
+          {it.why && <div style={{ fontSize: 13, color: "#9ca3af", marginTop: 2 }}>{it.why}</div>}
+          {promotionsFor(promotions, it).map((promo) => (
+            <span
+              key={promo.id}
+              style={{
+                display: "inline-block",
+                fontSize: 12,
+                padding: "2px 8px",
+                borderRadius: 6,
+                background: "#14532d",
+                color: "#bbf7d0",
+                marginTop: 4,
+                marginRight: 6,
+              }}
+            >
+              {promo.name}
+            </span>
+          ))}
+
+          <div style={{ marginTop: 10, display: "flex", alignItems: "center", gap: 12 }}>
+            <span style={{ color: "#d1d5db", minWidth: 110, fontSize: 15 }}>
+              {formatMoney(Number(it.price), it.currency)}
+            </span>
+
+            <div style={{ display: "flex", alignItems: "center", gap: 10 }}>
+              <button
+                onClick={() => handleDec(it)}
+                disabled={!canDec}
+                style={{
+                  width: 32,
+                  height: 32,
+                  borderRadius: 8,
+                  background: canDec ? "#1f2937" : "#111827",
+                  color: "#e5e7eb",
+                  border: "1px solid #374151",
+                  fontSize: 18,
+                  cursor: canDec ? "pointer" : "not-allowed",
+                }}
+              >
+                −
+              </button>
+              <div
+                style={{
+                  minWidth: 40,
+                  textAlign: "center",
+                  padding: "6px 8px",
+                  borderRadius: 8,
+                  background: "#0f172a",
+                  color: "#e5e7eb",
+                  border: "1px solid #1f2937",
+                  fontSize: 16,
+                }}
+              >
+                {qty}
+              </div>
+              <button
+                onClick={() => handleInc(it)}
+                disabled={!canInc}
+                style={{
+                  width: 32,
+                  height: 32,
+                  borderRadius: 8,
+                  background: canInc ? "#1f2937" : "#111827",
+                  color: "#e5e7eb",
+                  border: "1px solid #374151",
+                  fontSize: 18,
+                  cursor: canInc ? "pointer" : "not-allowed",
+                }}
+              >
+                +
+              </button>
+            </div>
+
+            <button
+              onClick={() => onRemove?.(it.sku)}
+              aria-label={`Quitar ${it.name}`}
+              style={{
+                marginLeft: "auto",
+                padding: "6px 10px",
+                borderRadius: 8,
+                background: "transparent",
+                color: "#fca5a5",
+                border: "1px solid #7f1d1d",
+                cursor: "pointer",
+                fontSize: 13,
+              }}
+            >
+              Quitar
+            </button>
+          </div>
+
+          {short && (
+            <div
+              style={{
+                marginTop: 10,
+                padding: "8px 10px",
+                borderRadius: 8,
+                background: "#3a0e0e",
+                color: "#fecaca",
+                fontSize: 14,
+              }}
+            >
+              {short.available > 0
+                ? `Solo quedan ${short.available} disponibles (pediste ${short.requested}).`
+                : "Se acaba de agotar."}
+              {short.alternatives.length > 0 && (
+                <div style={{ display: "flex", flexWrap: "wrap", gap: 8, marginTop: 8 }}>
+                  {short.alternatives.map((alt) => (
+                    <button
+                      key={alt.sku}
+                      onClick={() => onReplace?.(it.sku, alt)}
+                      style={{
+                        padding: "6px 10px",
+                        borderRadius: 8,
+                        background: "#1f2937",
+                        color: "#e5e7eb",
+                        border: "1px solid #374151",
+                        cursor: "pointer",
+                        fontSize: 13,
+                      }}
+                    >
+                      Cambiar por {alt.name} · {formatMoney(Number(alt.price), alt.currency)}
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+    );
+  };
 
   return (
     <aside
@@ -79,117 +272,138 @@ export default function BasketPane({
           </div>
         )}
 
-        <h3 style={{ fontSize: 20, margin: "14px 0", color: "#e5e7eb" }}>Canasta</h3>
+        <div style={{ display: "flex", alignItems: "center", justifyContent: "space-between" }}>
+          <h3 style={{ fontSize: 20, margin: "14px 0", color: "#e5e7eb" }}>Canasta</h3>
+          {items.length > 0 && (
+            <div style={{ display: "flex", gap: 6 }}>
+              {(["list", "route"] as const).map((v) => (
+                <button
+                  key={v}
+                  onClick={() => setView(v)}
+                  style={{
+                    padding: "6px 10px",
+                    borderRadius: 8,
+                    background: view === v ? "#1d4ed8" : "#111827",
+                    color: "#e5e7eb",
+                    border: "1px solid #1f2937",
+                    cursor: "pointer",
+                    fontSize: 13,
+                  }}
+                >
+                  {v === "list" ? "Lista" : "Ruta en tienda"}
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
         {items.length === 0 && <div style={{ color: "#666" }}>Aún no hay artículos.</div>}
+        {view === "route" && items.length > 0 && (
+          <StoreMap aisles={stops.flatMap((s) => (s.aisle ? [s.aisle.id] : []))} />
+        )}
 
-        {items.map((it) => {
-          const p = pill(it.stock);
-          const qty = Math.max(1, Number(it.qty || 1));
-          const canInc = qty < Math.max(1, Number(it.stock || 0));
-          const canDec = qty > 1;
-          return (
-            <div key={it.sku} style={{ display: "flex", gap: 14, marginBottom: 18, alignItems: "center" }}>
-              {it.image_url && (
-                <img
-                  src={it.image_url}
-                  alt={it.name}
-                  width={72}
-                  height={72}
-                  style={{ objectFit: "cover", borderRadius: 10, background: "#111" }}
-                />
-              )}
-              <div style={{ flex: 1 }}>
-                <div style={{ display: "flex", justifyContent: "space-between", alignItems: "baseline" }}>
-                  <div style={{ fontWeight: 600, color: "#f3f4f6", fontSize: 18 }}>{it.name}</div>
-                  <span
-                    style={{
-                      fontSize: 13,
-                      padding: "3px 8px",
-                      borderRadius: 6,
-                      background: p.bg,
-                      color: "#d1fae5",
-                      marginLeft: 8,
-                    }}
-                  >
-                    {p.text}
-                  </span>
-                </div>
-                {it.why && <div style={{ fontSize: 13, color: "#9ca3af", marginTop: 2 }}>{it.why}</div>}
-
-                <div style={{ marginTop: 10, display: "flex", alignItems: "center", gap: 12 }}>
-                  <span style={{ color: "#d1d5db", minWidth: 110, fontSize: 15 }}>
-                    {it.currency} {Number(it.price).toFixed(2)}
-                  </span>
-
-                  <div style={{ display: "flex", alignItems: "center", gap: 10 }}>
-                    <button
-                      onClick={() => handleDec(it)}
-                      disabled={!canDec}
-                      style={{
-                        width: 32,
-                        height: 32,
-                        borderRadius: 8,
-                        background: canDec ? "#1f2937" : "#111827",
-                        color: "#e5e7eb",
-                        border: "1px solid #374151",
-                        fontSize: 18,
-                        cursor: canDec ? "pointer" : "not-allowed",
-                      }}
-                    >
-                      −
-                    </button>
-                    <div
-                      style={{
-                        minWidth: 40,
-                        textAlign: "center",
-                        padding: "6px 8px",
-                        borderRadius: 8,
-                        background: "#0f172a",
-                        color: "#e5e7eb",
-                        border: "1px solid #1f2937",
-                        fontSize: 16,
-                      }}
-                    >
-                      {qty}
-                    </div>
-                    <button
-                      onClick={() => handleInc(it)}
-                      disabled={!canInc}
-                      style={{
-                        width: 32,
-                        height: 32,
-                        borderRadius: 8,
-                        background: canInc ? "#1f2937" : "#111827",
-                        color: "#e5e7eb",
-                        border: "1px solid #374151",
-                        fontSize: 18,
-                        cursor: canInc ? "pointer" : "not-allowed",
-                      }}
-                    >
-                      +
-                    </button>
-                  </div>
+        {view === "route"
+          ? stops.map((stop, i) => (
+              <div key={stop.aisle?.id ?? "none"} style={{ marginBottom: 8 }}>
+                <div style={{ color: "#93c5fd", fontWeight: 700, fontSize: 15, margin: "6px 0 10px" }}>
+                  {stop.aisle
+                    ? `${i + 1}. Pasillo ${stop.aisle.id} · ${stop.aisle.name}`
+                    : "Sin ubicación: pregunta en caja"}
                 </div>
+                {stop.lines.map(renderLine)}
               </div>
-            </div>
-          );
-        })}
+            ))
+          : items.map(renderLine)}
 
         {upsell.length > 0 && (
           <div style={{ marginTop: 12 }}>
             <h4 style={{ fontSize: 17, color: "#e5e7eb" }}>Sugerencias</h4>
-            {upsell.map((u) => (
-              <div key={u.sku} style={{ fontSize: 15, marginTop: 6, color: "#cbd5e1" }}>• {u.name}</div>
-            ))}
+            {upsell.map((u) => {
+              const p = stockPill(u.stock);
+              const canAdd = Number(u.stock) > 0;
+              return (
+                <div key={u.sku} style={{ display: "flex", gap: 12, marginTop: 10, alignItems: "center" }}>
+                  {u.image_url && (
+                    <img
+                      src={u.image_url}
+                      alt={u.name}
+                      width={48}
+                      height={48}
+                      onClick={() => onOpen?.(u.sku)}
+                      style={{ objectFit: "cover", borderRadius: 8, background: "#111", cursor: "pointer" }}
+                    />
+                  )}
+                  <div style={{ flex: 1 }}>
+                    <div onClick={() => onOpen?.(u.sku)} style={{ color: "#e5e7eb", fontSize: 15, cursor: "pointer" }}>
+                      {u.name}
+                    </div>
+                    {u.why && <div style={{ fontSize: 13, color: "#9ca3af", marginTop: 2 }}>{u.why}</div>}
+                    <div style={{ display: "flex", alignItems: "center", gap: 8, marginTop: 4, fontSize: 14 }}>
+                      <span style={{ color: "#d1d5db" }}>{formatMoney(Number(u.price), u.currency)}</span>
+                      <span
+                        style={{
+                          fontSize: 12,
+                          padding: "2px 8px",
+                          borderRadius: 6,
+                          background: p.bg,
+                          color: "#d1fae5",
+                        }}
+                      >
+                        {p.text}
+                      </span>
+                    </div>
+                  </div>
+                  <button
+                    onClick={() => onAdd?.(u)}
+                    disabled={!canAdd}
+                    style={{
+                      padding: "8px 12px",
+                      borderRadius: 8,
+                      background: canAdd ? "#1d4ed8" : "#111827",
+                      color: "#e5e7eb",
+                      border: "1px solid #1e3a8a",
+                      cursor: canAdd ? "pointer" : "not-allowed",
+                      fontWeight: 600,
+                      fontSize: 14,
+                    }}
+                  >
+                    Agregar
+                  </button>
+                </div>
+              );
+            })}
           </div>
         )}
       </div>
 
       <div style={{ marginTop: "auto", padding: 20, borderTop: "1px solid #1f2937" }}>
-        <div style={{ display: "flex", justifyContent: "space-between", marginBottom: 14, color: "#e5e7eb", fontSize: 16 }}>
-          <span style={{ opacity: 0.8 }}>Subtotal</span>
-          <strong>MXN {subtotal.toFixed(2)}</strong>
-        </div>
+        {totals.ok ? (
+          <div style={{ marginBottom: 14, color: "#e5e7eb", fontSize: 16 }}>
+            {applied.map((a) => (
+              <div key={a.id} style={{ display: "flex", justifyContent: "space-between", color: "#86efac", fontSize: 14 }}>
+                <span>{a.name}</span>
+                <span>−{formatMoney(a.amount, totals.totals.currency)}</span>
+              </div>
+            ))}
+            <div style={{ display: "flex", justifyContent: "space-between", opacity: 0.8, fontSize: 14 }}>
+              <span>Subtotal</span>
+              <span>{formatMoney(totals.totals.subtotal, totals.totals.currency)}</span>
+            </div>
+            {totals.totals.taxes.map((t) => (
+              <div key={t.rate} style={{ display: "flex", justifyContent: "space-between", opacity: 0.8, fontSize: 14 }}>
+                <span>{taxName(t.rate)}</span>
+                <span>{formatMoney(t.tax, totals.totals.currency)}</span>
+              </div>
+            ))}
+            <div style={{ display: "flex", justifyContent: "space-between", marginTop: 4 }}>
+              <span>Total</span>
+              <strong>{formatMoney(totals.totals.total, totals.totals.currency)}</strong>
+            </div>
+          </div>
+        ) : (
+          <div style={{ marginBottom: 14, color: "#fecaca", fontSize: 15 }}>
+            {totals.error} ({totals.currencies.join(", ")})
+          </div>
+        )}
         <div style={{ display: "flex", gap: 10 }}>
           <button
             onClick={onReset}
@@ -1,24 +1,38 @@
 // components/ChatPane.tsx
-import React, { useRef, useState } from "react";
+import React, { useEffect, useRef, useState } from "react";
+import { AgentEvent, parseAgentReply, Plan } from "@/lib/plan";
+import { readSse } from "@/lib/sse";
 
 export type Msg = { role: "user" | "assistant"; text: string };
 
 type Props = {
-  onResult: (plan: any) => void;
+  /** server session (POST /api/sessions); it keeps the transcript and the cart */
+  sessionId: string | null;
+  onResult: (plan: Plan) => void;
   onResetChat?: () => void;
+  /** the session ran out while idle: start over for a new customer */
+  onSessionExpired?: () => void;
+  /** resolves once on-screen basket edits have reached the session, so the turn sees them */
+  cartSynced?: () => Promise<unknown>;
+  /** a question from elsewhere on screen (e.g. the product panel), sent once the chat is free; a new id asks again */
+  question?: { id: number; text: string } | null;
 };
 
-function safeParseJson(input: string) {
-  try {
-    const first = JSON.parse(input);
-    if (typeof first === "string") {
-      try { return JSON.parse(first); } catch { return first; }
-    }
-    return first;
-  } catch {
-    return null;
-  }
-}
+const STAGES: Record<Extract<AgentEvent, { type: "status" }>["stage"], string> = {
+  searching: "Buscando productos…",
+  composing: "Preparando tu respuesta…",
+  checking: "Revisando existencias…",
+};
+
+// tools-mode progress (lib/tools names); anything else reads as "working on it"
+const TOOL_STATUS: Record<string, string> = {
+  search_products: "Buscando productos…",
+  get_product_specs: "Revisando fichas técnicas…",
+  check_stock: "Revisando existencias…",
+  find_substitutes: "Buscando alternativas…",
+  add_to_cart: "Actualizando tu canasta…",
+  remove_from_cart: "Actualizando tu canasta…",
+};
 
 function renderWithBold(text: string) {
   const parts = text.split(/(\*\*[^*]+\*\*)/g);
@@ -35,7 +49,7 @@ function renderWithBold(text: string) {
   );
 }
 
-export default function ChatPane({ onResult, onResetChat }: Props) {
+export default function ChatPane({ sessionId, onResult, onSessionExpired, cartSynced, question }: Props) {
   const [messages, setMessages] = useState<Msg[]>([
     {
       role: "assistant",
@@ -46,8 +60,12 @@ export default function ChatPane({ onResult, onResetChat }: Props) {
   const [input, setInput] = useState("");
   const [pending, setPending] = useState(false);
   const [listening, setListening] = useState(false);
-  const [cart, setCart] = useState<{ sku: string; qty: number }[]>([]);
   const [lastSent, setLastSent] = useState<string>("");
+  // while the agent streams: progress line and the reply as far as it has been written
+  const [status, setStatus] = useState("");
+  const [draft, setDraft] = useState("");
+  // questions from elsewhere on screen, waiting for the turn in flight
+  const [queued, setQueued] = useState<string[]>([]);
 
   const recRef = useRef<any>(null);
   const scrollerRef = useRef<HTMLDivElement>(null);
@@ -58,37 +76,60 @@ export default function ChatPane({ onResult, onResetChat }: Props) {
     });
   }
 
-  async function sendToAgent(userText: string) {
+  // `again`: a question from the panel is meant even if it was the last one sent
+  async function sendToAgent(userText: string, again = false) {
     if (pending) return;
     if (userText.length < 2) return;
-    if (userText === lastSent) return;
+    if (!again && userText === lastSent) return;
+    if (!sessionId) {
+      setMessages((m) => [...m, { role: "assistant", text: "Me estoy conectando. Intenta de nuevo en un momento." }]);
+      return;
+    }
     setLastSent(userText);
 
     setPending(true);
-    const history = messages.map((m) => ({ role: m.role, text: m.text }));
 
     try {
+      await cartSynced?.();
       const r = await fetch("/api/agent?debug=0", {
         method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ q: userText, history, cart }),
+        headers: { "Content-Type": "application/json", Accept: "text/event-stream" },
+        body: JSON.stringify({ q: userText, sessionId }),
       });
-      const data = await r.json();
-      if (!r.ok) {
+      if (r.status === 404) {
+        onSessionExpired?.();
+        return;
+      }
+
+      // streamed turn: progress and reply text first, then the plan event; plain JSON otherwise
+      let content = null as string | null; // set from the SSE callback
+      if (r.ok && r.headers.get("content-type")?.includes("text/event-stream")) {
+        await readSse(r, (_, data) => {
+          const e = data as AgentEvent;
+          if (e.type === "status") setStatus(STAGES[e.stage] ?? "");
+          else if (e.type === "candidates") {
+            setStatus(e.count ? `Encontré ${e.count} producto${e.count === 1 ? "" : "s"}…` : "Buscando alternativas…");
+          } else if (e.type === "tool") setStatus(TOOL_STATUS[e.name] ?? STAGES.composing);
+          else if (e.type === "reply") {
+            setDraft(e.text);
+            scrollToBottom();
+          } else if (e.type === "plan") content = e.content;
+        });
+      } else if (r.ok) {
+        content = (await r.json()).content;
+      }
+      if (content === null) {
         setMessages((m) => [...m, { role: "assistant", text: "Hubo un problema. ¿Puedes repetirlo?" }]);
         return;
       }
-      const parsed = safeParseJson(data.content);
-      if (!parsed || typeof parsed !== "object") {
+      const parsed = parseAgentReply(content);
+      if (!parsed.ok) {
         setMessages((m) => [...m, { role: "assistant", text: "No recibí un formato válido. ¿Puedes repetir?" }]);
         return;
       }
 
-      const { plan, reply } = parsed as { plan: any; reply: string };
-      if (plan) onResult(plan);
-      if (Array.isArray(plan?.basket)) {
-        setCart(plan.basket.map((b: any) => ({ sku: b.sku, qty: Math.max(1, Number(b.qty || 1)) })));
-      }
+      const { plan, reply } = parsed.data;
+      onResult(plan);
 
       setMessages((m) => [...m, { role: "assistant", text: reply || "Listo. ¿Algo más?" }]);
       scrollToBottom();
@@ -97,17 +138,38 @@ export default function ChatPane({ onResult, onResetChat }: Props) {
       setMessages((m) => [...m, { role: "assistant", text: "Error de red. Intenta de nuevo." }]);
     } finally {
       setPending(false);
+      setStatus("");
+      setDraft("");
     }
   }
 
-  function handleSend() {
-    const text = input.trim();
-    if (!text) return;
+  function say(text: string, again = false) {
     setMessages((m) => [...m, { role: "user", text }]);
     setInput("");
     scrollToBottom();
-    sendToAgent(text);
+    return sendToAgent(text, again);
   }
+  // effects below call the current say(), with this render's pending/lastSent
+  const sayRef = useRef(say);
+  useEffect(() => {
+    sayRef.current = say;
+  });
+
+  function handleSend() {
+    const text = input.trim();
+    if (!text) return;
+    say(text);
+  }
+
+  useEffect(() => {
+    if (question) setQueued((q) => [...q, question.text]);
+  }, [question]);
+
+  useEffect(() => {
+    if (pending || !queued.length) return;
+    setQueued(queued.slice(1));
+    sayRef.current(queued[0], true);
+  }, [pending, queued]);
 
   const startListening = () => {
     if (listening || pending) return;
@@ -131,10 +193,7 @@ export default function ChatPane({ onResult, onResetChat }: Props) {
       setListening(false);
       const utterance = (finalText || input).trim();
       if (!utterance) return;
-      setMessages((m) => [...m, { role: "user", text: utterance }]);
-      setInput("");
-      scrollToBottom();
-      await sendToAgent(utterance);
+      await say(utterance);
     };
 
     recRef.current = rec;
@@ -174,7 +233,26 @@ export default function ChatPane({ onResult, onResetChat }: Props) {
             </div>
           </div>
         ))}
-        {pending && <div style={{ color: "#888", fontStyle: "italic" }}>Pensando…</div>}
+        {pending && draft && (
+          <div style={{ display: "flex", justifyContent: "flex-start", marginBottom: 14 }}>
+            <div
+              style={{
+                maxWidth: "82%",
+                padding: "16px 18px",
+                borderRadius: 16,
+                whiteSpace: "pre-wrap",
+                background: "#161b22",
+                color: "#ddd",
+                border: "1px solid #2c2c2c",
+                fontSize: 19,
+                lineHeight: 1.55,
+              }}
+            >
+              {renderWithBold(draft)}
+            </div>
+          </div>
+        )}
+        {pending && <div style={{ color: "#888", fontStyle: "italic" }}>{status || "Pensando…"}</div>}
       </div>
 
       <div style={{ display: "flex", gap: 8, marginTop: 12 }}>
@@ -0,0 +1,232 @@
+// components/ProductDetail.tsx
+import React, { useEffect, useState } from "react";
+import { stockPill } from "@/components/BasketPane";
+import type { Product } from "@/lib/catalog";
+import type { RelatedGroup, RelatedProduct } from "@/lib/relations";
+import { formatMoney } from "@/lib/totals";
+
+const GROUPS: Record<RelatedGroup, string> = {
+  requires: "Necesitas también",
+  accessories: "Accesorios",
+  "spare-parts": "Refacciones",
+  substitutes: "Alternativas",
+  fits: "Compatible con",
+};
+
+// "apertura_max" → "Apertura max"
+const specLabel = (key: string) => key.charAt(0).toUpperCase() + key.slice(1).replace(/_/g, " ");
+const specValue = (v: unknown) => (v !== null && typeof v === "object" ? JSON.stringify(v) : String(v ?? "—"));
+
+/**
+ * One product in full, over the kiosk: picture, description, specs, stock and
+ * what goes with it (POST /api/get with related). Related products open in the
+ * same panel; "¿Para qué sirve?" hands the question to the chat.
+ */
+export default function ProductDetail({
+  sku,
+  onClose,
+  onOpen,
+  onAsk,
+}: {
+  sku: string;
+  onClose: () => void;
+  onOpen: (sku: string) => void;
+  onAsk?: (product: Product) => void;
+}) {
+  const [product, setProduct] = useState<Product | null>(null);
+  const [related, setRelated] = useState<RelatedProduct[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let stale = false;
+    setProduct(null);
+    setRelated([]);
+    setError(null);
+    fetch("/api/get", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ skus: [sku], related: true }),
+    })
+      .then((r) => (r.ok ? r.json() : Promise.reject(new Error(`HTTP ${r.status}`))))
+      .then((d) => {
+        if (stale) return;
+        if (!d.products?.[0]) return setError("Este producto ya no está en el catálogo.");
+        setProduct(d.products[0]);
+        setRelated(d.related?.[sku] ?? []);
+      })
+      .catch((e) => !stale && setError(`No se pudo cargar el producto: ${(e as Error)?.message}`));
+    return () => {
+      stale = true;
+    };
+  }, [sku]);
+
+  const specs = Object.entries(product?.specs ?? {});
+  const groups = (Object.keys(GROUPS) as RelatedGroup[])
+    .map((g) => [g, related.filter((r) => r.group === g)] as const)
+    .filter(([, rows]) => rows.length);
+  const p = product && stockPill(Number(product.stock));
+
+  return (
+    <div
+      onClick={onClose}
+      style={{
+        position: "fixed",
+        inset: 0,
+        background: "rgba(0,0,0,0.7)",
+        display: "flex",
+        alignItems: "center",
+        justifyContent: "center",
+        zIndex: 50,
+      }}
+    >
+      <div
+        onClick={(e) => e.stopPropagation()}
+        style={{
+          width: "min(880px, 92vw)",
+          maxHeight: "88vh",
+          overflowY: "auto",
+          background: "#0b0b0b",
+          border: "1px solid #1f2937",
+          borderRadius: 14,
+          padding: 24,
+          color: "#e5e7eb",
+        }}
+      >
+        <div style={{ display: "flex", justifyContent: "flex-end" }}>
+          <button
+            onClick={onClose}
+            style={{
+              padding: "6px 12px",
+              borderRadius: 8,
+              background: "#111827",
+              color: "#e5e7eb",
+              border: "1px solid #1f2937",
+              cursor: "pointer",
+              fontSize: 15,
+            }}
+          >
+            Cerrar
+          </button>
+        </div>
+
+        {error && <div style={{ color: "#fecaca", fontSize: 16 }}>{error}</div>}
+        {!product && !error && <div style={{ color: "#9ca3af", fontSize: 16 }}>Cargando…</div>}
+
+        {product && p && (
+          <>
+            <div style={{ display: "flex", gap: 24, marginTop: 8, flexWrap: "wrap" }}>
+              {product.image_url && (
+                <img
+                  src={product.image_url}
+                  alt={product.name}
+                  width={320}
+                  height={320}
+                  style={{ objectFit: "contain", borderRadius: 12, background: "#111" }}
+                />
+              )}
+              <div style={{ flex: 1, minWidth: 260 }}>
+                <div style={{ fontSize: 24, fontWeight: 700, color: "#f3f4f6" }}>{product.name}</div>
+                <div style={{ color: "#9ca3af", fontSize: 14, marginTop: 4 }}>
+                  {[product.brand, `SKU ${product.sku}`].filter(Boolean).join(" · ")}
+                </div>
+                <div style={{ display: "flex", alignItems: "center", gap: 12, marginTop: 12 }}>
+                  <span style={{ fontSize: 22, fontWeight: 700 }}>
+                    {formatMoney(Number(product.price), product.currency)}
+                  </span>
+                  <span
+                    style={{ fontSize: 13, padding: "3px 8px", borderRadius: 6, background: p.bg, color: "#d1fae5" }}
+                  >
+                    {p.text}
+                  </span>
+                </div>
+                {product.description && (
+                  <div style={{ marginTop: 14, color: "#cbd5e1", fontSize: 16, lineHeight: 1.5 }}>
+                    {product.description}
+                  </div>
+                )}
+                {onAsk && (
+                  <button
+                    onClick={() => onAsk(product)}
+                    style={{
+                      marginTop: 16,
+                      padding: "10px 16px",
+                      borderRadius: 10,
+                      background: "#1d4ed8",
+                      color: "#e5e7eb",
+                      border: "none",
+                      cursor: "pointer",
+                      fontWeight: 600,
+                      fontSize: 16,
+                    }}
+                  >
+                    ¿Para qué sirve?
+                  </button>
+                )}
+              </div>
+            </div>
+
+            {specs.length > 0 && (
+              <>
+                <h3 style={{ fontSize: 18, margin: "20px 0 8px" }}>Especificaciones</h3>
+                <table style={{ width: "100%", borderCollapse: "collapse", fontSize: 15 }}>
+                  <tbody>
+                    {specs.map(([k, v]) => (
+                      <tr key={k} style={{ borderBottom: "1px solid #1f2937" }}>
+                        <td style={{ padding: "6px 8px", color: "#9ca3af", width: "40%" }}>{specLabel(k)}</td>
+                        <td style={{ padding: "6px 8px" }}>{specValue(v)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </>
+            )}
+
+            {groups.map(([g, rows]) => (
+              <div key={g}>
+                <h3 style={{ fontSize: 18, margin: "20px 0 8px" }}>{GROUPS[g]}</h3>
+                <div style={{ display: "flex", flexWrap: "wrap", gap: 10 }}>
+                  {rows.map(({ product: r, note }) => (
+                    <button
+                      key={r.sku}
+                      onClick={() => onOpen(r.sku)}
+                      title={note ?? undefined}
+                      style={{
+                        display: "flex",
+                        alignItems: "center",
+                        gap: 10,
+                        padding: 8,
+                        borderRadius: 10,
+                        background: "#111827",
+                        color: "#e5e7eb",
+                        border: "1px solid #1f2937",
+                        cursor: "pointer",
+                        textAlign: "left",
+                      }}
+                    >
+                      {r.image_url && (
+                        <img
+                          src={r.image_url}
+                          alt=""
+                          width={40}
+                          height={40}
+                          style={{ objectFit: "cover", borderRadius: 6, background: "#0b0b0b" }}
+                        />
+                      )}
+                      <span>
+                        <span style={{ display: "block", fontSize: 14 }}>{r.name}</span>
+                        <span style={{ display: "block", fontSize: 13, color: "#9ca3af" }}>
+                          {formatMoney(Number(r.price), r.currency)}
+                          {Number(r.stock) === 0 && " · Agotado"}
+                        </span>
+                      </span>
+                    </button>
+                  ))}
+                </div>
+              </div>
+            ))}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
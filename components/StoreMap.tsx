@@ -0,0 +1,87 @@
+// components/StoreMap.tsx
+import React from "react";
+import { DEFAULT_LAYOUT, entryOf, Point, StoreLayout } from "@/lib/wayfinding";
+
+/**
+ * The store floor (data/store-layout.json) as an SVG: every aisle, the ones
+ * on the route highlighted with their place in the visiting order, and the
+ * walk from the kiosk through them to the checkout.
+ */
+export default function StoreMap({ aisles, layout = DEFAULT_LAYOUT }: { aisles: string[]; layout?: StoreLayout }) {
+  const order = new Map(aisles.map((id, i) => [id, i + 1]));
+  const stops: Point[] = [
+    layout.start,
+    ...aisles.flatMap((id) => layout.aisles.filter((a) => a.id === id).map(entryOf)),
+    layout.checkout,
+  ];
+  // walk along x, then y, as between shelves
+  const path = stops.map((p, i) => (i ? `L ${p.x} ${stops[i - 1].y} L ${p.x} ${p.y}` : `M ${p.x} ${p.y}`)).join(" ");
+
+  return (
+    <svg
+      viewBox={`0 0 ${layout.width} ${layout.height}`}
+      style={{ width: "100%", height: "auto", background: "#0f172a", borderRadius: 10, marginBottom: 14 }}
+      role="img"
+      aria-label="Mapa de la tienda"
+    >
+      {layout.aisles.map((a) => {
+        const n = order.get(a.id);
+        return (
+          <g key={a.id}>
+            <rect
+              x={a.x}
+              y={a.y}
+              width={a.w}
+              height={a.h}
+              rx={6}
+              fill={n ? "#1d4ed8" : "#1f2937"}
+              stroke={n ? "#93c5fd" : "#374151"}
+              strokeWidth={2}
+            />
+            <text x={a.x + a.w / 2} y={a.y - 12} fill="#9ca3af" fontSize={18} textAnchor="middle">
+              {a.name}
+            </text>
+            <text
+              x={a.x + a.w / 2}
+              y={a.y + a.h / 2}
+              fill="#e5e7eb"
+              fontSize={34}
+              fontWeight={700}
+              textAnchor="middle"
+              dominantBaseline="middle"
+            >
+              {a.id}
+            </text>
+            {n && (
+              <g>
+                <circle cx={a.x + a.w} cy={a.y} r={16} fill="#facc15" />
+                <text
+                  x={a.x + a.w}
+                  y={a.y}
+                  fill="#000"
+                  fontSize={18}
+                  fontWeight={700}
+                  textAnchor="middle"
+                  dominantBaseline="middle"
+                >
+                  {n}
+                </text>
+              </g>
+            )}
+          </g>
+        );
+      })}
+      {aisles.length > 0 && (
+        <path d={path} fill="none" stroke="#facc15" strokeWidth={4} strokeDasharray="10 8" strokeLinejoin="round" />
+      )}
+      {[layout.start, layout.checkout].map((p, i) => (
+        <g key={i}>
+          <circle cx={p.x} cy={p.y} r={10} fill={i ? "#22c55e" : "#facc15"} />
+          <text x={p.x} y={p.y - 18} fill="#e5e7eb" fontSize={18} textAnchor="middle">
+            {p.label ?? (i ? "Cajas" : "Kiosco")}
+          </text>
+        </g>
+      ))}
+    </svg>
+  );
+}
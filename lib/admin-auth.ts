@@ -0,0 +1,74 @@
+// lib/admin-auth.ts
+import { createHmac, timingSafeEqual } from "crypto";
+import type { NextApiRequest, NextApiResponse } from "next";
+
+/**
+ * Store-manager login for /admin. One shared password (ADMIN_PASSWORD); a
+ * successful login sets an HttpOnly cookie "<expiry>.<hmac>" signed with
+ * ADMIN_SECRET (or the password itself), so nothing is kept server-side and
+ * changing either value logs everyone out. No ADMIN_PASSWORD = admin disabled.
+ */
+export const ADMIN_COOKIE = "kiosk_admin";
+const DEFAULT_ADMIN_SESSION_HOURS = 8;
+
+const password = () => process.env.ADMIN_PASSWORD || "";
+const secret = () => process.env.ADMIN_SECRET || password();
+
+export function adminEnabled() {
+  return password().length > 0;
+}
+
+function sessionMs() {
+  const h = Number(process.env.ADMIN_SESSION_HOURS);
+  return (h > 0 ? h : DEFAULT_ADMIN_SESSION_HOURS) * 3_600_000;
+}
+
+const sign = (expires: number) => createHmac("sha256", secret()).update(`admin:${expires}`).digest("base64url");
+
+function sameText(a: string, b: string) {
+  const x = Buffer.from(a);
+  const y = Buffer.from(b);
+  return x.length === y.length && timingSafeEqual(x, y);
+}
+
+export function checkPassword(candidate: unknown) {
+  return adminEnabled() && typeof candidate === "string" && sameText(candidate, password());
+}
+
+/** Cookie value for a new login */
+export function issueToken(now = Date.now()) {
+  const expires = now + sessionMs();
+  return { token: `${expires}.${sign(expires)}`, expires };
+}
+
+export function verifyToken(token: string | undefined, now = Date.now()) {
+  if (!adminEnabled() || !token) return false;
+  const [exp, mac] = token.split(".");
+  const expires = Number(exp);
+  return Number.isFinite(expires) && expires > now && !!mac && sameText(mac, sign(expires));
+}
+
+export function adminCookie(token: string, expires: number) {
+  const secure = process.env.NODE_ENV === "production" ? "; Secure" : "";
+  const expiry = new Date(expires).toUTCString();
+  return `${ADMIN_COOKIE}=${token}; Path=/; HttpOnly; SameSite=Strict; Expires=${expiry}${secure}`;
+}
+
+export const clearedAdminCookie = () => `${ADMIN_COOKIE}=; Path=/; HttpOnly; SameSite=Strict; Max-Age=0`;
+
+export function isAdmin(req: NextApiRequest) {
+  return verifyToken(req.cookies?.[ADMIN_COOKIE]);
+}
+
+/** Answers 503/401 and returns false unless the request carries a valid admin cookie */
+export function requireAdmin(req: NextApiRequest, res: NextApiResponse) {
+  if (!adminEnabled()) {
+    res.status(503).json({ error: "admin disabled (set ADMIN_PASSWORD)" });
+    return false;
+  }
+  if (!isAdmin(req)) {
+    res.status(401).json({ error: "login required" });
+    return false;
+  }
+  return true;
+}
@@ -1,68 +1,189 @@
-// lib/agent.ts (Gemini-simple: no tool-calling loop)
-import { makeLLM, ChatMsg } from "@/lib/llm";
-
-export const SYSTEM_PROMPT = `You are a hardware-store kiosk assistant.
-Rules:
-- Ask at most a few clarifying questions (brief) only if needed.
-- Only recommend items from the provided CANDIDATES list. NEVER invent SKUs.
-- If the best item is out of stock, clearly warn and propose an in-stock alternative.
-- Final response MUST be valid JSON ONLY with:
-  {
-    "title": string,
-    "steps": string[3-5],
-    "basket": [
-      { "sku": string, "name": string, "qty": number, "price": number, "currency": string, "stock": number, "image_url": string, "why": string }
-    ],
-    "upsell": [
-      { "sku": string, "name": string, "qty": number, "price": number, "currency": string, "stock": number, "image_url": string, "why": string }
-    ],
-    "confirm": string
-  }
-- Keep language simple and actionable (Spanish is fine). Return ONLY the JSON, no extra text.`;
-
-export async function runAgent(userText: string) {
-  // 1) Fetch candidate products from our DB (keyword search)
-  const r = await fetch("/api/search", {
-    method: "POST",
-    headers: { "Content-Type": "application/json" },
-    body: JSON.stringify({ q: userText }),
-  });
-  const { candidates = [] } = await r.json();
-
-  // Optional: if nothing found, nudge for more details
-  if (!candidates.length) {
-    return JSON.stringify({
-      title: "Necesito más detalles",
-      steps: [
-        "Indica material (PVC, cobre, madera, tablaroca, etc.)",
-        "Especifica medidas/tamaño (diámetro, longitud, área)",
-        "Describe si hay roscas, presión de agua, o tipo de muro"
-      ],
-      basket: [],
-      upsell: [],
-      confirm: "¿Puedes dar un poco más de detalle para sugerir piezas exactas?"
-    });
-  }
+// lib/agent.ts
+import type { CatalogRepository, Product } from "@/lib/catalog";
+import type { ChatMsg, LLM, ToolCall } from "@/lib/llm";
+import { chatWithRepair, emptyPlan, parseAgentReply, Plan } from "@/lib/plan";
+import type { ReservationStore } from "@/lib/reservations";
+import { describeFacts, deriveFacts, Session } from "@/lib/sessions";
+import { AGENT_TOOLS, runTool, ToolContext } from "@/lib/tools";
+
+/**
+ * Tool-calling agent (AGENT_MODE=tools in /api/agent): instead of one prompt
+ * stuffed with candidates, the model searches, reads specs, checks stock and
+ * edits the cart through the tools in lib/tools, and the server runs each call.
+ * The loop is bounded (MAX_AGENT_STEPS model calls, MAX_TOOL_CALLS tool runs);
+ * when either runs out the model is asked for its final answer without tools.
+ * The basket is the cart the tools left behind, never lines the model wrote.
+ */
+export const MAX_AGENT_STEPS = 6;
+export const MAX_TOOL_CALLS = 12;
+
+export const TOOL_SYSTEM_PROMPT = `Eres un asistente de kiosko para ferretería. Tienes herramientas para consultar el catálogo y manejar la canasta del cliente.
+
+REGLAS:
+- Mantén una conversación breve y clara en español.
+- Busca con search_products antes de recomendar; usa get_product_specs si necesitas medidas, material o compatibilidad.
+- Usa SOLO SKUs que te devolvieron las herramientas o que ya están en la canasta. No inventes SKUs.
+- La canasta cambia SOLO con add_to_cart y remove_from_cart. Agrega lo que el cliente necesita, quita lo que pida quitar y no toques lo demás.
+- Si un producto está agotado, dilo y usa find_substitutes para ofrecer una alternativa EN STOCK.
+- Llama solo las herramientas necesarias; si falta un dato clave (material, medida), pregunta en vez de adivinar.
+- Al terminar responde SOLO con JSON, "reply" primero:
+  { "reply": string, "plan": { "title": string, "steps": string[3-5], "upsell": [ { "sku": string, "why": string } ], "confirm": string } }
+- "reply" es un mensaje natural (máx. 2 frases), con **negritas** para nombres/cantidades. Si la charla va cerrando, indícale: “Pulsa **Confirmar e imprimir** para finalizar.”`;
+
+const FINAL_NUDGE = 'Ya no hay más herramientas en este turno. Responde ahora SOLO con el JSON { "reply": ..., "plan": {...} }.';
+
+/** One tool run; searches also carry their query and how many products came back */
+export type ToolTrace = { name: string; args: string; ok: boolean; error?: string; query?: string; results?: number };
+
+export type ToolAgentResult = {
+  plan: Plan;
+  reply: string;
+  /** every product the tools showed, plus the cart (for upsell/category lookups) */
+  known: Map<string, Product>;
+  trace: ToolTrace[];
+  /** why the model's answer was rejected, when the plan is the fallback */
+  error?: string;
+};
+
+export type ToolAgentOptions = {
+  q: string;
+  session: Session;
+  onTool?: (name: string) => void;
+  onText?: (sofar: string) => void;
+};
+
+function contextMessage(session: Session, q: string, ctx: ToolContext) {
+  const convo = session.turns.map((t) => `${t.role === "user" ? "Usuario" : "Asistente"}: ${t.text}`).join("\n");
+  const facts = describeFacts(deriveFacts(session.facts, q));
+  const cart = ctx.cart.map((l) => ({ sku: l.sku, name: ctx.seen.get(l.sku)?.name, qty: l.qty }));
+  return (
+    `${TOOL_SYSTEM_PROMPT}\n\n` +
+    (session.summary ? `RESUMEN DE TURNOS ANTERIORES:\n${session.summary}\n\n` : "") +
+    (convo ? `CONVERSACIÓN:\n${convo}\n\n` : "") +
+    (facts ? `DATOS DEL CLIENTE: ${facts}\n\n` : "") +
+    `CANASTA ACTUAL:\n${JSON.stringify(cart)}`
+  );
+}
+
+/** Runs one customer turn through the tool loop; the session is read, not changed */
+export async function runToolAgent(
+  llm: LLM,
+  catalog: CatalogRepository,
+  reservations: ReservationStore,
+  { q, session, onTool, onText }: ToolAgentOptions
+): Promise<ToolAgentResult> {
+  const ctx: ToolContext = {
+    catalog,
+    reservations,
+    cart: session.cart.map((l) => ({ ...l })),
+    seen: new Map(),
+    reasons: new Map(),
+  };
+  (await catalog.getBySkus(ctx.cart.map((l) => l.sku))).forEach((p) => ctx.seen.set(p.sku, p));
 
-  // 2) Prompt Gemini to compose plan + basket using ONLY these candidates
-  const llm = makeLLM();
   const messages: ChatMsg[] = [
-    { role: "system", content: SYSTEM_PROMPT },
-    {
-      role: "user",
-      content:
-        `Customer request:\n${userText}\n\n` +
-        `CANDIDATES (JSON array; choose only from these):\n` +
-        JSON.stringify(candidates),
-    },
-    {
-      role: "user",
-      content:
-        "Generate ONLY the final JSON object described in the rules. " +
-        "Use 'why' to explain each item briefly. If an item is out of stock, pick an alternative from candidates.",
-    },
+    { role: "system", content: contextMessage(session, q, ctx) },
+    { role: "user", content: q },
   ];
+  const trace: ToolTrace[] = [];
+  let final: string | null = null;
+
+  for (let step = 0; step < MAX_AGENT_STEPS && final === null; step++) {
+    const lastStep = step === MAX_AGENT_STEPS - 1 || trace.length >= MAX_TOOL_CALLS;
+    if (lastStep) messages.push({ role: "user", content: FINAL_NUDGE });
+    const res = await llm.chat({
+      messages,
+      tools: lastStep ? undefined : AGENT_TOOLS,
+      toolChoice: lastStep ? undefined : "auto",
+      temperature: 0.3,
+      format: lastStep ? "json" : "text",
+    });
+    const msg = res.choices?.[0]?.message;
+    const calls: ToolCall[] = (msg?.tool_calls ?? []).map((c, k) => ({ ...c, id: c.id ?? `call_${step}_${k}` }));
+    if (!calls.length || lastStep) {
+      final = msg?.content ?? "";
+      break;
+    }
+
+    messages.push({ role: "assistant", content: msg?.content ?? "", tool_calls: calls });
+    for (const call of calls) {
+      const { name, arguments: args } = call.function;
+      const out =
+        trace.length < MAX_TOOL_CALLS
+          ? await runTool(ctx, name, args)
+          : { ok: false, error: "límite de herramientas alcanzado; responde ya" };
+      trace.push({
+        name,
+        args,
+        ok: out.ok,
+        error: out.error,
+        ...(name === "search_products" && Array.isArray(out.products)
+          ? { query: String(out.query ?? ""), results: out.products.length }
+          : {}),
+      });
+      onTool?.(name);
+      messages.push({ role: "tool", tool_call_id: call.id!, name, content: JSON.stringify(out) });
+    }
+  }
+
+  let parsed = parseAgentReply(final ?? "");
+  if (!parsed.ok) {
+    // one more try without tools (and repaired if needed), streamed to the caller
+    const convo: ChatMsg[] = [...messages];
+    if (final) convo.push({ role: "assistant", content: final });
+    convo.push({ role: "user", content: FINAL_NUDGE });
+    parsed = await chatWithRepair(llm, convo, parseAgentReply, { temperature: 0.3, attempts: 1, onText });
+  }
+
+  // the basket is the working cart, priced from the catalog
+  const basket = ctx.cart.flatMap((l) => {
+    const p = ctx.seen.get(l.sku);
+    if (!p) return [];
+    return [
+      {
+        sku: p.sku,
+        name: p.name,
+        qty: l.qty,
+        price: Number(p.price),
+        currency: p.currency,
+        stock: Number(p.stock),
+        image_url: p.image_url,
+        location: p.location,
+        category: p.category,
+        why: ctx.reasons.get(p.sku) ?? "Conservado de tu selección previa.",
+      },
+    ];
+  });
 
-  const resp = await llm.chat({ messages, temperature: 0.3 });
-  return resp.choices?.[0]?.message?.content || "{}";
-}
\ No newline at end of file
+  if (!parsed.ok) {
+    console.warn("agent: tool loop gave no valid answer:", parsed.error);
+    const plan = emptyPlan("Pulsa **Confirmar e imprimir** para finalizar, o indica cambios.");
+    plan.basket = basket;
+    return {
+      plan,
+      reply: "No pude preparar la sugerencia. ¿Puedes repetirlo con otras palabras?",
+      known: ctx.seen,
+      trace,
+      error: parsed.error,
+    };
+  }
+
+  const plan = parsed.data.plan;
+  plan.basket = basket;
+  // upsell only from products the tools showed; priced from the catalog, not the model
+  plan.upsell = plan.upsell
+    .filter((u) => ctx.seen.has(u.sku) && !basket.some((b) => b.sku === u.sku))
+    .map((u) => {
+      const p = ctx.seen.get(u.sku)!;
+      return {
+        ...u,
+        name: p.name,
+        qty: 1,
+        price: Number(p.price),
+        currency: p.currency,
+        stock: Number(p.stock),
+        location: p.location,
+      };
+    });
+  return { plan, reply: parsed.data.reply || "Listo. ¿Algo más?", known: ctx.seen, trace };
+}
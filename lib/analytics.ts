@@ -0,0 +1,321 @@
+// lib/analytics.ts
+import { randomUUID } from "crypto";
+import { dataPath, makeJsonFile } from "@/lib/json-file";
+
+/**
+ * What happens at the kiosk, as a log of events per conversation (session):
+ * every agent turn (query, intents, how many products matched, what the
+ * basket gained or lost, latency, model failures), on-screen basket edits,
+ * printed tickets, stock that ran out at confirmation, and conversations
+ * walked away from. summarizeEvents turns a period of it into the numbers
+ * the /admin dashboard shows.
+ */
+export type BasketChange = { sku: string; from: number; to: number };
+
+type Who = { kiosk_id: string | null; session_id: string | null };
+
+export type AnalyticsPayload = Who &
+  (
+    | { type: "session_start" }
+    | {
+        type: "turn";
+        query: string;
+        normalized: string;
+        intents: string[];
+        mode: "classic" | "tools";
+        /** products the customer's words matched */
+        candidates: number;
+        diff: BasketChange[];
+        /** SKUs the assistant added or suggested this turn */
+        recommended: string[];
+        /** matched products that were out of stock */
+        out_of_stock: string[];
+        basket_value: number;
+        latency_ms: number;
+        error: string | null;
+      }
+    | { type: "cart_edit"; diff: BasketChange[] }
+    | { type: "order"; ticket: string; total: number; currency: string; lines: number }
+    /** confirmation refused for lack of stock */
+    | { type: "order_failed"; error: string; skus: string[] }
+    /** a new customer started before this conversation printed anything */
+    | { type: "abandon"; turns: number }
+  );
+
+export type AnalyticsEvent = AnalyticsPayload & { id: string; at: string };
+export type AnalyticsEventType = AnalyticsEvent["type"];
+
+export interface AnalyticsStore {
+  readonly provider: string;
+  record(event: AnalyticsEvent): Promise<void>;
+  /** Oldest first */
+  list(opts: { since: string; until?: string; kioskId?: string }): Promise<AnalyticsEvent[]>;
+}
+
+/** Lines whose quantity changed between two carts (0 = not in the cart) */
+export function basketDiff(before: { sku: string; qty: number }[], after: { sku: string; qty: number }[]) {
+  const from = new Map(before.map((l) => [l.sku, l.qty]));
+  const to = new Map(after.map((l) => [l.sku, l.qty]));
+  const skus = Array.from(new Set([...from.keys(), ...to.keys()]));
+  return skus
+    .map((sku) => ({ sku, from: from.get(sku) ?? 0, to: to.get(sku) ?? 0 }))
+    .filter((c) => c.from !== c.to);
+}
+
+// ---------- Summary ----------
+export type CountRow = { key: string; count: number };
+
+export type DayRow = {
+  day: string;
+  kiosk_id: string;
+  conversations: number;
+  orders: number;
+  revenue: number;
+  avg_basket: number;
+  currency: string | null;
+};
+
+export type AnalyticsSummary = {
+  since: string;
+  until: string;
+  conversations: number;
+  /** conversations that printed a ticket */
+  converted: number;
+  /** reset for the next customer, or idle past the session TTL, without a ticket */
+  abandoned: number;
+  conversion: number;
+  turns: number;
+  errors: number;
+  avg_latency_ms: number;
+  p95_latency_ms: number;
+  orders: number;
+  top_queries: (CountRow & { zero: number })[];
+  recommended: CountRow[];
+  removed: CountRow[];
+  out_of_stock: CountRow[];
+  days: DayRow[];
+};
+
+const TOP = 15;
+
+function top(counts: Map<string, number>, n = TOP): CountRow[] {
+  return Array.from(counts, ([key, count]) => ({ key, count }))
+    .sort((a, b) => b.count - a.count || a.key.localeCompare(b.key))
+    .slice(0, n);
+}
+
+const bump = (m: Map<string, number>, key: string, by = 1) => m.set(key, (m.get(key) ?? 0) + by);
+
+/** YYYY-MM-DD in the given time zone (server's when omitted) */
+export function dayOf(iso: string, timeZone?: string) {
+  return new Intl.DateTimeFormat("en-CA", { timeZone, year: "numeric", month: "2-digit", day: "2-digit" }).format(
+    new Date(iso)
+  );
+}
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+/**
+ * The dashboard's numbers for a list of events (oldest first). A conversation
+ * is a session with at least one turn; it's counted on the day and kiosk it
+ * started. `idleMs` is the session TTL: conversations quiet for longer without
+ * a ticket count as abandoned.
+ */
+export function summarizeEvents(
+  events: AnalyticsEvent[],
+  { since, until, idleMs, timeZone, now = new Date() }: {
+    since: string;
+    until: string;
+    idleMs: number;
+    timeZone?: string;
+    now?: Date;
+  }
+): AnalyticsSummary {
+  type Convo = { kiosk: string; started: string; last: string; turns: number; ordered: boolean; quit: boolean };
+  const convos = new Map<string, Convo>();
+  const queries = new Map<string, number>();
+  const zero = new Map<string, number>();
+  const recommended = new Map<string, number>();
+  const removed = new Map<string, number>();
+  const outOfStock = new Map<string, number>();
+  const latencies: number[] = [];
+  const days = new Map<string, DayRow>();
+  let turns = 0;
+  let errors = 0;
+  let orders = 0;
+
+  const dayRow = (at: string, kiosk: string) => {
+    const day = dayOf(at, timeZone);
+    const key = `${day}|${kiosk}`;
+    if (!days.has(key)) {
+      days.set(key, { day, kiosk_id: kiosk, conversations: 0, orders: 0, revenue: 0, avg_basket: 0, currency: null });
+    }
+    return days.get(key)!;
+  };
+
+  for (const e of events) {
+    const kiosk = e.kiosk_id ?? "—";
+    const convo = e.session_id ? convos.get(e.session_id) : undefined;
+    if (convo) convo.last = e.at;
+
+    switch (e.type) {
+      case "turn": {
+        turns += 1;
+        latencies.push(e.latency_ms);
+        if (e.error) errors += 1;
+        if (e.normalized) {
+          bump(queries, e.normalized);
+          if (e.candidates === 0) bump(zero, e.normalized);
+        }
+        e.recommended.forEach((sku) => bump(recommended, sku));
+        e.diff.filter((c) => c.to === 0).forEach((c) => bump(removed, c.sku));
+        e.out_of_stock.forEach((sku) => bump(outOfStock, sku));
+        if (!e.session_id) break;
+        if (convo) convo.turns += 1;
+        else {
+          convos.set(e.session_id, { kiosk, started: e.at, last: e.at, turns: 1, ordered: false, quit: false });
+          dayRow(e.at, kiosk).conversations += 1;
+        }
+        break;
+      }
+      case "cart_edit":
+        e.diff.filter((c) => c.to === 0).forEach((c) => bump(removed, c.sku));
+        break;
+      case "order_failed":
+        e.skus.forEach((sku) => bump(outOfStock, sku));
+        break;
+      case "order": {
+        orders += 1;
+        if (convo) convo.ordered = true;
+        const row = dayRow(e.at, kiosk);
+        row.orders += 1;
+        row.revenue = round2(row.revenue + e.total);
+        row.currency ??= e.currency;
+        break;
+      }
+      case "abandon":
+        if (convo) convo.quit = true;
+        break;
+    }
+  }
+
+  const all = Array.from(convos.values());
+  const converted = all.filter((c) => c.ordered).length;
+  const abandoned = all.filter((c) => !c.ordered && (c.quit || now.getTime() - Date.parse(c.last) > idleMs)).length;
+  latencies.sort((a, b) => a - b);
+
+  return {
+    since,
+    until,
+    conversations: all.length,
+    converted,
+    abandoned,
+    conversion: all.length ? round2(converted / all.length) : 0,
+    turns,
+    errors,
+    avg_latency_ms: latencies.length ? Math.round(latencies.reduce((s, n) => s + n, 0) / latencies.length) : 0,
+    p95_latency_ms: latencies.length ? latencies[Math.min(latencies.length - 1, Math.floor(latencies.length * 0.95))] : 0,
+    orders,
+    top_queries: top(queries).map((r) => ({ ...r, zero: zero.get(r.key) ?? 0 })),
+    recommended: top(recommended),
+    removed: top(removed),
+    out_of_stock: top(outOfStock),
+    days: Array.from(days.values())
+      .map((d) => ({ ...d, avg_basket: d.orders ? round2(d.revenue / d.orders) : 0 }))
+      .sort((a, b) => b.day.localeCompare(a.day) || a.kiosk_id.localeCompare(b.kiosk_id)),
+  };
+}
+
+// ---------- Local JSON file ----------
+/** The local file keeps the newest events only; use Supabase for long histories */
+export const MAX_LOCAL_EVENTS = 10_000;
+
+export function makeLocalAnalyticsStore(file: string): AnalyticsStore {
+  const doc = makeJsonFile<{ events: AnalyticsEvent[] }>(file, () => ({ events: [] }));
+
+  return {
+    provider: "local",
+
+    async record(event) {
+      await doc.update((d) => {
+        d.events.push(event);
+        if (d.events.length > MAX_LOCAL_EVENTS) d.events.splice(0, d.events.length - MAX_LOCAL_EVENTS);
+      });
+    },
+
+    async list({ since, until, kioskId }) {
+      const { events } = await doc.read();
+      return events.filter((e) => e.at >= since && (!until || e.at < until) && (!kioskId || e.kiosk_id === kioskId));
+    },
+  };
+}
+
+// ---------- Supabase ----------
+async function admin() {
+  return (await import("@/lib/supabase")).supabaseAdmin;
+}
+
+const PAGE_ROWS = 1000;
+
+type EventRow = { id: string; type: string; at: string; kiosk_id: string | null; session_id: string | null; data: object };
+
+/** Table `kiosk_events` (see README): the common columns, the rest of each event in `data` */
+export function makeSupabaseAnalyticsStore(): AnalyticsStore {
+  return {
+    provider: "supabase",
+
+    async record(event) {
+      const { id, type, at, kiosk_id, session_id, ...data } = event;
+      const row: EventRow = { id, type, at, kiosk_id, session_id, data };
+      const { error } = await (await admin()).from("kiosk_events").insert(row);
+      if (error) throw new Error(error.message);
+    },
+
+    async list({ since, until, kioskId }) {
+      const out: AnalyticsEvent[] = [];
+      // PostgREST caps each response, so read the period in pages
+      for (let from = 0; ; from += PAGE_ROWS) {
+        let q = (await admin()).from("kiosk_events").select("*").gte("at", since);
+        if (until) q = q.lt("at", until);
+        if (kioskId) q = q.eq("kiosk_id", kioskId);
+        const { data, error } = await q.order("at").range(from, from + PAGE_ROWS - 1);
+        if (error) throw new Error(error.message);
+        const rows = (data || []) as EventRow[];
+        rows.forEach(({ data: rest, ...common }) => out.push({ ...rest, ...common } as AnalyticsEvent));
+        if (rows.length < PAGE_ROWS) return out;
+      }
+    },
+  };
+}
+
+// ---------- Factory ----------
+let cached: AnalyticsStore | null | undefined;
+
+/**
+ * ANALYTICS_PROVIDER=supabase | local | off (defaults to CATALOG_PROVIDER)
+ * ANALYTICS_FILE: local backend file (default .data/analytics.json)
+ * null when analytics are off.
+ */
+export function getAnalyticsStore(): AnalyticsStore | null {
+  if (cached !== undefined) return cached;
+  const provider = process.env.ANALYTICS_PROVIDER ?? process.env.CATALOG_PROVIDER ?? "supabase";
+  if (provider === "off") cached = null;
+  else if (provider === "supabase") cached = makeSupabaseAnalyticsStore();
+  else if (provider === "local") cached = makeLocalAnalyticsStore(process.env.ANALYTICS_FILE || dataPath("analytics.json"));
+  else throw new Error(`Unknown ANALYTICS_PROVIDER "${provider}" (available: supabase, local, off)`);
+  return cached;
+}
+
+/** Swap the store (tests, scripts). Pass undefined to go back to the env-configured one, null to turn it off. */
+export function setAnalyticsStore(store: AnalyticsStore | null | undefined) {
+  cached = store;
+}
+
+/** Records one event. Never throws: the kiosk keeps working when analytics can't be written. */
+export async function track(payload: AnalyticsPayload) {
+  try {
+    await getAnalyticsStore()?.record({ ...payload, id: randomUUID(), at: new Date().toISOString() });
+  } catch (e) {
+    console.warn("analytics: event not recorded:", (e as Error)?.message);
+  }
+}
@@ -0,0 +1,93 @@
+// lib/cart-ops.test.ts
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import type { Product } from "@/lib/catalog";
+import { applyCartOps, CartOpsContext, MAX_CART_LINES } from "@/lib/cart-ops";
+import { MAX_LINE_QTY } from "@/lib/orders";
+import type { CartOp } from "@/lib/plan";
+import type { CartLine } from "@/lib/sessions";
+
+const product = (sku: string, stock: number): Product => ({ sku, name: sku, price: 10, currency: "MXN", stock });
+
+const ctx: CartOpsContext = {
+  products: new Map(
+    [product("COD-12", 50), product("TEF-01", 5), product("LLA-34", 2), product("AGOTADO", 0)].map((p) => [p.sku, p])
+  ),
+  // live stock below the catalog's: someone else holds two teflones
+  available: new Map([["TEF-01", 3]]),
+};
+
+const apply = (cart: CartLine[], ...ops: CartOp[]) => applyCartOps(cart, ops, ctx);
+const reasons = (cart: CartLine[], ...ops: CartOp[]) =>
+  apply(cart, ...ops).outcomes.map((o) => (o.ok ? "ok" : o.reason));
+
+test("every rejection names its reason", () => {
+  const cart = [{ sku: "COD-12", qty: 2 }];
+  assert.deepEqual(reasons(cart, { type: "add", sku: "NO-EXISTE", qty: 1 }), ["unknown_sku"]);
+  assert.deepEqual(reasons(cart, { type: "remove", sku: "TEF-01" }), ["not_in_cart"]);
+  assert.deepEqual(reasons(cart, { type: "setQty", sku: "TEF-01", qty: 1 }), ["not_in_cart"]);
+  assert.deepEqual(reasons(cart, { type: "replace", sku: "TEF-01", with: "COD-12" }), ["not_in_cart"]);
+  assert.deepEqual(reasons(cart, { type: "add", sku: "COD-12", qty: 1.5 }), ["bad_qty"]);
+  assert.deepEqual(reasons(cart, { type: "remove", sku: "COD-12", qty: 0 }), ["bad_qty"]);
+  assert.deepEqual(reasons(cart, { type: "setQty", sku: "COD-12", qty: -1 }), ["bad_qty"]);
+  assert.deepEqual(reasons([{ sku: "COD-12", qty: MAX_LINE_QTY }], { type: "add", sku: "COD-12", qty: 1 }), [
+    "line_limit",
+  ]);
+  assert.deepEqual(reasons(cart, { type: "add", sku: "AGOTADO", qty: 1 }), ["stock"]);
+  const full = Array.from({ length: MAX_CART_LINES }, (_, i) => ({ sku: `X-${i}`, qty: 1 }));
+  assert.deepEqual(reasons(full, { type: "add", sku: "COD-12", qty: 1 }), ["cart_full"]);
+});
+
+test("stock is checked against live availability, reported on the rejection", () => {
+  const [out] = apply([], { type: "add", sku: "TEF-01", qty: 4 }).outcomes;
+  assert.deepEqual(out.ok ? null : [out.reason, out.available], ["stock", 3]);
+  assert.deepEqual(apply([], { type: "add", sku: "TEF-01", qty: 3 }).cart, [{ sku: "TEF-01", qty: 3 }]);
+});
+
+test("replace takes the old line's place and joins a line it already had", () => {
+  const cart = [
+    { sku: "TEF-01", qty: 1 },
+    { sku: "LLA-34", qty: 1 },
+    { sku: "COD-12", qty: 2 },
+  ];
+  assert.deepEqual(apply(cart, { type: "replace", sku: "TEF-01", with: "COD-12" }).cart, [
+    { sku: "COD-12", qty: 3 },
+    { sku: "LLA-34", qty: 1 },
+  ]);
+  assert.deepEqual(reasons(cart, { type: "replace", sku: "COD-12", with: "LLA-34" }), ["stock"]);
+});
+
+test("setQty 0 removes the line", () => {
+  const cart = [
+    { sku: "COD-12", qty: 2 },
+    { sku: "TEF-01", qty: 1 },
+  ];
+  assert.deepEqual(apply(cart, { type: "setQty", sku: "COD-12", qty: 0 }).cart, [{ sku: "TEF-01", qty: 1 }]);
+});
+
+test("lowering a quantity always fits, even past what's in stock now", () => {
+  // 5 in the cart from before, only 3 available now
+  const cart = [{ sku: "TEF-01", qty: 5 }];
+  assert.deepEqual(apply(cart, { type: "setQty", sku: "TEF-01", qty: 4 }).cart, [{ sku: "TEF-01", qty: 4 }]);
+  assert.deepEqual(reasons(cart, { type: "setQty", sku: "TEF-01", qty: 6 }), ["stock"]);
+});
+
+test("a failed op leaves the cart as it was and later ops still apply", () => {
+  const cart = [{ sku: "COD-12", qty: 2 }];
+  const out = apply(
+    cart,
+    { type: "add", sku: "AGOTADO", qty: 1 },
+    { type: "remove", sku: "COD-12", qty: 1 },
+    { type: "add", sku: "LLA-34", qty: 3 },
+    { type: "add", sku: "LLA-34", qty: 2 }
+  );
+  assert.deepEqual(
+    out.outcomes.map((o) => o.ok),
+    [false, true, false, true]
+  );
+  assert.deepEqual(out.cart, [
+    { sku: "COD-12", qty: 1 },
+    { sku: "LLA-34", qty: 2 },
+  ]);
+  assert.deepEqual(cart, [{ sku: "COD-12", qty: 2 }]);
+});
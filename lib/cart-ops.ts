@@ -0,0 +1,171 @@
+// lib/cart-ops.ts
+import type { Product } from "@/lib/catalog";
+import { IntentOp, isEmptyRef, RefLine, resolveItemRef } from "@/lib/intent";
+import { MAX_LINE_QTY } from "@/lib/orders";
+import type { CartOp } from "@/lib/plan";
+import type { CartLine, PendingChoice } from "@/lib/sessions";
+
+/**
+ * The agent's cart changes as explicit operations (CartOp in lib/plan),
+ * applied in order to the session's cart — the authoritative one, never a
+ * basket the model re-typed. Each is checked against the products the turn
+ * may use and their live stock; one that fails leaves the cart as it was and
+ * is reported, the rest still apply. Pure: callers look up products and stock.
+ */
+export const MAX_CART_LINES = 30;
+
+export type CartOpRejection = "unknown_sku" | "not_in_cart" | "bad_qty" | "line_limit" | "cart_full" | "stock";
+
+export type CartOpOutcome =
+  { op: CartOp; ok: true } | { op: CartOp; ok: false; reason: CartOpRejection; error: string; available?: number };
+
+export type CartOpsContext = {
+  /** products the ops may put in the cart, by SKU */
+  products: ReadonlyMap<string, Product>;
+  /** pieces available now per SKU (catalog stock minus holds); the product's stock when missing */
+  available?: ReadonlyMap<string, number>;
+};
+
+type Step = { ok: true; cart: CartLine[] } | { ok: false; reason: CartOpRejection; error: string; available?: number };
+
+/** 1..MAX_LINE_QTY whole pieces, or null */
+export function wholeQty(v: unknown) {
+  const n = Number(v);
+  return Number.isInteger(n) && n >= 1 && n <= MAX_LINE_QTY ? n : null;
+}
+
+/** The SKU an op puts in the cart (or takes out, for remove/setQty) */
+export const opTarget = (op: CartOp) => (op.type === "replace" ? op.with : op.sku);
+
+const reject = (reason: CartOpRejection, error: string, available?: number): Step => ({
+  ok: false,
+  reason,
+  error,
+  ...(available !== undefined && { available }),
+});
+
+function applyOne(cart: CartLine[], op: CartOp, { products, available }: CartOpsContext): Step {
+  const line = cart.find((l) => l.sku === op.sku);
+  const withQty = (sku: string, qty: number) => cart.map((l) => (l.sku === sku ? { ...l, qty } : l));
+
+  // can the cart hold `qty` pieces of `sku` in all?
+  const room = (sku: string, qty: number): Step | null => {
+    const product = products.get(sku);
+    if (!product) return reject("unknown_sku", `SKU ${sku} no está entre los productos disponibles`);
+    if (qty > MAX_LINE_QTY) return reject("line_limit", `máximo ${MAX_LINE_QTY} piezas por producto`);
+    const stock = available?.get(sku) ?? Number(product.stock);
+    if (stock < qty) return reject("stock", stock > 0 ? `solo hay ${stock} disponibles` : "agotado", stock);
+    return null;
+  };
+
+  switch (op.type) {
+    case "add": {
+      const qty = wholeQty(op.qty ?? 1);
+      if (!qty) return reject("bad_qty", `qty debe ser un entero entre 1 y ${MAX_LINE_QTY}`);
+      if (!line && cart.length >= MAX_CART_LINES) return reject("cart_full", "la canasta está llena");
+      const wanted = (line?.qty ?? 0) + qty;
+      return (
+        room(op.sku, wanted) ?? { ok: true, cart: line ? withQty(op.sku, wanted) : [...cart, { sku: op.sku, qty }] }
+      );
+    }
+    case "remove": {
+      if (!line) return reject("not_in_cart", `SKU ${op.sku} no está en la canasta`);
+      const qty = op.qty === undefined ? line.qty : wholeQty(op.qty);
+      if (!qty) return reject("bad_qty", `qty debe ser un entero entre 1 y ${MAX_LINE_QTY}`);
+      return { ok: true, cart: qty < line.qty ? withQty(op.sku, line.qty - qty) : cart.filter((l) => l !== line) };
+    }
+    case "setQty": {
+      if (!line) return reject("not_in_cart", `SKU ${op.sku} no está en la canasta`);
+      if (op.qty === 0) return { ok: true, cart: cart.filter((l) => l !== line) };
+      const qty = wholeQty(op.qty);
+      if (!qty) return reject("bad_qty", `qty debe ser un entero entre 0 y ${MAX_LINE_QTY}`);
+      // fewer pieces always fit; more must be in stock
+      return (qty > line.qty && room(op.sku, qty)) || { ok: true, cart: withQty(op.sku, qty) };
+    }
+    case "replace": {
+      if (!line) return reject("not_in_cart", `SKU ${op.sku} no está en la canasta`);
+      const qty = op.qty === undefined ? line.qty : wholeQty(op.qty);
+      if (!qty) return reject("bad_qty", `qty debe ser un entero entre 1 y ${MAX_LINE_QTY}`);
+      if (op.with === op.sku) return room(op.sku, qty) ?? { ok: true, cart: withQty(op.sku, qty) };
+      // the new product takes the old line's place, joining a line it already had
+      const wanted = qty + (cart.find((l) => l.sku === op.with)?.qty ?? 0);
+      return (
+        room(op.with, wanted) ?? {
+          ok: true,
+          cart: cart.flatMap((l) => (l === line ? [{ sku: op.with, qty: wanted }] : l.sku === op.with ? [] : [l])),
+        }
+      );
+    }
+  }
+}
+
+/** Applies `ops` in order → the new cart and, per op, whether it went through */
+export function applyCartOps(cart: CartLine[], ops: CartOp[], ctx: CartOpsContext) {
+  let next = cart.map((l) => ({ ...l }));
+  const outcomes: CartOpOutcome[] = ops.map((op) => {
+    const step = applyOne(next, op, ctx);
+    if (!step.ok) return { op, ...step };
+    next = step.cart;
+    return { op, ok: true };
+  });
+  return { cart: next, outcomes };
+}
+
+// ---------- Removals by reference ----------
+export type Reductions<T extends RefLine> = {
+  /** removals and new quantities that point at one line each (or at "todos") */
+  ops: CartOp[];
+  /** a reference that fits several lines: which one? */
+  ask: { type: PendingChoice["type"]; qty?: number; lines: T[] } | null;
+  /** things the customer asked to remove that the basket doesn't have */
+  missing: string[];
+  /** intents left for the model */
+  rest: IntentOp[];
+};
+
+const reduceOp = (type: PendingChoice["type"], sku: string, qty?: number): CartOp =>
+  type === "setQty" ? { type, sku, qty: qty ?? 1 } : { type, sku, qty };
+
+/**
+ * The customer's removals and quantity changes ("quita el teflón", "solo
+ * quiero uno", "el segundo") resolved against the basket lines (lib/intent
+ * resolveItemRef) into cart ops, so they don't depend on the model. `pending`
+ * is the question the last turn asked: `text` answering it settles it. A new
+ * quantity for something not in the basket yet is left to the model.
+ */
+export function reductionOps<T extends RefLine>(
+  intents: IntentOp[],
+  lines: T[],
+  pending: PendingChoice | null | undefined,
+  text: string
+): Reductions<T> {
+  const out: Reductions<T> = { ops: [], ask: null, missing: [], rest: [] };
+  const reductions = intents.filter((o) => o.type === "remove" || o.type === "setQty");
+
+  // an answer names one of the lines offered; asking for something else moves on
+  if (pending && !intents.some((o) => o.type === "add" || o.type === "replace")) {
+    const offered = pending.skus.flatMap((sku) => lines.filter((l) => l.sku === sku));
+    const said = reductions.find((o) => o.item)?.item ?? text;
+    const { lines: picked, all } = resolveItemRef(said, offered);
+    if (picked.length === 1 || (all && picked.length)) {
+      out.ops = picked.map((l) => reduceOp(pending.type, l.sku, pending.qty));
+      return out;
+    }
+  }
+
+  for (const o of intents) {
+    if (o.type !== "remove" && o.type !== "setQty") {
+      if (o.type !== "end") out.rest.push(o);
+      continue;
+    }
+    const { lines: targets, all } = o.item ? resolveItemRef(o.item, lines) : { lines, all: false };
+    if (targets.length === 1 || (all && targets.length)) {
+      targets.forEach((l) => out.ops.push(reduceOp(o.type, l.sku, o.qty)));
+    } else if (targets.length > 1) {
+      out.ask ??= { type: o.type, qty: o.qty, lines: targets };
+    } else if (o.type === "remove") {
+      if (o.item && !isEmptyRef(o.item)) out.missing.push(o.item);
+    } else out.rest.push(o);
+  }
+  return out;
+}
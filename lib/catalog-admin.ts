@@ -0,0 +1,415 @@
+// lib/catalog-admin.ts
+import fs from "fs";
+import path from "path";
+import { z } from "zod";
+import { catalogFile, CatalogSeed, Product, Synonym } from "@/lib/catalog";
+import { parseCsv, toCsv } from "@/lib/csv";
+import { dataPath, makeJsonFile } from "@/lib/json-file";
+import type { ParseResult } from "@/lib/plan";
+
+/**
+ * Catalog writes for the admin area (/admin): product edits, synonyms per SKU,
+ * CSV import/export and product images. Reads still go through
+ * CatalogRepository; this is the only code that changes the catalog.
+ *
+ * CSV columns (header names in English or Spanish, any order, only `sku` required):
+ *   sku, name, brand, category, subcategory, description, price, currency,
+ *   stock, image_url, location ("aisle-shelf-bin"), specs (JSON), synonyms ("|"-separated)
+ * A blank cell keeps the current value, so a sheet with just sku/price/stock
+ * updates prices and stock. New SKUs need at least a name and a price. Sheets
+ * saved with ";" (Excel in Spanish) take decimal commas: "9,50" is 9.5.
+ * Imports are all-or-nothing: one invalid row rejects the file.
+ */
+export interface CatalogWriter {
+  readonly provider: string;
+  /** Insert or replace whole products, by SKU */
+  upsertProducts(products: Product[]): Promise<void>;
+  /** Replace the synonym terms of each SKU in the map */
+  setSynonyms(bySku: Map<string, string[]>): Promise<void>;
+  /** Stores the image and returns its public URL */
+  saveImage(sku: string, data: Buffer, contentType: string): Promise<string>;
+}
+
+export const CSV_COLUMNS = [
+  "sku",
+  "name",
+  "brand",
+  "category",
+  "subcategory",
+  "description",
+  "price",
+  "currency",
+  "stock",
+  "image_url",
+  "location",
+  "specs",
+  "synonyms",
+] as const;
+type Column = (typeof CSV_COLUMNS)[number];
+
+const COLUMN_ALIASES: Record<string, Column> = {
+  nombre: "name",
+  producto: "name",
+  marca: "brand",
+  categoria: "category",
+  subcategoria: "subcategory",
+  descripcion: "description",
+  precio: "price",
+  moneda: "currency",
+  existencias: "stock",
+  inventario: "stock",
+  imagen: "image_url",
+  ubicacion: "location",
+  especificaciones: "specs",
+  sinonimos: "synonyms",
+};
+
+export const MAX_IMPORT_ROWS = 5000;
+export const MAX_IMAGE_BYTES = 2 * 1024 * 1024;
+const MAX_SYNONYMS_PER_SKU = 30;
+const SYNONYM_SEPARATOR = "|";
+
+export const IMAGE_TYPES: Record<string, string> = { "image/jpeg": "jpg", "image/png": "png", "image/webp": "webp" };
+
+const fold = (s: string) => s.toLowerCase().normalize("NFD").replace(/\p{Diacritic}/gu, "").trim();
+
+// ---------- Validation ----------
+/**
+ * "$1,234.50 MXN" → 1234.5; with `decimalComma` (";" spreadsheets) "1.234,50" → 1234.5.
+ * Anything else that isn't a plain number → NaN, so the schema rejects it.
+ */
+export function parseAmount(v: unknown, decimalComma = false) {
+  if (typeof v !== "string") return v;
+  let s = v.replace(/[\s$]/g, "").replace(/^[A-Za-z]{3}|[A-Za-z]{3}$/g, "");
+  s = decimalComma ? s.replace(/\./g, "").replace(",", ".") : s.replace(/,/g, "");
+  return /^-?\d+(\.\d+)?$/.test(s) ? Number(s) : NaN;
+}
+
+const blankToNull = (v: unknown) => (typeof v === "string" && !v.trim() ? null : v);
+const text = (max: number) => z.preprocess(blankToNull, z.string().trim().max(max).nullish());
+
+export const ProductInputSchema = z.object({
+  sku: z
+    .string()
+    .trim()
+    .min(1, "SKU requerido")
+    .max(64)
+    .regex(/^[A-Za-z0-9._-]+$/, "SKU: solo letras, números, punto, guion y guion bajo"),
+  name: z.string().trim().min(1, "nombre requerido").max(200),
+  brand: text(100),
+  category: text(100),
+  subcategory: text(100),
+  description: text(2000),
+  price: z.preprocess(
+    (v) => parseAmount(v),
+    z.number({ invalid_type_error: "precio inválido" }).finite().nonnegative()
+  ),
+  currency: z
+    .string()
+    .trim()
+    .transform((c) => c.toUpperCase())
+    .pipe(z.string().regex(/^[A-Z]{3}$/, "moneda: código de 3 letras (MXN, USD…)"))
+    .default("MXN"),
+  stock: z.preprocess(
+    (v) => parseAmount(v),
+    z.number({ invalid_type_error: "existencias inválidas" }).int().nonnegative()
+  ),
+  image_url: text(500),
+  location: text(40),
+  specs: z.record(z.unknown()).nullish(),
+});
+
+const describeIssues = (e: z.ZodError) =>
+  e.issues.map((i) => (i.path.length ? `${i.path.join(".")}: ${i.message}` : i.message)).join("; ");
+
+export function validateProduct(input: unknown): ParseResult<Product> {
+  const r = ProductInputSchema.safeParse(input);
+  return r.success ? { ok: true, data: r.data as Product } : { ok: false, error: describeIssues(r.error) };
+}
+
+/** Lowercased, trimmed, de-duplicated, capped */
+export function normalizeSynonyms(terms: unknown): string[] {
+  const list = Array.isArray(terms) ? terms : typeof terms === "string" ? terms.split(SYNONYM_SEPARATOR) : [];
+  const clean = list.map((t) => String(t ?? "").toLowerCase().replace(/\s+/g, " ").trim().slice(0, 60));
+  return Array.from(new Set(clean.filter(Boolean))).slice(0, MAX_SYNONYMS_PER_SKU);
+}
+
+export function synonymsBySku(rows: Synonym[]) {
+  const out = new Map<string, string[]>();
+  for (const s of rows) out.set(s.product_sku, [...(out.get(s.product_sku) ?? []), s.term]);
+  return out;
+}
+
+// ---------- CSV export ----------
+export function exportCatalogCsv(products: Product[], synonyms: Synonym[]) {
+  const terms = synonymsBySku(synonyms);
+  const rows = [...products]
+    .sort((a, b) => a.sku.localeCompare(b.sku))
+    .map((p) => [
+      p.sku,
+      p.name,
+      p.brand,
+      p.category,
+      p.subcategory,
+      p.description,
+      Number(p.price),
+      p.currency,
+      Number(p.stock),
+      p.image_url,
+      p.location,
+      p.specs && Object.keys(p.specs).length ? JSON.stringify(p.specs) : "",
+      (terms.get(p.sku) ?? []).join(SYNONYM_SEPARATOR),
+    ]);
+  return toCsv([...CSV_COLUMNS], rows);
+}
+
+// ---------- CSV import ----------
+export type ImportChange = { field: string; from: unknown; to: unknown };
+
+export type ImportRow = {
+  line: number;
+  sku: string;
+  action: "create" | "update" | "unchanged";
+  changes: ImportChange[];
+  product: Product;
+  /** only when the row had a synonyms cell */
+  synonyms?: string[];
+};
+
+export type ImportError = { line: number; sku?: string; error: string };
+
+export type ImportPlan = {
+  columns: Column[];
+  rows: ImportRow[];
+  errors: ImportError[];
+  summary: { create: number; update: number; unchanged: number; errors: number };
+};
+
+const PRODUCT_FIELDS = CSV_COLUMNS.filter((c) => c !== "synonyms");
+
+const same = (a: unknown, b: unknown) =>
+  typeof a === "number" || typeof b === "number"
+    ? Number(a) === Number(b)
+    : JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+
+/**
+ * Dry run of an import: what each row would create or change against the
+ * current catalog, and every problem with its line number (line 1 = header).
+ */
+export function planImport(csv: string, existing: Product[], synonyms: Synonym[]): ImportPlan {
+  const errors: ImportError[] = [];
+  const rows: ImportRow[] = [];
+  const summary = { create: 0, update: 0, unchanged: 0, errors: 0 };
+  const done = (columns: Column[] = []) => ({ columns, rows, errors, summary: { ...summary, errors: errors.length } });
+
+  let table: ReturnType<typeof parseCsv>;
+  try {
+    table = parseCsv(csv);
+  } catch (e) {
+    errors.push({ line: 1, error: (e as Error)?.message });
+    return done();
+  }
+
+  const columns = table.header.map((h) => {
+    const key = fold(h).replace(/[\s-]+/g, "_");
+    return (CSV_COLUMNS as readonly string[]).includes(key) ? (key as Column) : COLUMN_ALIASES[key];
+  });
+  table.header.forEach((h, k) => !columns[k] && errors.push({ line: 1, error: `columna desconocida: "${h}"` }));
+  if (!columns.includes("sku")) errors.push({ line: 1, error: 'falta la columna "sku"' });
+  if (table.rows.length > MAX_IMPORT_ROWS) {
+    errors.push({ line: 1, error: `máximo ${MAX_IMPORT_ROWS} filas por archivo` });
+  }
+  if (errors.length) return done(columns.filter(Boolean));
+
+  const bySku = new Map(existing.map((p) => [p.sku, p]));
+  const terms = synonymsBySku(synonyms);
+  const decimalComma = table.delimiter === ";";
+  const seen = new Map<string, number>();
+
+  table.rows.forEach((cells, k) => {
+    const line = k + 2;
+    const raw: Partial<Record<Column, string>> = {};
+    columns.forEach((c, i) => {
+      const v = (cells[i] ?? "").trim();
+      if (v) raw[c] = v;
+    });
+    const sku = raw.sku ?? "";
+    if (!sku) return errors.push({ line, error: "SKU vacío" });
+    if (seen.has(sku)) return errors.push({ line, sku, error: `SKU repetido (ya en la línea ${seen.get(sku)})` });
+    seen.set(sku, line);
+
+    let specs: unknown;
+    if (raw.specs) {
+      try {
+        specs = JSON.parse(raw.specs);
+      } catch {
+        return errors.push({ line, sku, error: "specs: JSON inválido" });
+      }
+    }
+
+    const current = bySku.get(sku);
+    const merged: Record<string, unknown> = { ...(current ?? {}) };
+    for (const f of PRODUCT_FIELDS) {
+      if (raw[f] === undefined) continue;
+      merged[f] = f === "specs" ? specs : f === "price" || f === "stock" ? parseAmount(raw[f], decimalComma) : raw[f];
+    }
+    const valid = validateProduct(merged);
+    if (!valid.ok) return errors.push({ line, sku, error: valid.error });
+
+    const changes: ImportChange[] = PRODUCT_FIELDS.filter(
+      (f) => f !== "sku" && raw[f] !== undefined && (!current || !same(current[f], valid.data[f]))
+    ).map((f) => ({ field: f, from: current?.[f] ?? null, to: valid.data[f] ?? null }));
+
+    let newTerms: string[] | undefined;
+    if (raw.synonyms !== undefined) {
+      newTerms = normalizeSynonyms(raw.synonyms);
+      const before = terms.get(sku) ?? [];
+      if (!same([...before].sort(), [...newTerms].sort())) {
+        changes.push({ field: "synonyms", from: before.join(SYNONYM_SEPARATOR), to: newTerms.join(SYNONYM_SEPARATOR) });
+      }
+    }
+
+    const action = !current ? "create" : changes.length ? "update" : "unchanged";
+    summary[action] += 1;
+    rows.push({ line, sku, action, changes, product: valid.data, synonyms: newTerms });
+  });
+
+  return done(columns);
+}
+
+/** Writes a dry-run plan; refuses plans with errors */
+export async function applyImport(writer: CatalogWriter, plan: ImportPlan) {
+  if (plan.errors.length) throw new Error(`import has ${plan.errors.length} error(s)`);
+  const changed = plan.rows.filter((r) => r.action !== "unchanged");
+  const products = changed.filter((r) => r.changes.some((c) => c.field !== "synonyms")).map((r) => r.product);
+  if (products.length) await writer.upsertProducts(products);
+  const terms = new Map(
+    changed.filter((r) => r.synonyms && r.changes.some((c) => c.field === "synonyms")).map((r) => [r.sku, r.synonyms!])
+  );
+  if (terms.size) await writer.setSynonyms(terms);
+  return { products: products.length, synonyms: terms.size };
+}
+
+// ---------- Images ----------
+// the bytes must agree with the declared type
+function looksLike(data: Buffer, contentType: string) {
+  if (contentType === "image/jpeg") return data[0] === 0xff && data[1] === 0xd8;
+  if (contentType === "image/png") return data.subarray(0, 4).toString("hex") === "89504e47";
+  if (contentType === "image/webp") return data.subarray(8, 12).toString("ascii") === "WEBP";
+  return false;
+}
+
+export function checkImage(data: Buffer, contentType: string): string | null {
+  if (!IMAGE_TYPES[contentType]) return "formato no soportado (JPG, PNG o WebP)";
+  if (!data.length) return "imagen vacía";
+  if (data.length > MAX_IMAGE_BYTES) return `la imagen pasa de ${MAX_IMAGE_BYTES / 1024 / 1024} MB`;
+  if (!looksLike(data, contentType)) return "el archivo no es una imagen válida";
+  return null;
+}
+
+// new name per upload so kiosks never show a cached old picture
+const imageName = (sku: string, contentType: string) =>
+  `${sku.toLowerCase().replace(/[^a-z0-9._-]/g, "-")}-${Date.now()}.${IMAGE_TYPES[contentType]}`;
+
+// ---------- Local JSON file ----------
+/** Local images are served by /api/images/[name] */
+export function localImagesDir() {
+  return process.env.IMAGES_DIR || dataPath("images");
+}
+
+/** Edits the local catalog seed in place (getCatalog reloads it on change) */
+export function makeLocalCatalogWriter(file: string): CatalogWriter {
+  const doc = makeJsonFile<CatalogSeed>(file, () => ({ products: [] }));
+
+  return {
+    provider: "local",
+
+    async upsertProducts(products) {
+      await doc.update((d) => {
+        for (const p of products) {
+          const at = d.products.findIndex((x) => x.sku === p.sku);
+          if (at >= 0) d.products[at] = p;
+          else d.products.push(p);
+        }
+      });
+    },
+
+    async setSynonyms(bySku) {
+      await doc.update((d) => {
+        d.synonyms = [
+          ...(d.synonyms ?? []).filter((s) => !bySku.has(s.product_sku)),
+          ...Array.from(bySku, ([sku, terms]) => terms.map((term) => ({ product_sku: sku, term }))).flat(),
+        ];
+      });
+    },
+
+    async saveImage(sku, data, contentType) {
+      const dir = localImagesDir();
+      const name = imageName(sku, contentType);
+      await fs.promises.mkdir(dir, { recursive: true });
+      await fs.promises.writeFile(path.join(dir, name), data);
+      return `/api/images/${name}`;
+    },
+  };
+}
+
+// ---------- Supabase ----------
+async function admin() {
+  return (await import("@/lib/supabase")).supabaseAdmin;
+}
+
+const UPSERT_CHUNK = 500;
+
+/** Tables `products` / `synonyms`; images in the Storage bucket PRODUCT_IMAGES_BUCKET (public) */
+export function makeSupabaseCatalogWriter(
+  bucket = process.env.PRODUCT_IMAGES_BUCKET || "product-images"
+): CatalogWriter {
+  return {
+    provider: "supabase",
+
+    async upsertProducts(products) {
+      const db = await admin();
+      for (let i = 0; i < products.length; i += UPSERT_CHUNK) {
+        const { error } = await db.from("products").upsert(products.slice(i, i + UPSERT_CHUNK), { onConflict: "sku" });
+        if (error) throw new Error(error.message);
+      }
+    },
+
+    async setSynonyms(bySku) {
+      const db = await admin();
+      const skus = Array.from(bySku.keys());
+      const del = await db.from("synonyms").delete().in("product_sku", skus);
+      if (del.error) throw new Error(del.error.message);
+      const rows = Array.from(bySku, ([sku, terms]) => terms.map((term) => ({ product_sku: sku, term }))).flat();
+      if (!rows.length) return;
+      const { error } = await db.from("synonyms").insert(rows);
+      if (error) throw new Error(error.message);
+    },
+
+    async saveImage(sku, data, contentType) {
+      const storage = (await admin()).storage.from(bucket);
+      const name = imageName(sku, contentType);
+      const { error } = await storage.upload(name, data, { contentType, upsert: false });
+      if (error) throw new Error(error.message);
+      return storage.getPublicUrl(name).data.publicUrl;
+    },
+  };
+}
+
+// ---------- Factory ----------
+let cached: CatalogWriter | null = null;
+
+/** Follows CATALOG_PROVIDER: the local writer edits CATALOG_FILE, images go to IMAGES_DIR (default .data/images) */
+export function getCatalogWriter(): CatalogWriter {
+  if (cached) return cached;
+  const provider = process.env.CATALOG_PROVIDER ?? "supabase";
+  if (provider === "supabase") cached = makeSupabaseCatalogWriter();
+  else if (provider === "local") cached = makeLocalCatalogWriter(catalogFile());
+  else throw new Error(`Unknown CATALOG_PROVIDER "${provider}" (available: supabase, local)`);
+  return cached;
+}
+
+/** Swap the writer (tests, scripts). Pass null to go back to the env-configured one. */
+export function setCatalogWriter(writer: CatalogWriter | null) {
+  cached = writer;
+}
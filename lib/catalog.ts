@@ -0,0 +1,362 @@
+// lib/catalog.ts
+import fs from "fs";
+import path from "path";
+import { Promotion, validPromotions } from "@/lib/promotions";
+import type { UpsellRule } from "@/lib/upsell";
+
+export type Product = {
+  sku: string;
+  name: string;
+  brand?: string | null;
+  category?: string | null;
+  subcategory?: string | null;
+  description?: string | null;
+  price: number;
+  currency: string;
+  stock: number;
+  image_url?: string | null;
+  /** where it sits in the store, "aisle-shelf-bin" (lib/wayfinding) */
+  location?: string | null;
+  specs?: Record<string, unknown> | null;
+};
+
+export type Synonym = { product_sku: string; term: string };
+
+export type RelationKind = "accessory-of" | "spare-part-of" | "substitute-for" | "requires";
+
+/** Reads as "product_sku <kind> related_sku", e.g. REP-CORTA-001 spare-part-of CORTA-COBRE-001 */
+export type ProductRelation = {
+  product_sku: string;
+  related_sku: string;
+  kind: RelationKind;
+  note?: string | null;
+  priority?: number | null;
+};
+
+/**
+ * Read access to products + synonyms. Routes and the agent only talk to this,
+ * never to a concrete backend.
+ * - search: case-insensitive substring match of ANY term on name/description/category/subcategory
+ * - getBySkus: unordered; callers re-order if they care
+ * - findSynonyms: synonym rows whose term contains ANY of the given terms
+ * - getRelations: product_relations rows where either side is one of the SKUs
+ * - getUpsellRules: merchandising rules, read fresh on every call (edits apply without a deploy)
+ * - getPromotions: marketing promotions, also read fresh (date filtering is lib/promotions' job)
+ * - listProducts/listSynonyms: full tables (products with specs), for in-memory ranking and size filters
+ */
+export interface CatalogRepository {
+  readonly provider: string;
+  search(terms: string[], opts?: { limit?: number }): Promise<Product[]>;
+  getBySkus(skus: string[], opts?: { withSpecs?: boolean }): Promise<Product[]>;
+  findSynonyms(terms: string[]): Promise<Synonym[]>;
+  getStock(skus: string[]): Promise<Map<string, number>>;
+  getRelations(skus: string[]): Promise<ProductRelation[]>;
+  getUpsellRules(): Promise<UpsellRule[]>;
+  getPromotions(): Promise<Promotion[]>;
+  listProducts(): Promise<Product[]>;
+  listSynonyms(): Promise<Synonym[]>;
+  count(): Promise<number>;
+}
+
+const LIST_COLUMNS = "sku,name,brand,category,subcategory,description,price,currency,stock,image_url,location";
+const SEARCH_FIELDS = ["name", "description", "category", "subcategory"] as const;
+
+/** Trim a search term so it is safe inside a PostgREST .or() (commas/parens break the parser) */
+export function cleanTerm(val: string) {
+  return String(val ?? "")
+    .replace(/[(),%*]/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+function usableTerms(terms: string[]) {
+  return Array.from(new Set(terms.map(cleanTerm).filter(Boolean)));
+}
+
+// ---------- Supabase ----------
+async function admin() {
+  // imported lazily so local mode never needs Supabase credentials
+  return (await import("@/lib/supabase")).supabaseAdmin;
+}
+
+const PAGE = 1000; // PostgREST max rows per request
+
+async function selectAll<T>(table: string, columns: string): Promise<T[]> {
+  const db = await admin();
+  const out: T[] = [];
+  for (let from = 0; ; from += PAGE) {
+    const { data, error } = await db.from(table).select(columns).range(from, from + PAGE - 1);
+    if (error) throw new Error(error.message);
+    out.push(...((data || []) as T[]));
+    if (!data || data.length < PAGE) return out;
+  }
+}
+
+export function makeSupabaseCatalog(): CatalogRepository {
+  return {
+    provider: "supabase",
+
+    async search(terms, { limit = 50 } = {}) {
+      const ts = usableTerms(terms);
+      if (!ts.length) return [];
+      const ors = ts.flatMap((t) => SEARCH_FIELDS.map((f) => `${f}.ilike.%${t}%`));
+      const { data, error } = await (await admin())
+        .from("products")
+        .select(LIST_COLUMNS)
+        .or(ors.join(","))
+        .limit(limit);
+      if (error) throw new Error(error.message);
+      return (data || []) as Product[];
+    },
+
+    async getBySkus(skus, { withSpecs = false } = {}) {
+      const list = Array.from(new Set(skus.filter(Boolean)));
+      if (!list.length) return [];
+      const { data, error } = await (await admin())
+        .from("products")
+        .select(withSpecs ? `${LIST_COLUMNS},specs` : LIST_COLUMNS)
+        .in("sku", list);
+      if (error) throw new Error(error.message);
+      return (data || []) as unknown as Product[];
+    },
+
+    async findSynonyms(terms) {
+      const ts = usableTerms(terms);
+      if (!ts.length) return [];
+      const { data, error } = await (await admin())
+        .from("synonyms")
+        .select("product_sku,term")
+        .or(ts.map((t) => `term.ilike.%${t}%`).join(","));
+      if (error) throw new Error(error.message);
+      return (data || []) as Synonym[];
+    },
+
+    async getStock(skus) {
+      const list = Array.from(new Set(skus.filter(Boolean)));
+      const out = new Map<string, number>();
+      if (!list.length) return out;
+      const { data, error } = await (await admin()).from("products").select("sku,stock").in("sku", list);
+      if (error) throw new Error(error.message);
+      for (const r of data || []) out.set(r.sku, Number(r.stock) || 0);
+      return out;
+    },
+
+    async getRelations(skus) {
+      const list = Array.from(new Set(skus.filter(Boolean)));
+      if (!list.length) return [];
+      const db = await admin();
+      const cols = "product_sku,related_sku,kind,note,priority";
+      const [a, b] = await Promise.all([
+        db.from("product_relations").select(cols).in("product_sku", list),
+        db.from("product_relations").select(cols).in("related_sku", list),
+      ]);
+      if (a.error) throw new Error(a.error.message);
+      if (b.error) throw new Error(b.error.message);
+      const seen = new Set<string>();
+      return [...(a.data || []), ...(b.data || [])].filter((r) => {
+        const key = `${r.product_sku}|${r.kind}|${r.related_sku}`;
+        if (seen.has(key)) return false;
+        seen.add(key);
+        return true;
+      }) as ProductRelation[];
+    },
+
+    async getUpsellRules() {
+      const { data, error } = await (await admin())
+        .from("upsell_rules")
+        .select("id,name,enabled,priority,conditions,actions")
+        .neq("enabled", false);
+      if (error) throw new Error(error.message);
+      return (data || []) as UpsellRule[];
+    },
+
+    async getPromotions() {
+      // `definition` jsonb holds the kind, its parameters and the scope
+      const { data, error } = await (await admin())
+        .from("promotions")
+        .select("id,name,enabled,priority,starts_at,ends_at,definition")
+        .neq("enabled", false);
+      if (error) throw new Error(error.message);
+      return validPromotions(
+        ((data || []) as (Omit<Promotion, "kind"> & { definition: object })[]).map(({ definition, ...p }) => ({
+          ...definition,
+          ...p,
+        }))
+      );
+    },
+
+    async listProducts() {
+      return selectAll<Product>("products", `${LIST_COLUMNS},specs`);
+    },
+
+    async listSynonyms() {
+      return selectAll<Synonym>("synonyms", "product_sku,term");
+    },
+
+    async count() {
+      const { count, error } = await (await admin())
+        .from("products")
+        .select("*", { count: "exact", head: true });
+      if (error) throw new Error(error.message);
+      return count ?? 0;
+    },
+  };
+}
+
+// ---------- Local JSON file ----------
+export type CatalogSeed = {
+  products: Product[];
+  synonyms?: Synonym[];
+  relations?: ProductRelation[];
+  upsell_rules?: UpsellRule[];
+  promotions?: Promotion[];
+};
+
+/**
+ * In-memory catalog built from a seed ({ products, synonyms }). Matching mirrors
+ * Postgres ILIKE (lowercase substring, no accent folding) so both backends
+ * return the same candidates. Upsell rules and promotions come from
+ * `rulesFile` / `promotionsFile` when given (re-read on each call), else from the seed.
+ */
+export function makeLocalCatalog(
+  seed: CatalogSeed,
+  { rulesFile, promotionsFile }: { rulesFile?: string; promotionsFile?: string } = {}
+): CatalogRepository {
+  const products = seed.products.map((p) => ({ ...p }));
+  const synonyms = seed.synonyms ?? [];
+  const relations = seed.relations ?? [];
+  const bySku = new Map(products.map((p) => [p.sku, p]));
+  const withoutSpecs = (p: Product): Product => {
+    const rest = { ...p };
+    delete rest.specs;
+    return rest;
+  };
+
+  return {
+    provider: "local",
+
+    async search(terms, { limit = 50 } = {}) {
+      const ts = usableTerms(terms).map((t) => t.toLowerCase());
+      if (!ts.length) return [];
+      return products
+        .filter((p) =>
+          SEARCH_FIELDS.some((f) => {
+            const v = String(p[f] ?? "").toLowerCase();
+            return ts.some((t) => v.includes(t));
+          })
+        )
+        .slice(0, limit)
+        .map(withoutSpecs);
+    },
+
+    async getBySkus(skus, { withSpecs = false } = {}) {
+      const out: Product[] = [];
+      for (const sku of new Set(skus)) {
+        const p = bySku.get(sku);
+        if (p) out.push(withSpecs ? { ...p } : withoutSpecs(p));
+      }
+      return out;
+    },
+
+    async findSynonyms(terms) {
+      const ts = usableTerms(terms).map((t) => t.toLowerCase());
+      if (!ts.length) return [];
+      return synonyms.filter((s) => ts.some((t) => s.term.toLowerCase().includes(t)));
+    },
+
+    async getStock(skus) {
+      const out = new Map<string, number>();
+      for (const sku of skus) {
+        const p = bySku.get(sku);
+        if (p) out.set(sku, Number(p.stock) || 0);
+      }
+      return out;
+    },
+
+    async getRelations(skus) {
+      const list = new Set(skus);
+      return relations.filter((r) => list.has(r.product_sku) || list.has(r.related_sku));
+    },
+
+    async getUpsellRules() {
+      if (!rulesFile) return seed.upsell_rules ?? [];
+      if (!fs.existsSync(rulesFile)) return [];
+      const raw = JSON.parse(await fs.promises.readFile(rulesFile, "utf8"));
+      return Array.isArray(raw) ? raw : raw?.rules ?? [];
+    },
+
+    async getPromotions() {
+      if (!promotionsFile) return validPromotions(seed.promotions ?? []);
+      if (!fs.existsSync(promotionsFile)) return [];
+      const raw = JSON.parse(await fs.promises.readFile(promotionsFile, "utf8"));
+      return validPromotions(Array.isArray(raw) ? raw : raw?.promotions ?? []);
+    },
+
+    async listProducts() {
+      return products.map((p) => ({ ...p }));
+    },
+
+    async listSynonyms() {
+      return [...synonyms];
+    },
+
+    async count() {
+      return products.length;
+    },
+  };
+}
+
+export function loadCatalogSeed(file: string): CatalogSeed {
+  const raw = JSON.parse(fs.readFileSync(file, "utf8"));
+  if (!Array.isArray(raw?.products)) throw new Error(`Catalog seed ${file} has no "products" array`);
+  return raw as CatalogSeed;
+}
+
+// ---------- Factory ----------
+let cached: CatalogRepository | null = null;
+// local backend: the seed it was built from, rebuilt when the file changes (admin edits)
+let seedFile: { file: string; mtime: number } | null = null;
+
+const mtimeOf = (file: string) => {
+  try {
+    return fs.statSync(file).mtimeMs;
+  } catch {
+    return 0;
+  }
+};
+
+/** The local backend's seed file (CATALOG_FILE, default data/catalog.json) */
+export function catalogFile() {
+  return process.env.CATALOG_FILE || path.join(process.cwd(), "data", "catalog.json");
+}
+
+/**
+ * CATALOG_PROVIDER=supabase (default) | local
+ * CATALOG_FILE: seed for the local backend (default data/catalog.json)
+ * UPSELL_RULES_FILE: rules for the local backend (default data/upsell-rules.json)
+ * PROMOTIONS_FILE: promotions for the local backend (default data/promotions.json)
+ * The local backend reloads its seed when the file changes on disk.
+ */
+export function getCatalog(): CatalogRepository {
+  if (cached && seedFile && mtimeOf(seedFile.file) !== seedFile.mtime) cached = null;
+  if (cached) return cached;
+  const provider = process.env.CATALOG_PROVIDER ?? "supabase";
+  if (provider === "supabase") {
+    cached = makeSupabaseCatalog();
+  } else if (provider === "local") {
+    const file = catalogFile();
+    seedFile = { file, mtime: mtimeOf(file) };
+    const rulesFile = process.env.UPSELL_RULES_FILE || path.join(process.cwd(), "data", "upsell-rules.json");
+    const promotionsFile = process.env.PROMOTIONS_FILE || path.join(process.cwd(), "data", "promotions.json");
+    cached = makeLocalCatalog(loadCatalogSeed(file), { rulesFile, promotionsFile });
+  } else {
+    throw new Error(`Unknown CATALOG_PROVIDER "${provider}" (available: supabase, local)`);
+  }
+  return cached;
+}
+
+/** Swap the catalog (tests, scripts). Pass null to go back to the env-configured one. */
+export function setCatalog(repo: CatalogRepository | null) {
+  cached = repo;
+  seedFile = null;
+}
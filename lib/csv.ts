@@ -0,0 +1,70 @@
+// lib/csv.ts
+
+/**
+ * Minimal RFC 4180 CSV for catalog spreadsheets: quoted fields with commas,
+ * quotes and line breaks, CRLF or LF, a UTF-8 BOM. The delimiter is sniffed
+ * from the header line, since Excel in Spanish locales saves with ";".
+ */
+export type CsvTable = { header: string[]; rows: string[][]; delimiter: string };
+
+export function detectDelimiter(text: string) {
+  const first = text.split(/\r?\n/, 1)[0] ?? "";
+  const count = (c: string) => first.split(c).length - 1;
+  return count(";") > count(",") ? ";" : count("\t") > count(",") ? "\t" : ",";
+}
+
+/** Rows as arrays of strings; blank lines are skipped. Throws on an unterminated quote. */
+export function parseCsv(text: string, delimiter = detectDelimiter(text)): CsvTable {
+  const s = text.replace(/^\uFEFF/, "");
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+  let i = 0;
+
+  const endField = () => {
+    row.push(field);
+    field = "";
+  };
+  const endRow = () => {
+    endField();
+    if (row.some((f) => f.trim() !== "")) rows.push(row);
+    row = [];
+  };
+
+  while (i < s.length) {
+    const c = s[i];
+    if (quoted) {
+      if (c === '"' && s[i + 1] === '"') {
+        field += '"';
+        i += 2;
+        continue;
+      }
+      if (c === '"') quoted = false;
+      else field += c;
+      i++;
+      continue;
+    }
+    if (c === '"' && field === "") quoted = true;
+    else if (c === delimiter) endField();
+    else if (c === "\n") endRow();
+    else if (c !== "\r") field += c;
+    i++;
+  }
+  if (quoted) throw new Error("CSV: comillas sin cerrar");
+  if (field !== "" || row.length) endRow();
+
+  const [header = [], ...rest] = rows;
+  return { header: header.map((h) => h.trim()), rows: rest, delimiter };
+}
+
+const needsQuotes = (v: string, delimiter: string) => v.includes(delimiter) || /["\r\n]/.test(v) || v !== v.trim();
+
+/** Header + rows as CSV text (CRLF, quoted only where needed) */
+export function toCsv(header: string[], rows: (string | number | null | undefined)[][], delimiter = ",") {
+  const cell = (v: string | number | null | undefined) => {
+    const s = v === null || v === undefined ? "" : String(v);
+    return needsQuotes(s, delimiter) ? `"${s.replace(/"/g, '""')}"` : s;
+  };
+  return [header, ...rows].map((r) => r.map(cell).join(delimiter)).join("\r\n") + "\r\n";
+}
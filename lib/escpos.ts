@@ -0,0 +1,197 @@
+// lib/escpos.ts
+import { formatOrderNumber, Order } from "@/lib/orders";
+import { taxName } from "@/lib/totals";
+import { describeLocation, inRouteOrder } from "@/lib/wayfinding";
+
+/**
+ * ESC/POS receipts for 58mm/80mm thermal printers. Text goes out in code page
+ * PC858 (Latin-1 + €) so "ñ", "á" and "¿" print as themselves; anything the
+ * code page lacks is folded to plain ASCII. The ticket number is printed as a
+ * QR code or CODE128 barcode so the register can scan it. Lines go in walking
+ * order with their shelf location, so the ticket doubles as a pick list.
+ */
+export type PaperWidth = 58 | 80;
+export type ReceiptCode = "qr" | "code128" | "none";
+
+export type ReceiptOptions = {
+  width?: PaperWidth;
+  code?: ReceiptCode;
+  storeName?: string;
+  footer?: string;
+  /** for the date line; defaults to the kiosk's locale/timezone */
+  locale?: string;
+};
+
+/** Characters per line in font A */
+export const COLUMNS: Record<PaperWidth, number> = { 58: 32, 80: 48 };
+
+const ESC = 0x1b;
+const GS = 0x1d;
+const LF = 0x0a;
+const CODE_PAGE_PC858 = 19;
+
+// PC858 positions for what a Spanish ticket needs
+const PC858: Record<string, number> = {
+  á: 0xa0, é: 0x82, í: 0xa1, ó: 0xa2, ú: 0xa3, ñ: 0xa4, Ñ: 0xa5, ü: 0x81, Ü: 0x9a,
+  Á: 0xb5, É: 0x90, Í: 0xd6, Ó: 0xe0, Ú: 0xe9, "¿": 0xa8, "¡": 0xad, "°": 0xf8, "€": 0xd5,
+  "½": 0xab, "¼": 0xac, "¾": 0xf3, "×": 0x9e, "·": 0xfa,
+};
+const ASCII_FALLBACK: Record<string, string> = { "“": '"', "”": '"', "‘": "'", "’": "'", "–": "-", "—": "-", "…": "..." };
+
+/** Text → PC858 bytes */
+export function encodePC858(text: string) {
+  const out: number[] = [];
+  for (const ch of text) {
+    const code = ch.charCodeAt(0);
+    if (code >= 0x20 && code < 0x7f) out.push(code);
+    else if (ch === "\n") out.push(LF);
+    else if (PC858[ch] !== undefined) out.push(PC858[ch]);
+    else {
+      const plain = ASCII_FALLBACK[ch] ?? ch.normalize("NFD").replace(/[^\x20-\x7e]/g, "");
+      for (const c of plain || "?") out.push(c.charCodeAt(0));
+    }
+  }
+  return out;
+}
+
+/**
+ * Chainable command builder: `escpos().align("center").bold(true).line("Hola").cut().bytes()`
+ */
+export function escpos() {
+  const out: number[] = [ESC, 0x40, ESC, 0x74, CODE_PAGE_PC858]; // init + code page
+  const b = {
+    raw(...bytes: number[]) {
+      out.push(...bytes);
+      return b;
+    },
+    text(s: string) {
+      out.push(...encodePC858(s));
+      return b;
+    },
+    line(s = "") {
+      return b.text(s).raw(LF);
+    },
+    align(a: "left" | "center" | "right") {
+      return b.raw(ESC, 0x61, a === "left" ? 0 : a === "center" ? 1 : 2);
+    },
+    bold(on: boolean) {
+      return b.raw(ESC, 0x45, on ? 1 : 0);
+    },
+    /** Character magnification, 1-8 each way */
+    size(w = 1, h = 1) {
+      return b.raw(GS, 0x21, ((w - 1) << 4) | (h - 1));
+    },
+    feed(lines = 1) {
+      return b.raw(ESC, 0x64, lines);
+    },
+    qr(data: string, moduleSize = 6) {
+      const d = encodePC858(data);
+      const len = d.length + 3;
+      return b
+        .raw(GS, 0x28, 0x6b, 4, 0, 0x31, 0x41, 0x32, 0) // model 2
+        .raw(GS, 0x28, 0x6b, 3, 0, 0x31, 0x43, moduleSize)
+        .raw(GS, 0x28, 0x6b, 3, 0, 0x31, 0x45, 0x31) // error correction M
+        .raw(GS, 0x28, 0x6b, len & 0xff, len >> 8, 0x31, 0x50, 0x30, ...d)
+        .raw(GS, 0x28, 0x6b, 3, 0, 0x31, 0x51, 0x30); // print
+    },
+    code128(data: string) {
+      const d = encodePC858(`{B${data}`);
+      return b
+        .raw(GS, 0x68, 80) // height
+        .raw(GS, 0x77, 2) // module width
+        .raw(GS, 0x48, 2) // human-readable text below
+        .raw(GS, 0x6b, 73, d.length, ...d);
+    },
+    /** Feed past the cutter, then partial cut */
+    cut() {
+      return b.raw(GS, 0x56, 66, 3);
+    },
+    bytes() {
+      return Uint8Array.from(out);
+    },
+  };
+  return b;
+}
+
+// ---------- Layout ----------
+const money = (n: number) => n.toFixed(2);
+
+/** Left and right text on one line, padded (left is cut if they don't fit) */
+export function columns(left: string, right: string, width: number) {
+  const room = Math.max(0, width - right.length - 1);
+  const l = left.length > room ? left.slice(0, room) : left;
+  return l + " ".repeat(width - l.length - right.length) + right;
+}
+
+/** Word wrap to `width` columns (long words are hard-split) */
+export function wrap(text: string, width: number) {
+  const lines: string[] = [];
+  let cur = "";
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    for (let w = word; w; ) {
+      const piece = w.slice(0, width);
+      w = w.slice(width);
+      if (!cur) cur = piece;
+      else if (cur.length + 1 + piece.length <= width) cur += ` ${piece}`;
+      else {
+        lines.push(cur);
+        cur = piece;
+      }
+    }
+  }
+  if (cur) lines.push(cur);
+  return lines;
+}
+
+/** The order as an ESC/POS byte stream, ready for the printer */
+export function renderReceipt(order: Order, opts: ReceiptOptions = {}) {
+  const width = COLUMNS[opts.width ?? 80] ?? COLUMNS[80];
+  const code = opts.code ?? "qr";
+  const ticket = formatOrderNumber(order);
+  const rule = "-".repeat(width);
+  const date = new Intl.DateTimeFormat(opts.locale ?? "es-MX", { dateStyle: "medium", timeStyle: "short" }).format(
+    new Date(order.created_at)
+  );
+
+  const p = escpos()
+    .align("center")
+    .bold(true)
+    .line(opts.storeName ?? "Ferretería")
+    .bold(false)
+    .line(date)
+    .feed(1)
+    .line("Ticket de compra")
+    .size(2, 2)
+    .bold(true)
+    .line(ticket)
+    .bold(false)
+    .size(1, 1)
+    .align("left")
+    .line(rule);
+
+  for (const l of inRouteOrder(order.lines)) {
+    wrap(l.name, width).forEach((t) => p.line(t));
+    if (l.location) wrap(describeLocation(l.location), width - 2).forEach((t) => p.line(`  ${t}`));
+    p.line(columns(`  ${l.qty} x ${money(l.unit_price)}`, money(l.line_total), width));
+  }
+
+  p.line(rule);
+  for (const promo of order.promotions ?? []) {
+    const label = wrap(promo.name, width - 10);
+    label.slice(0, -1).forEach((t) => p.line(t));
+    p.line(columns(label[label.length - 1] ?? "", `-${money(promo.amount)}`, width));
+  }
+  p.line(columns("Subtotal", money(order.subtotal), width));
+  for (const t of order.taxes ?? []) p.line(columns(taxName(t.rate), money(t.tax), width));
+  p.bold(true)
+    .line(columns("TOTAL", `${order.currency} ${money(order.total)}`, width))
+    .bold(false)
+    .feed(1)
+    .align("center");
+
+  if (code === "qr") p.qr(ticket, width > 32 ? 6 : 4).feed(1);
+  else if (code === "code128") p.code128(ticket).feed(1);
+
+  wrap(opts.footer ?? `Presente el número ${ticket} en caja.`, width).forEach((t) => p.line(t));
+  return p.feed(3).cut().bytes();
+}
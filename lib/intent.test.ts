@@ -0,0 +1,54 @@
+// lib/intent.test.ts
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { parseIntents, resolveItemRef } from "@/lib/intent";
+import { reductionOps } from "@/lib/cart-ops";
+
+const basket = [
+  { sku: "COD-12", name: "Codo PVC 1/2", category: "plomeria" },
+  { sku: "TEF-01", name: "Cinta teflón", category: "plomeria" },
+  { sku: "LLA-34", name: "Llave de paso 3/4", category: "plomeria" },
+  { sku: "MAR-16", name: "Martillo de uña 16 oz", category: "herramienta" },
+];
+
+test("closing phrases end the conversation instead of removing 'nada'", () => {
+  for (const text of ["no quiero nada más", "ya no quiero nada", "gracias, no quiero nada más", "sin nada más"]) {
+    assert.ok(
+      parseIntents(text).every((o) => o.type === "end"),
+      text
+    );
+  }
+});
+
+test("a closing clause doesn't swallow the rest of the turn", () => {
+  assert.deepEqual(
+    parseIntents("ya, agrega teflón").map((o) => o.type),
+    ["end", "add"]
+  );
+});
+
+test("a reference to nothing names no line and nothing missing", () => {
+  assert.deepEqual(resolveItemRef("nada", basket), { lines: [], all: false });
+  assert.deepEqual(resolveItemRef("el de", basket), { lines: [], all: false });
+  const out = reductionOps([{ type: "remove", item: "nada" }], basket, null, "quita nada");
+  assert.deepEqual(out.ops, []);
+  assert.deepEqual(out.missing, []);
+});
+
+test("ordinals point at basket lines, up to 'el cuarto'", () => {
+  assert.deepEqual(resolveItemRef("el segundo", basket).lines, [basket[1]]);
+  assert.deepEqual(resolveItemRef("el cuarto", basket).lines, [basket[3]]);
+  assert.deepEqual(resolveItemRef("la última", basket).lines, [basket[3]]);
+  assert.deepEqual(resolveItemRef("el quinto", basket).lines, []);
+  const [remove] = parseIntents("quita el cuarto");
+  assert.deepEqual(
+    reductionOps([remove], basket, null, "quita el cuarto").ops.map((o) => o.sku),
+    ["MAR-16"]
+  );
+});
+
+test("'un cuarto' after a number is a size, not the fourth line", () => {
+  const [remove] = parseIntents("quita el de un cuarto");
+  assert.equal(remove.type, "remove");
+  assert.notDeepEqual(resolveItemRef("item" in remove ? remove.item : undefined, basket).lines, [basket[3]]);
+});
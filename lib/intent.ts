@@ -0,0 +1,312 @@
+// lib/intent.ts
+import defaultIntentConfig from "@/data/intents.json";
+
+/**
+ * Turns one customer utterance into a list of cart operations, e.g.
+ *   "dame 3 codos y quita la cinta" →
+ *   [{ type: "add", item: "codos", qty: 3 }, { type: "remove", item: "cinta" }]
+ *
+ * Vocabulary (verbs, number words, stopwords…) lives in data/intents.json so a
+ * store can tune it without touching code. Matching is accent/case-insensitive.
+ */
+export type IntentOp =
+  | { type: "add"; item?: string; qty?: number }
+  | { type: "remove"; item?: string; qty?: number }
+  | { type: "replace"; from?: string; to?: string; qty?: number }
+  | { type: "setQty"; item?: string; qty: number }
+  | { type: "end" }
+  | { type: "ask"; text: string };
+
+export type IntentType = IntentOp["type"];
+type VerbType = "add" | "remove" | "replace" | "setQty";
+
+export type IntentConfig = {
+  end: string[];
+  fillers: string[];
+  verbs: Record<VerbType, string[]>;
+  replaceJoiners: string[];
+  clauseSeparators: string[];
+  questionStarts: string[];
+  numbers: Record<string, number>;
+  multipliers: Record<string, number>;
+  /** "el segundo", "la última" (-1 = last) when pointing at basket lines; not after a number ("un cuarto") */
+  ordinals: Record<string, number>;
+  /** "quita todos los codos": every line the rest of the reference matches */
+  all: string[];
+  /** "nada", "ninguno": a reference to no line at all */
+  nothing: string[];
+  sizeFollowers: string[];
+  stopwords: string[];
+};
+
+export const DEFAULT_INTENT_CONFIG: IntentConfig = defaultIntentConfig;
+
+export function foldText(text: string) {
+  return (text || "")
+    .toLowerCase()
+    .normalize("NFD")
+    .replace(/\p{Diacritic}/gu, "");
+}
+
+// keep digits, fractions and inch marks: they carry sizes
+function normalize(text: string) {
+  return foldText(text)
+    .replace(/[¿¡!?.]/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+const words = (s: string) => s.split(" ").filter(Boolean);
+
+/** Longest phrase from `phrases` that starts at token `i`, as a token count (0 = none) */
+function phraseAt(tokens: string[], i: number, phrases: string[]) {
+  let best = 0;
+  for (const p of phrases) {
+    const pw = words(p);
+    if (pw.length > best && pw.every((w, k) => tokens[i + k] === w)) best = pw.length;
+  }
+  return best;
+}
+
+function isSizeToken(tok?: string) {
+  return !!tok && (/[/"]/.test(tok) || /^\d+(\.\d+)?(mm|cm|m|in|ml|l|kg|g)$/.test(tok));
+}
+
+/**
+ * Pull the first quantity out of the tokens ("3", "tres", "media docena",
+ * "dos docenas"), skipping numbers that are really sizes ("tres cuartos",
+ * "1/2", "2 pulgadas"). Returns its position and the remaining tokens.
+ */
+function extractQty(tokens: string[], cfg: IntentConfig): { qty?: number; at?: number; rest: string[] } {
+  for (let i = 0; i < tokens.length; i++) {
+    let n: number | undefined;
+    let len = 0;
+
+    const phraseLen = phraseAt(
+      tokens,
+      i,
+      Object.keys(cfg.numbers).filter((k) => k.includes(" "))
+    );
+    if (phraseLen) {
+      n = cfg.numbers[tokens.slice(i, i + phraseLen).join(" ")];
+      len = phraseLen;
+    } else if (/^\d+$/.test(tokens[i])) {
+      n = Number(tokens[i]);
+      len = 1;
+    } else if (tokens[i] in cfg.numbers) {
+      n = cfg.numbers[tokens[i]];
+      len = 1;
+    }
+    if (n === undefined) continue;
+
+    const next = tokens[i + len];
+    if (cfg.sizeFollowers.includes(next ?? "") || isSizeToken(tokens[i]) || isSizeToken(next)) continue;
+    if (next && next in cfg.multipliers) {
+      n *= cfg.multipliers[next];
+      len++;
+    }
+    return { qty: n, at: i, rest: [...tokens.slice(0, i), ...tokens.slice(i + len)] };
+  }
+  return { rest: tokens };
+}
+
+function itemRef(tokens: string[], cfg: IntentConfig) {
+  const out: string[] = [];
+  for (let i = 0; i < tokens.length;) {
+    const sw = phraseAt(tokens, i, cfg.stopwords);
+    // "un cuarto" is a size, not "un" + the fourth line
+    const sized = tokens[i] in cfg.numbers && cfg.sizeFollowers.includes(tokens[i + sw] ?? "");
+    if (sw && !sized) {
+      i += sw;
+      continue;
+    }
+    out.push(tokens[i++]);
+  }
+  return out.join(" ").trim() || undefined;
+}
+
+function splitClauses(text: string, cfg: IntentConfig) {
+  let parts = [text];
+  for (const sep of cfg.clauseSeparators) {
+    parts = parts.flatMap((p) => p.split(sep));
+  }
+  return parts.map((p) => p.replace(/[,;]/g, " ").trim()).filter(Boolean);
+}
+
+function parseClause(clause: string, rawClause: string, cfg: IntentConfig, inherited?: VerbType): IntentOp | null {
+  let tokens = words(clause);
+
+  // skip leading fillers ("bueno", "por favor", "y"…)
+  for (let f = phraseAt(tokens, 0, cfg.fillers); f && tokens.length; f = phraseAt(tokens, 0, cfg.fillers)) {
+    tokens = tokens.slice(f);
+  }
+  if (!tokens.length) return null;
+  // "gracias, no quiero nada más": a closing clause, not a removal of "nada"
+  if (cfg.end.includes(tokens.join(" "))) return { type: "end" };
+
+  // verb = longest known phrase at clause start, whatever its type
+  let verb: VerbType | undefined;
+  let verbLen = 0;
+  for (const type of Object.keys(cfg.verbs) as VerbType[]) {
+    const len = phraseAt(tokens, 0, cfg.verbs[type]);
+    if (len > verbLen) {
+      verb = type;
+      verbLen = len;
+    }
+  }
+  const rest = tokens.slice(verbLen);
+
+  // "el cople en vez de la unión": replacement named before the joiner
+  if (!verb) {
+    for (let i = 1; i < tokens.length; i++) {
+      const j = phraseAt(
+        tokens,
+        i,
+        cfg.replaceJoiners.filter((p) => p !== "por")
+      );
+      if (j) {
+        const { qty, rest: to } = extractQty(tokens.slice(0, i), cfg);
+        return { type: "replace", to: itemRef(to, cfg), from: itemRef(tokens.slice(i + j), cfg), qty };
+      }
+    }
+  }
+
+  if (!verb) {
+    const isQuestion = /\?/.test(rawClause) || phraseAt(tokens, 0, cfg.questionStarts) > 0;
+    if (!isQuestion && inherited && inherited !== "replace") verb = inherited;
+    // "media docena de coples": a bare quantity up front reads as an order
+    else if (!isQuestion && extractQty(tokens, cfg).at === 0) verb = "add";
+    else return { type: "ask", text: rawClause.trim() };
+  }
+
+  if (verb === "replace") {
+    // "cambia X por Y" / "en vez de X, Y" / "mejor Y"
+    const startsWithJoiner = phraseAt(tokens, 0, cfg.replaceJoiners) > 0;
+    for (let i = 0; i < rest.length; i++) {
+      const j = phraseAt(rest, i, cfg.replaceJoiners);
+      if (j) {
+        const { qty, rest: to } = extractQty(rest.slice(i + j), cfg);
+        return { type: "replace", from: itemRef(rest.slice(0, i), cfg), to: itemRef(to, cfg), qty };
+      }
+    }
+    const { qty, rest: target } = extractQty(rest, cfg);
+    return startsWithJoiner
+      ? { type: "replace", from: itemRef(target, cfg), qty }
+      : { type: "replace", to: itemRef(target, cfg), qty };
+  }
+
+  const { qty, rest: left } = extractQty(rest, cfg);
+  const item = itemRef(left, cfg);
+  if (verb === "setQty") {
+    return qty ? { type: "setQty", item, qty } : { type: "ask", text: rawClause.trim() };
+  }
+  return { type: verb, item, qty };
+}
+
+/** Parse an utterance into ordered operations. Never returns an empty list. */
+export function parseIntents(text: string, cfg: IntentConfig = DEFAULT_INTENT_CONFIG): IntentOp[] {
+  const norm = normalize(text);
+  if (!norm) return [{ type: "ask", text: "" }];
+  if (cfg.end.includes(norm)) return [{ type: "end" }];
+
+  const clauses = splitClauses(foldText(text).replace(/\s+/g, " "), cfg);
+
+  const ops: IntentOp[] = [];
+  let inherited: VerbType | undefined;
+  clauses.forEach((c) => {
+    const op = parseClause(normalize(c), c, cfg, inherited);
+    if (!op) return;
+
+    const prev = ops[ops.length - 1];
+    // "en vez del codo, la unión": a dangling replace takes the next clause as target
+    if (prev?.type === "replace" && !prev.to && op.type === "ask") {
+      prev.to = itemRef(words(normalize(c)), cfg);
+      return;
+    }
+    // "sí, agrégalo": collapse repeated bare confirmations
+    if (prev && prev.type === op.type && op.type === "add" && !op.item && !op.qty) return;
+    if (prev?.type === "add" && !prev.item && !prev.qty && op.type === "add") ops.pop();
+
+    ops.push(op);
+    if (op.type !== "ask" && op.type !== "end") inherited = op.type;
+  });
+
+  return ops.length ? ops : [{ type: "ask", text: text.trim() }];
+}
+
+/** A reference made only of stopwords or "nada": it names no line, and nothing is missing either */
+export function isEmptyRef(ref: string | undefined, cfg: IntentConfig = DEFAULT_INTENT_CONFIG) {
+  return !words(normalize(ref ?? "")).some((t) => !cfg.stopwords.includes(t) && !cfg.nothing.includes(t));
+}
+
+/** A basket line as the customer can refer to it */
+export type RefLine = { sku: string; name: string; category?: string | null; subcategory?: string | null };
+
+/**
+ * The basket lines an item reference points at, in basket order: by ordinal
+ * ("el segundo", "el último"), SKU, name words and sizes ("el de 3/4"), or
+ * else category ("la herramienta"). More than one line back means the
+ * reference is ambiguous, unless `all` ("todos los codos") says it isn't.
+ */
+export function resolveItemRef<T extends RefLine>(
+  ref: string | undefined,
+  lines: T[],
+  cfg: IntentConfig = DEFAULT_INTENT_CONFIG
+): { lines: T[]; all: boolean } {
+  const tokens = words(normalize(ref ?? ""));
+  if (isEmptyRef(ref, cfg)) return { lines: [], all: false };
+  const all = tokens.some((t) => cfg.all.includes(t));
+  const rest = tokens.filter((t) => !cfg.all.includes(t) && !cfg.stopwords.includes(t));
+
+  // "el cuarto" is a line, "el de un cuarto" a size
+  const afterNumber = (i: number) => i > 0 && (tokens[i - 1] in cfg.numbers || /^\d/.test(tokens[i - 1]));
+  const ordinal = tokens.map((t, i) => (afterNumber(i) ? undefined : cfg.ordinals[t])).find((n) => n !== undefined);
+  if (ordinal !== undefined) {
+    const line = lines[ordinal < 0 ? lines.length + ordinal : ordinal - 1];
+    return { lines: line ? [line] : [], all: false };
+  }
+  const bySku = lines.find((l) => rest.includes(foldText(l.sku)));
+  if (bySku) return { lines: [bySku], all: false };
+  if (!rest.length) return { lines: all ? lines : [], all };
+
+  // sizes as written, words without their plural ("codos" → "codo")
+  const terms = rest
+    .filter((t) => t.length >= 3 || /\d/.test(t))
+    .map((t) => (/\d/.test(t) ? t : t.replace(/(es|s)$/, "")));
+  const best = (score: (l: T) => number) => {
+    const scored = lines.map((l) => ({ l, n: score(l) }));
+    const top = Math.max(0, ...scored.map((x) => x.n));
+    return top ? scored.filter((x) => x.n === top).map((x) => x.l) : [];
+  };
+  const hits = (hay: string) => terms.filter((t) => hay.includes(t)).length;
+  const byName = best((l) => hits(foldText(`${l.name} ${l.sku}`)));
+  return {
+    lines: byName.length ? byName : best((l) => hits(foldText(`${l.category ?? ""} ${l.subcategory ?? ""}`))),
+    all,
+  };
+}
+
+export function hasIntent(ops: IntentOp[], type: IntentType) {
+  return ops.some((o) => o.type === type);
+}
+
+/** Compact label for prompts/logs: "add(codos×3) remove(cinta)" */
+export function describeIntents(ops: IntentOp[]) {
+  return ops
+    .map((o) => {
+      switch (o.type) {
+        case "add":
+        case "remove":
+          return `${o.type}(${o.item ?? "?"}${o.qty ? `×${o.qty}` : ""})`;
+        case "setQty":
+          return `setQty(${o.item ?? "?"}=${o.qty})`;
+        case "replace":
+          return `replace(${o.from ?? "?"}→${o.to ?? "?"})`;
+        case "end":
+          return "end";
+        case "ask":
+          return "ask";
+      }
+    })
+    .join(" ");
+}
@@ -0,0 +1,59 @@
+// lib/json-file.ts
+import { randomUUID } from "crypto";
+import fs from "fs";
+import path from "path";
+
+/**
+ * A JSON document on disk for the local (offline) backends. Writes are
+ * serialized within the process and land atomically (temp file + rename), so a
+ * crash mid-write never leaves a truncated file behind.
+ */
+export type JsonFile<T> = {
+  readonly file: string;
+  read(): Promise<T>;
+  /** Read-modify-write under the file's lock: `fn` mutates `doc`, its result is passed through */
+  update<R>(fn: (doc: T) => R | Promise<R>): Promise<R>;
+};
+
+// each API route is its own bundle (and dev reloads modules), so the locks hang off globalThis
+const shared = globalThis as typeof globalThis & { __kioskJsonLocks?: Map<string, Promise<unknown>> };
+const locks = (shared.__kioskJsonLocks ??= new Map<string, Promise<unknown>>());
+
+export function makeJsonFile<T>(file: string, empty: () => T): JsonFile<T> {
+  const read = async (): Promise<T> => {
+    try {
+      return JSON.parse(await fs.promises.readFile(file, "utf8")) as T;
+    } catch (e) {
+      if ((e as NodeJS.ErrnoException)?.code === "ENOENT") return empty();
+      throw e;
+    }
+  };
+
+  const write = async (doc: T) => {
+    await fs.promises.mkdir(path.dirname(file), { recursive: true });
+    // a temp file per write: two writers never share one, even across processes
+    const tmp = `${file}.${process.pid}.${randomUUID()}.tmp`;
+    await fs.promises.writeFile(tmp, JSON.stringify(doc, null, 2));
+    await fs.promises.rename(tmp, file);
+  };
+
+  return {
+    file,
+    read,
+    update(fn) {
+      const run = (locks.get(file) ?? Promise.resolve()).then(async () => {
+        const doc = await read();
+        const out = await fn(doc);
+        await write(doc);
+        return out;
+      });
+      locks.set(file, run.catch(() => undefined));
+      return run;
+    },
+  };
+}
+
+/** Where local backends keep their files (DATA_DIR, default .data/) */
+export function dataPath(name: string) {
+  return path.join(process.env.DATA_DIR || path.join(process.cwd(), ".data"), name);
+}
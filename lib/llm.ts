@@ -1,20 +1,51 @@
 // lib/llm.ts
+import fs from "fs";
 import { GoogleGenerativeAI } from "@google/generative-ai";
+import OpenAI from "openai";
 
-export type ChatMsg = { role: "system" | "user" | "assistant"; content: string };
+/**
+ * Conversation messages. An assistant turn may carry tool calls; each call is
+ * answered by a "tool" message with the result (JSON text) under the call's id.
+ */
+export type ChatMsg =
+  | { role: "system" | "user"; content: string }
+  | { role: "assistant"; content: string; tool_calls?: ToolCall[] }
+  | { role: "tool"; content: string; tool_call_id: string; name: string };
 export type ToolSchema = {
   name: string;
   description: string;
   parameters: any; // JSON Schema
 };
 
+export type ToolCall = { id?: string; type: "function"; function: { name: string; arguments: string } };
+
+// Normalized OpenAI-like response shape, whatever the provider
+export type ChatResult = {
+  choices: { message: { content: string; tool_calls?: ToolCall[] } }[];
+};
+
+export type ChatArgs = {
+  messages: ChatMsg[];
+  tools?: ToolSchema[];
+  toolChoice?: "auto";
+  temperature?: number;
+  /** "json" (default) asks the provider for a JSON-only answer */
+  format?: "json" | "text";
+};
+
 export interface LLM {
-  chat(args: {
-    messages: ChatMsg[];
-    tools?: ToolSchema[];
-    toolChoice?: "auto";
-    temperature?: number;
-  }): Promise<any>; // normalized OpenAI-like shape
+  chat(args: ChatArgs): Promise<ChatResult>;
+  /** Text as it is generated (no tool calls); providers without it are read with chat() */
+  stream?(args: ChatArgs): AsyncIterable<string>;
+}
+
+export type LLMOptions = { provider?: string; model?: string };
+export type LLMFactory = (opts: { model?: string }) => LLM;
+
+function result(content: string, toolCalls: ToolCall[] = []): ChatResult {
+  return {
+    choices: [{ message: { content, tool_calls: toolCalls.length ? toolCalls : undefined } }],
+  };
 }
 
 // Convert our ToolSchema[] into Gemini's Tool[] shape
@@ -31,49 +62,75 @@ function toGeminiTools(tools?: ToolSchema[]) {
   ];
 }
 
-export function makeLLM(): LLM {
-  const provider = process.env.LLM_PROVIDER ?? "gemini";
-  const modelName = process.env.LLM_MODEL ?? "gemini-1.5-flash";
-  if (provider !== "gemini") throw new Error("This build is configured for Gemini");
-
-  const genAI = new GoogleGenerativeAI(process.env.GEMINI_API_KEY!);
-  const model = genAI.getGenerativeModel({ model: modelName });
+// ---------- Gemini ----------
+const parseArgs = (json: string) => {
+  try {
+    const v = JSON.parse(json || "{}");
+    return v && typeof v === "object" ? v : { value: v };
+  } catch {
+    return { value: json };
+  }
+};
 
-  return {
-    async chat({ messages, tools, temperature = 0.4 }) {
-      const contents = messages.map((m) => ({
-        role: m.role === "assistant" ? "model" : "user",
-        parts: [{ text: m.content }],
+// tool calls become functionCall parts; consecutive tool results share one "function" turn
+function toGeminiContents(messages: ChatMsg[]) {
+  const contents: { role: string; parts: object[] }[] = [];
+  for (const m of messages) {
+    if (m.role === "tool") {
+      const part = { functionResponse: { name: m.name, response: { result: parseArgs(m.content) } } };
+      const last = contents[contents.length - 1];
+      if (last?.role === "function") last.parts.push(part);
+      else contents.push({ role: "function", parts: [part] });
+    } else if (m.role === "assistant") {
+      const calls = (m.tool_calls ?? []).map((c) => ({
+        functionCall: { name: c.function.name, args: parseArgs(c.function.arguments) },
       }));
+      contents.push({ role: "model", parts: [...(m.content ? [{ text: m.content }] : []), ...calls] });
+    } else contents.push({ role: "user", parts: [{ text: m.content }] });
+  }
+  return contents;
+}
 
-      const req: any = {
-        contents,
-        generationConfig: {
-          temperature,
-          responseMimeType: "application/json",
-        },
-      };
+function toGeminiRequest({ messages, tools, temperature = 0.4, format = "json" }: ChatArgs) {
+  const contents = toGeminiContents(messages);
 
-      const geminiTools = toGeminiTools(tools);
-      if (geminiTools) {
-        req.tools = geminiTools;
-        req.toolConfig = { functionCallingConfig: { mode: "AUTO" } };
-      }
+  const req: any = {
+    contents,
+    generationConfig: {
+      temperature,
+      ...(format === "json" ? { responseMimeType: "application/json" } : {}),
+    },
+  };
+
+  const geminiTools = toGeminiTools(tools);
+  if (geminiTools) {
+    req.tools = geminiTools;
+    req.toolConfig = { functionCallingConfig: { mode: "AUTO" } };
+  }
+  return req;
+}
 
-      const result = await model.generateContent(req);
+const makeGeminiLLM: LLMFactory = ({ model: modelName = "gemini-1.5-flash" }) => {
+  const genAI = new GoogleGenerativeAI(process.env.GEMINI_API_KEY!);
+  const model = genAI.getGenerativeModel({ model: modelName });
+
+  return {
+    async chat(args) {
+      const res = await model.generateContent(toGeminiRequest(args));
 
       // Normalize response to OpenAI-like shape:
       // - message.content: text
       // - message.tool_calls: [{ type:"function", function:{ name, arguments }}]
-      const cand = result.response?.candidates?.[0];
+      const cand = res.response?.candidates?.[0];
       const parts = cand?.content?.parts ?? [];
       let textOut = "";
-      const toolCalls: any[] = [];
+      const toolCalls: ToolCall[] = [];
 
-      for (const p of parts as any[]) {
+      for (const p of parts) {
         if (p.text) textOut += p.text;
         if (p.functionCall) {
           toolCalls.push({
+            id: `call_${toolCalls.length}`,
             type: "function",
             function: {
               name: p.functionCall.name,
@@ -83,16 +140,281 @@ export function makeLLM(): LLM {
         }
       }
 
+      return result(textOut, toolCalls);
+    },
+
+    async *stream(args) {
+      const res = await model.generateContentStream(toGeminiRequest({ ...args, tools: undefined }));
+      for await (const chunk of res.stream) {
+        const text = chunk.candidates?.[0]?.content?.parts?.map((p) => p.text ?? "").join("") ?? "";
+        if (text) yield text;
+      }
+    },
+  };
+};
+
+// ---------- OpenAI / OpenAI-compatible (llama.cpp server, vLLM, Ollama…) ----------
+function toOpenAIMessages(messages: ChatMsg[]): OpenAI.Chat.ChatCompletionMessageParam[] {
+  return messages.map((m) => {
+    if (m.role === "tool") return { role: "tool", tool_call_id: m.tool_call_id, content: m.content };
+    if (m.role === "assistant" && m.tool_calls?.length) {
       return {
-        choices: [
-          {
-            message: {
-              content: textOut || "",
-              tool_calls: toolCalls.length ? toolCalls : undefined,
-            },
-          },
-        ],
+        role: "assistant",
+        content: m.content || null,
+        tool_calls: m.tool_calls.map((c, i) => ({
+          id: c.id ?? `call_${i}`,
+          type: "function" as const,
+          function: c.function,
+        })),
       };
+    }
+    return { role: m.role, content: m.content };
+  });
+}
+
+const makeOpenAILLM: LLMFactory = ({ model = "gpt-4o-mini" }) => {
+  const client = new OpenAI({
+    // local servers usually ignore the key, but the SDK refuses to start without one
+    apiKey: process.env.OPENAI_API_KEY || "no-key",
+    baseURL: process.env.LLM_BASE_URL || undefined,
+  });
+
+  return {
+    async chat({ messages, tools, toolChoice, temperature = 0.4, format = "json" }) {
+      const res = await client.chat.completions.create({
+        model,
+        temperature,
+        messages: toOpenAIMessages(messages),
+        ...(tools?.length
+          ? {
+              tools: tools.map((t) => ({
+                type: "function" as const,
+                function: { name: t.name, description: t.description, parameters: t.parameters },
+              })),
+              tool_choice: toolChoice ?? "auto",
+            }
+          : {}),
+        ...(format === "json" ? { response_format: { type: "json_object" as const } } : {}),
+      });
+
+      const msg = res.choices?.[0]?.message;
+      const toolCalls: ToolCall[] = [];
+      for (const tc of msg?.tool_calls ?? []) {
+        if (tc.type === "function") {
+          toolCalls.push({
+            id: tc.id,
+            type: "function",
+            function: { name: tc.function.name, arguments: tc.function.arguments || "{}" },
+          });
+        }
+      }
+      return result(msg?.content || "", toolCalls);
+    },
+
+    async *stream({ messages, temperature = 0.4, format = "json" }) {
+      const chunks = await client.chat.completions.create({
+        model,
+        temperature,
+        stream: true,
+        messages: toOpenAIMessages(messages),
+        ...(format === "json" ? { response_format: { type: "json_object" as const } } : {}),
+      });
+      for await (const chunk of chunks) {
+        const text = chunk.choices?.[0]?.delta?.content;
+        if (text) yield text;
+      }
+    },
+  };
+};
+
+// ---------- Scripted (deterministic, offline) ----------
+export type ScriptStep = string | object | ((messages: ChatMsg[], tools?: ToolSchema[]) => string | object);
+
+/** A script step that calls tools instead of answering: { "tool_calls": [{ "name", "arguments": {…} }] } */
+type ScriptedToolCalls = { content?: string; tool_calls: { name: string; arguments?: unknown }[] };
+
+const SCRIPTED_CHUNK = 16;
+
+/**
+ * Returns the script steps in order, one per chat() call. When the script is
+ * exhausted (or empty) it falls back to `defaultScriptedReply`, which picks
+ * cart ops from the CANDIDATES / CLIENT_CART found in the prompt, or with tools
+ * offered, to `defaultScriptedToolStep`. No network.
+ * stream() yields the same step in small chunks.
+ */
+export function makeScriptedLLM(script: ScriptStep[] = []): LLM {
+  let i = 0;
+  const next = (messages: ChatMsg[], tools?: ToolSchema[]) => {
+    const fallback = tools?.length ? defaultScriptedToolStep : defaultScriptedReply;
+    const step = i < script.length ? script[i++] : fallback;
+    return typeof step === "function" ? step(messages, tools) : step;
+  };
+  const text = (out: string | object) => (typeof out === "string" ? out : JSON.stringify(out));
+  return {
+    async chat({ messages, tools }) {
+      const out = next(messages, tools);
+      if (typeof out === "object" && Array.isArray((out as ScriptedToolCalls).tool_calls)) {
+        const { content = "", tool_calls } = out as ScriptedToolCalls;
+        return result(
+          content,
+          tool_calls.map((c, k) => ({
+            id: `call_${k}`,
+            type: "function",
+            function: { name: c.name, arguments: JSON.stringify(c.arguments ?? {}) },
+          }))
+        );
+      }
+      return result(text(out));
+    },
+    // same answer in small pieces, like a provider's token stream
+    async *stream({ messages }) {
+      const out = text(next(messages));
+      for (let at = 0; at < out.length; at += SCRIPTED_CHUNK) {
+        await new Promise((resolve) => setTimeout(resolve, 0));
+        yield out.slice(at, at + SCRIPTED_CHUNK);
+      }
     },
   };
-}
\ No newline at end of file
+}
+
+type PromptRow = {
+  sku: string; name?: string; qty?: number;
+  price?: number; currency?: string; stock?: number; image_url?: string;
+};
+
+// Pull the JSON array that follows the LAST `marker` in the prompt (rules mention it earlier)
+function jsonAfter(text: string, marker: string): PromptRow[] {
+  const at = text.lastIndexOf(marker);
+  if (at < 0) return [];
+  const start = text.indexOf("[", at);
+  if (start < 0) return [];
+  let depth = 0;
+  for (let j = start; j < text.length; j++) {
+    if (text[j] === "[") depth++;
+    else if (text[j] === "]" && --depth === 0) {
+      try {
+        const arr = JSON.parse(text.slice(start, j + 1));
+        return Array.isArray(arr) ? arr : [];
+      } catch {
+        return [];
+      }
+    }
+  }
+  return [];
+}
+
+/**
+ * Offline stand-in for the classic agent model: with an empty cart, or when
+ * the customer is adding, it adds the first in-stock candidate the cart
+ * lacks; asked to swap the only line, it replaces it; otherwise no ops.
+ */
+export function defaultScriptedReply(messages: ChatMsg[]) {
+  const prompt = messages.map((m) => m.content).join("\n");
+  const candidates = jsonAfter(prompt, "CANDIDATES");
+  const cart = jsonAfter(prompt, "CLIENT_CART");
+  const intent = /INTENCIÓN: (\w+)/.exec(prompt.slice(prompt.lastIndexOf("INTENCIÓN:")))?.[1];
+
+  const fresh = candidates.filter((c) => !cart.some((ci) => ci.sku === c.sku));
+  const pick = fresh.find((c) => Number(c.stock) > 0) || (cart.length ? undefined : fresh[0]);
+  const why = "Coincide con lo que buscas.";
+  const ops = !pick
+    ? []
+    : !cart.length || intent === "AGREGAR"
+      ? [{ type: "add", sku: pick.sku, qty: 1, why }]
+      : intent === "REEMPLAZO" && cart.length === 1
+        ? [{ type: "replace", sku: cart[0].sku, with: pick.sku, why }]
+        : [];
+
+  return {
+    reply: ops.length
+      ? `Te sugiero **${pick!.name}**. ¿Algo más?`
+      : cart.length
+        ? "Listo. ¿Algo más?"
+        : "¿Me das un poco más de detalle (material y medida)?",
+    ops,
+    plan: {
+      title: ops.length || cart.length ? "Sugerencia" : "Necesito más detalles",
+      steps: ops.length || cart.length
+        ? ["Revisa los artículos sugeridos", "Ajusta cantidades si hace falta", "Confirma tu pedido"]
+        : ["Indica material", "Indica medida", "Describe el uso"],
+      upsell: [],
+      confirm: "¿Deseas algo más? Si está todo, pulsa **Confirmar e imprimir**.",
+    },
+  };
+}
+
+/**
+ * Offline stand-in for a tool-calling model: searches for the customer's last
+ * message, adds the first in-stock hit to the cart, then answers in the
+ * { reply, plan } format. Enough to demo the tool loop without a provider.
+ */
+export function defaultScriptedToolStep(messages: ChatMsg[], tools: ToolSchema[] = []) {
+  const has = (name: string) => tools.some((t) => t.name === name);
+  const lastUser = messages.map((m) => m.role).lastIndexOf("user");
+  const since = messages.slice(lastUser + 1);
+  const results = (name: string) =>
+    since.flatMap((m) => (m.role === "tool" && m.name === name ? [JSON.parse(m.content || "null")] : []));
+
+  if (has("search_products") && !results("search_products").length) {
+    return { tool_calls: [{ name: "search_products", arguments: { query: messages[lastUser]?.content ?? "" } }] };
+  }
+  const hits: PromptRow[] = results("search_products").flatMap((r) =>
+    Array.isArray(r?.products) ? r.products : []
+  );
+  const pick = hits.find((h) => Number(h.stock) > 0);
+  const added = results("add_to_cart");
+  if (pick && has("add_to_cart") && !added.length) {
+    const args = { sku: pick.sku, qty: 1, why: "Coincide con lo que buscas." };
+    return { tool_calls: [{ name: "add_to_cart", arguments: args }] };
+  }
+
+  const ok = pick && added.some((a) => a?.ok);
+  return {
+    reply: ok
+      ? `Agregué **${pick.name}** a tu canasta. ¿Algo más?`
+      : "¿Me das un poco más de detalle (material y medida)?",
+    plan: {
+      title: ok ? "Sugerencia" : "Necesito más detalles",
+      steps: ok
+        ? ["Revisa los artículos sugeridos", "Ajusta cantidades si hace falta", "Confirma tu pedido"]
+        : ["Indica material", "Indica medida", "Describe el uso"],
+      upsell: [],
+      confirm: "¿Deseas algo más? Si está todo, pulsa **Confirmar e imprimir**.",
+    },
+  };
+}
+
+const makeScriptedFromEnv: LLMFactory = () => {
+  const file = process.env.LLM_SCRIPT;
+  const script: ScriptStep[] = file ? JSON.parse(fs.readFileSync(file, "utf8")) : [];
+  return makeScriptedLLM(script);
+};
+
+// ---------- Registry ----------
+const providers = new Map<string, LLMFactory>([
+  ["gemini", makeGeminiLLM],
+  ["openai", makeOpenAILLM],
+  ["scripted", makeScriptedFromEnv],
+]);
+
+/** Register (or override) a provider, e.g. a store-specific gateway. */
+export function registerLLMProvider(name: string, factory: LLMFactory) {
+  providers.set(name, factory);
+}
+
+/**
+ * Provider and model come from LLM_PROVIDER / LLM_MODEL unless passed in,
+ * so each store can switch models through its environment only.
+ * - gemini:   GEMINI_API_KEY
+ * - openai:   OPENAI_API_KEY, optional LLM_BASE_URL for compatible servers
+ * - scripted: optional LLM_SCRIPT (JSON array of responses)
+ */
+export function makeLLM(opts: LLMOptions = {}): LLM {
+  const provider = opts.provider ?? process.env.LLM_PROVIDER ?? "gemini";
+  const model = opts.model ?? process.env.LLM_MODEL ?? undefined;
+  const factory = providers.get(provider);
+  if (!factory) {
+    throw new Error(`Unknown LLM_PROVIDER "${provider}" (available: ${Array.from(providers.keys()).join(", ")})`);
+  }
+  return factory({ model });
+}
@@ -0,0 +1,238 @@
+// lib/measure.ts
+import type { Product } from "@/lib/catalog";
+
+/**
+ * Hardware dimensions out of free text ("codo de media", "tubo 3/4\" x 6 m",
+ * "cable calibre 12", "rosca NPT", "pegamento 240 ml") as structured filters,
+ * and matching of those filters against a product's `specs` (and its name).
+ *
+ * Linear sizes are kept in mm so 1/2" and 13 mm compare equal within tolerance.
+ * Bare fractions are inches (hardware convention). "media"/"cuarto" only count
+ * as sizes in sizing phrases ("de media", "media pulgada", "un cuarto de pulgada"),
+ * never in "media docena" or "el cuarto de servicio".
+ */
+export type MeasureKind = "diameter" | "length" | "volume" | "gauge" | "thread";
+
+export type Measure =
+  | { kind: "diameter" | "length"; mm: number; maxMm?: number; text: string }
+  | { kind: "volume"; ml: number; text: string }
+  | { kind: "gauge"; gauge: number; text: string }
+  | { kind: "thread"; standard: string; text: string };
+
+export type MeasureMatch = "match" | "mismatch" | "unknown";
+
+const MM_PER_INCH = 25.4;
+const LINEAR_TOLERANCE = 0.06; // 1/2" = 12.7 mm ≈ "13 mm" nominal PVC
+const VOLUME_TOLERANCE = 0.05;
+
+const fold = (s: string) => (s || "").toLowerCase().normalize("NFD").replace(/\p{Diacritic}/gu, "");
+const num = (s: string) => Number(s.replace(",", "."));
+const round = (n: number) => Math.round(n * 100) / 100;
+
+const INCH = `(?:"|''|”|pulgadas?|pulg\\.?|in\\b)`;
+const WORD_INCHES: [RegExp, number][] = [
+  [/\bpulgada y media\b/g, 1.5],
+  [/\bpulgada y cuarto\b/g, 1.25],
+  [/\b(?:una|1) pulgada\b/g, 1],
+  [/\bdos pulgadas\b/g, 2],
+  [/\btres cuartos(?: de pulgada)?\b/g, 0.75],
+  [/\btres octavos(?: de pulgada)?\b/g, 0.375],
+  [/\bcinco octavos(?: de pulgada)?\b/g, 0.625],
+  [/\bun octavo de pulgada\b/g, 0.125],
+  [/\bun cuarto de pulgada\b|\bde (?:un )?cuarto\b(?! de (?!pulg))/g, 0.25],
+  [/\bmedia pulgada\b|\bde media\b(?! docena)/g, 0.5],
+];
+
+type Hint = "length" | undefined;
+
+/**
+ * Parse every measure in `text`. `hint: "length"` reads linear values as
+ * lengths (e.g. a spec field called "longitud").
+ */
+export function parseMeasures(text: string, hint?: Hint): Measure[] {
+  let s = ` ${fold(text)} `;
+  const out: Measure[] = [];
+  // consume each match so "1-1/4\"" isn't read again as "1/4\""
+  const take = (re: RegExp, fn: (m: RegExpExecArray) => Measure | Measure[] | null) => {
+    s = s.replace(re, (...args) => {
+      const m = args.slice(0, -2) as unknown as RegExpExecArray;
+      const r = fn(m);
+      if (r) out.push(...(Array.isArray(r) ? r : [r]));
+      return " ";
+    });
+  };
+  const linear = (inchesOrMm: number, unit: "in" | "mm", t: string, lengthy = false): Measure => ({
+    kind: hint === "length" || lengthy ? "length" : "diameter",
+    mm: round(unit === "in" ? inchesOrMm * MM_PER_INCH : inchesOrMm),
+    text: t.trim(),
+  });
+
+  take(/\b(?:rosca\s+)?(npt|nps|bsp|bspt|unc|unf)\b/g, (m) => ({ kind: "thread", standard: m[1].toUpperCase(), text: m[0] }));
+  take(/(?:\bcalibre|\bcal\.?|\bawg|#)\s*(\d{1,2})\b/g, (m) => ({ kind: "gauge", gauge: Number(m[1]), text: m[0] }));
+
+  // ranges: 1/8" - 1-1/8", 1/2 a 1"
+  take(
+    new RegExp(`(\\d+(?:-\\d+/\\d+)?|\\d+/\\d+)\\s*${INCH}?\\s+(?:-|a)\\s+(\\d+(?:-\\d+/\\d+)?|\\d+/\\d+)\\s*${INCH}`, "g"),
+    (m) => {
+      const a = fracToInches(m[1]);
+      const b = fracToInches(m[2]);
+      return { kind: "diameter", mm: round(a * MM_PER_INCH), maxMm: round(b * MM_PER_INCH), text: m[0].trim() };
+    }
+  );
+  // 1-1/4", 1 1/4"
+  take(new RegExp(`\\b(\\d+)(?:-|\\s)(\\d+)/(\\d+)\\s*${INCH}`, "g"), (m) =>
+    linear(Number(m[1]) + Number(m[2]) / Number(m[3]), "in", m[0])
+  );
+  take(/\b(\d+)-(\d+)\/(\d+)\b/g, (m) => linear(Number(m[1]) + Number(m[2]) / Number(m[3]), "in", m[0]));
+  // 1/2", 3/4 (bare fractions are inches)
+  take(new RegExp(`\\b(\\d+)/(\\d+)\\s*${INCH}?`, "g"), (m) =>
+    Number(m[2]) ? linear(Number(m[1]) / Number(m[2]), "in", m[0]) : null
+  );
+  // 2", 0.5 pulgadas
+  take(new RegExp(`\\b(\\d+(?:[.,]\\d+)?)\\s*${INCH}`, "g"), (m) => linear(num(m[1]), "in", m[0]));
+  // metric
+  take(/\b(\d+(?:[.,]\d+)?)\s*(mm|cm)\b(\s+de largo)?/g, (m) =>
+    linear(num(m[1]) * (m[2] === "cm" ? 10 : 1), "mm", m[0], !!m[3])
+  );
+  take(/\b(\d+(?:[.,]\d+)?)\s*(?:m|mts?|metros?)\b/g, (m) => linear(num(m[1]) * 1000, "mm", m[0], true));
+  take(/\b(\d+(?:[.,]\d+)?)\s*(ml|l|lts?|litros?|gal|galon|galones)\b/g, (m) => {
+    const n = num(m[1]);
+    const ml = m[2] === "ml" ? n : m[2].startsWith("gal") ? n * 3785.41 : n * 1000;
+    return { kind: "volume", ml: round(ml), text: m[0] };
+  });
+  for (const [re, inches] of WORD_INCHES) take(re, (m) => linear(inches, "in", m[0]));
+
+  return out;
+}
+
+function fracToInches(t: string) {
+  const mixed = t.match(/^(\d+)-(\d+)\/(\d+)$/);
+  if (mixed) return Number(mixed[1]) + Number(mixed[2]) / Number(mixed[3]);
+  const frac = t.match(/^(\d+)\/(\d+)$/);
+  if (frac) return Number(frac[1]) / Number(frac[2]);
+  return Number(t);
+}
+
+/** 12.7 mm → "1/2", 31.75 → "1-1/4"; null when it isn't a common inch size */
+export function toInchFraction(mm: number) {
+  const inches = mm / MM_PER_INCH;
+  for (const den of [1, 2, 4, 8, 16]) {
+    const n = Math.round(inches * den);
+    if (n > 0 && Math.abs(n / den - inches) < 0.004) {
+      const whole = Math.floor(n / den);
+      const rest = n % den;
+      const g = gcd(rest, den);
+      const frac = rest ? `${rest / g}/${den / g}` : "";
+      return whole ? (frac ? `${whole}-${frac}` : `${whole}`) : frac;
+    }
+  }
+  return null;
+}
+
+function gcd(a: number, b: number): number {
+  return b ? gcd(b, a % b) : a;
+}
+
+/** Search terms that spell the sizes the way product names do ("1/2", "3/4") */
+export function measureTerms(measures: Measure[]) {
+  return measures.flatMap((m) => {
+    if (m.kind !== "diameter" || m.maxMm) return [];
+    const f = toInchFraction(m.mm);
+    return f ? [f] : [];
+  });
+}
+
+export function describeMeasure(m: Measure) {
+  switch (m.kind) {
+    case "diameter": {
+      const size = (mm: number) => {
+        const inch = toInchFraction(mm);
+        return inch ? `${inch}" (${mm} mm)` : `${mm} mm`;
+      };
+      return `medida ${size(m.mm)}${m.maxMm ? ` a ${size(m.maxMm)}` : ""}`;
+    }
+    case "length":
+      return `largo ${m.mm >= 1000 ? `${round(m.mm / 1000)} m` : `${m.mm} mm`}`;
+    case "volume":
+      return m.ml >= 1000 ? `${round(m.ml / 1000)} L` : `${m.ml} ml`;
+    case "gauge":
+      return `calibre ${m.gauge}`;
+    case "thread":
+      return `rosca ${m.standard}`;
+  }
+}
+
+// ---------- Products ----------
+const LENGTH_KEYS = /^(longitud|largo|length|long)$/;
+const SKIP_KEYS = /^(piezas|pzas|cedula|angulo|rendimiento|peso|compatible|apertura_max|felpa)$/;
+
+/** Measures a product declares: specs first, then whatever its name spells out */
+export function productMeasures(p: Pick<Product, "name" | "specs">): Measure[] {
+  const out: Measure[] = [];
+  for (const [k, v] of Object.entries(p.specs ?? {})) {
+    const key = fold(k);
+    if (SKIP_KEYS.test(key) || (typeof v !== "string" && typeof v !== "number")) continue;
+    const value = String(v);
+    if (/^(rosca|thread)$/.test(key) && /^[a-z]+$/i.test(value.trim())) {
+      out.push({ kind: "thread", standard: value.trim().toUpperCase(), text: value });
+      continue;
+    }
+    if (/^(calibre|gauge|awg)$/.test(key)) {
+      const g = value.match(/\d+/);
+      if (g) out.push({ kind: "gauge", gauge: Number(g[0]), text: value });
+      continue;
+    }
+    out.push(...parseMeasures(value, LENGTH_KEYS.test(key) ? "length" : undefined));
+  }
+  out.push(...parseMeasures(p.name || ""));
+  return out;
+}
+
+function sameMeasure(want: Measure, have: Measure) {
+  if (want.kind !== have.kind) return false;
+  switch (want.kind) {
+    case "diameter":
+    case "length": {
+      const h = have as typeof want;
+      const tol = Math.max(1, want.mm * LINEAR_TOLERANCE);
+      if (h.maxMm) return want.mm >= h.mm - tol && want.mm <= h.maxMm + tol;
+      return Math.abs(h.mm - want.mm) <= tol;
+    }
+    case "volume":
+      return Math.abs((have as typeof want).ml - want.ml) <= want.ml * VOLUME_TOLERANCE;
+    case "gauge":
+      return (have as typeof want).gauge === want.gauge;
+    case "thread":
+      return (have as typeof want).standard === want.standard;
+  }
+}
+
+/**
+ * "match" when every filter is satisfied, "mismatch" when the product declares
+ * that dimension with a different value, "unknown" when it doesn't declare it.
+ */
+export function matchMeasures(filters: Measure[], p: Pick<Product, "name" | "specs">): MeasureMatch {
+  if (!filters.length) return "match";
+  const have = productMeasures(p);
+  let unknown = false;
+  for (const f of filters) {
+    const sameKind = have.filter((h) => h.kind === f.kind);
+    if (!sameKind.length) unknown = true;
+    else if (!sameKind.some((h) => sameMeasure(f, h))) return "mismatch";
+  }
+  return unknown ? "unknown" : "match";
+}
+
+/**
+ * Drop size mismatches, but only when something still fits: better to show a
+ * near miss than nothing. Order is preserved.
+ */
+export function filterByMeasures<T extends Pick<Product, "name" | "specs">>(products: T[], filters: Measure[]) {
+  if (!filters.length) return { kept: products, dropped: [] as T[] };
+  const verdicts = products.map((p) => matchMeasures(filters, p));
+  if (!verdicts.some((v) => v !== "mismatch")) return { kept: products, dropped: [] as T[] };
+  return {
+    kept: products.filter((_, i) => verdicts[i] !== "mismatch"),
+    dropped: products.filter((_, i) => verdicts[i] === "mismatch"),
+  };
+}
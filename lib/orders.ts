@@ -0,0 +1,444 @@
+// lib/orders.ts
+import { randomUUID } from "crypto";
+import type { CatalogRepository } from "@/lib/catalog";
+import { dataPath, makeJsonFile } from "@/lib/json-file";
+import type { PlanLine } from "@/lib/plan";
+import { AppliedPromotion, applyPromotions, discountsBySku } from "@/lib/promotions";
+import { findAlternatives, ReservationStore, Shortfall } from "@/lib/reservations";
+import { computeTotals, roundMoney, TaxBreakdown } from "@/lib/totals";
+
+/**
+ * Orders placed at the kiosk. Lines are re-priced from the catalog on the
+ * server (client prices are never trusted) and each order gets a sequential
+ * number per kiosk, printed as a ticket like "K1-0042" that the register can
+ * look up. Placing an order holds its stock (lib/reservations) until the
+ * hold expires or the order is cancelled.
+ */
+export type OrderLine = {
+  sku: string;
+  name: string;
+  qty: number;
+  unit_price: number;
+  /** unit_price × qty, before promotions */
+  line_total: number;
+  discount: number;
+  currency: string;
+  category: string | null;
+  tax_rate: number;
+  /** shelf location when the order was placed, printed on the ticket (lib/wayfinding) */
+  location: string | null;
+};
+
+export type OrderStatus = "placed" | "cancelled";
+
+export type Order = {
+  id: string;
+  kiosk_id: string;
+  number: number;
+  conversation_id: string | null;
+  status: OrderStatus;
+  currency: string;
+  /** before tax and after promotions; subtotal + tax = total (lib/totals) */
+  subtotal: number;
+  discount: number;
+  promotions: AppliedPromotion[];
+  tax: number;
+  total: number;
+  taxes: TaxBreakdown[];
+  lines: OrderLine[];
+  reservation_id: string | null;
+  reserved_until: string | null;
+  created_at: string;
+  updated_at: string;
+};
+
+export type NewOrder = Omit<Order, "id" | "number" | "created_at" | "updated_at">;
+
+export type OrderItem = { sku: string; qty?: number };
+
+export type PriceResult =
+  | ({ ok: true; lines: OrderLine[] } & Pick<
+      Order,
+      "currency" | "subtotal" | "discount" | "promotions" | "tax" | "total" | "taxes"
+    >)
+  | { ok: false; error: string; skus?: string[] };
+
+/** A line the shelf can't cover, with in-stock alternatives to offer */
+export type OrderShortfall = Shortfall & { name: string; alternatives: PlanLine[] };
+
+export type PlaceOrderResult =
+  | { ok: true; order: Order }
+  | (Extract<PriceResult, { ok: false }> & { shortfalls?: OrderShortfall[] });
+
+export const MAX_LINE_QTY = 999;
+export const DEFAULT_KIOSK_ID = "K1";
+
+const KIOSK_ID = /^[A-Za-z0-9_-]{1,32}$/;
+
+/** The kiosk a request speaks for (KIOSK_ID env, then "K1"), uppercased; null when malformed */
+export function resolveKioskId(raw?: string | null) {
+  const kiosk = (raw || process.env.KIOSK_ID || DEFAULT_KIOSK_ID).toUpperCase();
+  return KIOSK_ID.test(kiosk) ? kiosk : null;
+}
+
+/**
+ * Storage for orders. `create` assigns id, number and timestamps; numbers
+ * increase per kiosk and are never reused.
+ */
+export interface OrderStore {
+  readonly provider: string;
+  create(order: NewOrder): Promise<Order>;
+  get(id: string): Promise<Order | null>;
+  findByNumber(kioskId: string, number: number): Promise<Order | null>;
+  list(opts?: { kioskId?: string; limit?: number }): Promise<Order[]>;
+  setStatus(id: string, status: OrderStatus): Promise<Order | null>;
+}
+
+/** Ticket label: kiosk + zero-padded number ("K1-0042") */
+export function formatOrderNumber(o: Pick<Order, "kiosk_id" | "number">) {
+  return `${o.kiosk_id}-${String(o.number).padStart(4, "0")}`;
+}
+
+/** "K1-0042" → { kioskId: "K1", number: 42 }; null when it isn't a ticket label */
+export function parseOrderNumber(label: string) {
+  const m = String(label || "").trim().match(/^(.+)-(\d+)$/);
+  return m ? { kioskId: m[1], number: Number(m[2]) } : null;
+}
+
+const UUID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/** Look an order up by id or by ticket label as typed at the register ("k1-0042") */
+export async function findOrder(store: OrderStore, ref: string) {
+  const ticket = UUID.test(ref) ? null : parseOrderNumber(ref.toUpperCase());
+  return ticket ? store.findByNumber(ticket.kioskId, ticket.number) : store.get(ref);
+}
+
+/**
+ * Catalog prices, active promotions and taxes for the requested items. Repeated SKUs are merged;
+ * unknown SKUs, bad quantities or mixed currencies (unless data/tax.json
+ * converts them) reject the whole order.
+ */
+export async function priceOrder(
+  catalog: CatalogRepository,
+  items: OrderItem[],
+  now = new Date()
+): Promise<PriceResult> {
+  if (!Array.isArray(items) || !items.length) return { ok: false, error: "El pedido no tiene artículos." };
+
+  const qtyBySku = new Map<string, number>();
+  for (const it of items) {
+    const qty = Number(it?.qty ?? 1);
+    if (!it?.sku || !Number.isInteger(qty) || qty < 1) {
+      return { ok: false, error: "Cantidad inválida.", skus: it?.sku ? [it.sku] : undefined };
+    }
+    qtyBySku.set(it.sku, (qtyBySku.get(it.sku) ?? 0) + qty);
+  }
+  const tooMany = Array.from(qtyBySku).filter(([, q]) => q > MAX_LINE_QTY).map(([s]) => s);
+  if (tooMany.length) return { ok: false, error: `Máximo ${MAX_LINE_QTY} piezas por artículo.`, skus: tooMany };
+
+  const products = new Map((await catalog.getBySkus(Array.from(qtyBySku.keys()))).map((p) => [p.sku, p]));
+  const unknown = Array.from(qtyBySku.keys()).filter((s) => !products.has(s));
+  if (unknown.length) return { ok: false, error: "Hay artículos que ya no están en el catálogo.", skus: unknown };
+
+  const basket = Array.from(qtyBySku, ([sku, qty]) => {
+    const p = products.get(sku)!;
+    return { sku, qty, price: Number(p.price), currency: p.currency, category: p.category };
+  });
+  let promotions: AppliedPromotion[] = [];
+  try {
+    promotions = applyPromotions(await catalog.getPromotions(), basket, now);
+  } catch (e) {
+    console.warn("orders: promotions skipped:", (e as Error)?.message);
+  }
+  const off = discountsBySku(promotions);
+  const priced = computeTotals(basket.map((l) => ({ ...l, discount: off.get(l.sku) ?? 0 })));
+  if (!priced.ok) return { ok: false, error: priced.error, skus: Array.from(qtyBySku.keys()) };
+
+  const t = priced.totals;
+  const lines: OrderLine[] = t.lines.map((l) => {
+    const p = products.get(l.sku)!;
+    return {
+      sku: l.sku,
+      name: p.name,
+      qty: l.qty,
+      unit_price: l.unit,
+      line_total: roundMoney(l.unit * l.qty),
+      discount: l.discount,
+      currency: t.currency,
+      category: p.category ?? null,
+      tax_rate: l.rate,
+      location: p.location ?? null,
+    };
+  });
+  return {
+    ok: true,
+    lines,
+    currency: t.currency,
+    subtotal: t.subtotal,
+    discount: t.discount,
+    promotions,
+    tax: t.tax,
+    total: t.total,
+    taxes: t.taxes,
+  };
+}
+
+/**
+ * Price `items` from the catalog, hold their stock against live inventory and
+ * store the order. Short lines come back with alternatives and nothing is held.
+ */
+export async function placeOrder(
+  catalog: CatalogRepository,
+  store: OrderStore,
+  reservations: ReservationStore,
+  {
+    kioskId,
+    conversationId,
+    items,
+    ttlMs,
+  }: { kioskId: string; conversationId?: string | null; items: OrderItem[]; ttlMs: number }
+): Promise<PlaceOrderResult> {
+  const priced = await priceOrder(catalog, items);
+  if (!priced.ok) return priced;
+
+  const held = await reservations.reserve(priced.lines.map((l) => ({ sku: l.sku, qty: l.qty })), ttlMs);
+  if (!held.ok) {
+    const names = new Map(priced.lines.map((l) => [l.sku, l.name]));
+    const shortfalls = await Promise.all(
+      held.shortfalls.map(async (s) => ({
+        ...s,
+        name: names.get(s.sku) ?? s.sku,
+        alternatives: await findAlternatives(catalog, reservations, s.sku, { qty: s.requested }),
+      }))
+    );
+    return {
+      ok: false,
+      error: "No hay suficiente existencia para algunos artículos.",
+      skus: shortfalls.map((s) => s.sku),
+      shortfalls,
+    };
+  }
+
+  try {
+    const order = await store.create({
+      kiosk_id: kioskId,
+      conversation_id: conversationId || null,
+      status: "placed",
+      currency: priced.currency,
+      subtotal: priced.subtotal,
+      discount: priced.discount,
+      promotions: priced.promotions,
+      tax: priced.tax,
+      total: priced.total,
+      taxes: priced.taxes,
+      lines: priced.lines,
+      reservation_id: held.reservation.id,
+      reserved_until: held.reservation.expires_at,
+    });
+    return { ok: true, order };
+  } catch (e) {
+    await reservations.release(held.reservation.id).catch(() => undefined);
+    throw e;
+  }
+}
+
+/** Cancel a placed order and give its stock back */
+export async function cancelOrder(store: OrderStore, reservations: ReservationStore, id: string) {
+  const order = await store.get(id);
+  if (!order || order.status === "cancelled") return order;
+  if (order.reservation_id) await reservations.release(order.reservation_id);
+  return store.setStatus(id, "cancelled");
+}
+
+// ---------- Supabase ----------
+async function admin() {
+  return (await import("@/lib/supabase")).supabaseAdmin;
+}
+
+const NUMBER_RETRIES = 5;
+const ORDER_COLUMNS = [
+  "id,kiosk_id,number,conversation_id,status,currency",
+  "subtotal,discount,promotions,tax,total,taxes",
+  "reservation_id,reserved_until,created_at,updated_at",
+].join(",");
+const LINE_COLUMNS = "sku,name,qty,unit_price,line_total,discount,currency,category,tax_rate,location";
+
+type OrderRow = Omit<Order, "lines"> & { order_lines?: (OrderLine & { position?: number })[] };
+
+function fromRow(row: OrderRow): Order {
+  const { order_lines, ...o } = row;
+  return {
+    ...o,
+    subtotal: Number(o.subtotal),
+    discount: Number(o.discount ?? 0),
+    promotions: o.promotions ?? [],
+    tax: Number(o.tax),
+    total: Number(o.total),
+    taxes: o.taxes ?? [],
+    lines: [...(order_lines ?? [])]
+      .sort((a, b) => (a.position ?? 0) - (b.position ?? 0))
+      .map((l) => ({
+        sku: l.sku,
+        name: l.name,
+        qty: Number(l.qty),
+        unit_price: Number(l.unit_price),
+        line_total: Number(l.line_total),
+        discount: Number(l.discount ?? 0),
+        currency: l.currency,
+        category: l.category ?? null,
+        tax_rate: Number(l.tax_rate),
+        location: l.location ?? null,
+      })),
+  };
+}
+
+/**
+ * Tables `orders` (unique kiosk_id + number) and `order_lines` (order_id → orders.id).
+ * The next number is max + 1; a concurrent insert trips the unique key and we retry.
+ */
+export function makeSupabaseOrderStore(): OrderStore {
+  const select = `${ORDER_COLUMNS},order_lines(${LINE_COLUMNS},position)`;
+
+  return {
+    provider: "supabase",
+
+    async create(input) {
+      const db = await admin();
+      for (let attempt = 0; attempt < NUMBER_RETRIES; attempt++) {
+        const { data: last, error: lastErr } = await db
+          .from("orders")
+          .select("number")
+          .eq("kiosk_id", input.kiosk_id)
+          .order("number", { ascending: false })
+          .limit(1);
+        if (lastErr) throw new Error(lastErr.message);
+
+        const now = new Date().toISOString();
+        const { lines, ...head } = input;
+        const { data, error } = await db
+          .from("orders")
+          .insert({ ...head, number: Number(last?.[0]?.number ?? 0) + 1, created_at: now, updated_at: now })
+          .select(ORDER_COLUMNS)
+          .single();
+        if (error?.code === "23505") continue; // number taken by another kiosk request
+        if (error) throw new Error(error.message);
+
+        const row = data as unknown as Omit<Order, "lines">;
+        const { error: linesErr } = await db
+          .from("order_lines")
+          .insert(lines.map((l, position) => ({ ...l, order_id: row.id, position })));
+        if (linesErr) {
+          await db.from("orders").delete().eq("id", row.id);
+          throw new Error(linesErr.message);
+        }
+        return fromRow({ ...row, order_lines: lines.map((l, position) => ({ ...l, position })) });
+      }
+      throw new Error(`Could not assign an order number for kiosk ${input.kiosk_id}`);
+    },
+
+    async get(id) {
+      const { data, error } = await (await admin()).from("orders").select(select).eq("id", id).maybeSingle();
+      if (error) throw new Error(error.message);
+      return data ? fromRow(data as unknown as OrderRow) : null;
+    },
+
+    async findByNumber(kioskId, number) {
+      const { data, error } = await (await admin())
+        .from("orders")
+        .select(select)
+        .eq("kiosk_id", kioskId)
+        .eq("number", number)
+        .maybeSingle();
+      if (error) throw new Error(error.message);
+      return data ? fromRow(data as unknown as OrderRow) : null;
+    },
+
+    async list({ kioskId, limit = 50 } = {}) {
+      let query = (await admin()).from("orders").select(select).order("created_at", { ascending: false }).limit(limit);
+      if (kioskId) query = query.eq("kiosk_id", kioskId);
+      const { data, error } = await query;
+      if (error) throw new Error(error.message);
+      return ((data || []) as unknown as OrderRow[]).map(fromRow);
+    },
+
+    async setStatus(id, status) {
+      const { data, error } = await (await admin())
+        .from("orders")
+        .update({ status, updated_at: new Date().toISOString() })
+        .eq("id", id)
+        .select(select)
+        .maybeSingle();
+      if (error) throw new Error(error.message);
+      return data ? fromRow(data as unknown as OrderRow) : null;
+    },
+  };
+}
+
+// ---------- Local JSON file ----------
+type OrdersDoc = { counters: Record<string, number>; orders: Order[] };
+
+/** Orders in one JSON file; the per-kiosk counter lives next to them */
+export function makeLocalOrderStore(file: string): OrderStore {
+  const doc = makeJsonFile<OrdersDoc>(file, () => ({ counters: {}, orders: [] }));
+
+  return {
+    provider: "local",
+
+    create(input) {
+      return doc.update((d) => {
+        const number = (d.counters[input.kiosk_id] ?? 0) + 1;
+        d.counters[input.kiosk_id] = number;
+        const now = new Date().toISOString();
+        const order: Order = { ...input, id: randomUUID(), number, created_at: now, updated_at: now };
+        d.orders.push(order);
+        return order;
+      });
+    },
+
+    async get(id) {
+      return (await doc.read()).orders.find((o) => o.id === id) ?? null;
+    },
+
+    async findByNumber(kioskId, number) {
+      return (await doc.read()).orders.find((o) => o.kiosk_id === kioskId && o.number === number) ?? null;
+    },
+
+    async list({ kioskId, limit = 50 } = {}) {
+      return (await doc.read()).orders
+        .filter((o) => !kioskId || o.kiosk_id === kioskId)
+        .reverse()
+        .slice(0, limit);
+    },
+
+    setStatus(id, status) {
+      return doc.update((d) => {
+        const order = d.orders.find((o) => o.id === id);
+        if (!order) return null;
+        order.status = status;
+        order.updated_at = new Date().toISOString();
+        return order;
+      });
+    },
+  };
+}
+
+// ---------- Factory ----------
+let cached: OrderStore | null = null;
+
+/**
+ * ORDERS_PROVIDER=supabase | local (defaults to CATALOG_PROVIDER)
+ * ORDERS_FILE: local backend file (default .data/orders.json, see DATA_DIR)
+ */
+export function getOrderStore(): OrderStore {
+  if (cached) return cached;
+  const provider = process.env.ORDERS_PROVIDER ?? process.env.CATALOG_PROVIDER ?? "supabase";
+  if (provider === "supabase") cached = makeSupabaseOrderStore();
+  else if (provider === "local") cached = makeLocalOrderStore(process.env.ORDERS_FILE || dataPath("orders.json"));
+  else throw new Error(`Unknown ORDERS_PROVIDER "${provider}" (available: supabase, local)`);
+  return cached;
+}
+
+/** Swap the order store (tests, scripts). Pass null to go back to the env-configured one. */
+export function setOrderStore(store: OrderStore | null) {
+  cached = store;
+}
@@ -0,0 +1,232 @@
+// lib/plan.ts
+import { z } from "zod";
+import type { ChatArgs, ChatMsg, LLM } from "@/lib/llm";
+
+/**
+ * Shared contract for what the agent returns: { plan, reply }.
+ * Used by /api/agent to validate model output and by the UI to read it.
+ * Numbers are coerced ("2", "$24.00" → 2, 24) and broken lines are dropped
+ * instead of failing the whole plan. The model itself answers with `ops`
+ * (cart operations, applied by lib/cart-ops); the basket is the server's.
+ */
+
+// "$1,234.50 MXN" → 1234.5 ; anything unparseable → NaN (then caught by .catch)
+const toNumber = (v: unknown) =>
+  typeof v === "string" ? Number(v.replace(/[^0-9.\-]/g, "")) : v;
+
+const money = z.preprocess(toNumber, z.number().finite().nonnegative()).catch(0);
+const count = z.preprocess(toNumber, z.number().finite()).catch(0);
+const qty = z.preprocess(toNumber, z.number().finite().min(1).transform(Math.round)).catch(1);
+
+export const PlanLineSchema = z.object({
+  sku: z.string().trim().min(1),
+  name: z.string().catch(""),
+  qty,
+  price: money,
+  currency: z.string().trim().min(1).catch("MXN"),
+  stock: count,
+  image_url: z.string().nullish().catch(undefined),
+  // aisle-shelf-bin, filled in server-side (lib/wayfinding)
+  location: z.string().nullish().catch(undefined),
+  // catalog category, filled in server-side; drives the tax rate (lib/totals)
+  category: z.string().nullish().catch(undefined),
+  why: z.string().optional().catch(undefined),
+});
+
+// keep the valid items, drop the rest (a single bad line shouldn't blank the basket)
+const validOnly = <T extends z.ZodTypeAny>(item: T) =>
+  z
+    .array(z.unknown())
+    .catch([])
+    .transform((arr) =>
+      arr.flatMap((x): z.infer<T>[] => {
+        const r = item.safeParse(x);
+        return r.success ? [r.data] : [];
+      })
+    );
+
+const lines = validOnly(PlanLineSchema);
+
+const sku = z.string().trim().min(1);
+const opQty = z.preprocess(toNumber, z.number().finite());
+const opWhy = z.string().optional().catch(undefined);
+
+/**
+ * One change to the customer's cart: add pieces, remove a line (or `qty`
+ * pieces of it), swap a line for another product (same qty unless given), or
+ * set a line's qty (0 removes it). Limits are checked when applied.
+ */
+export const CartOpSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("add"), sku, qty: opQty.optional(), why: opWhy }),
+  z.object({ type: z.literal("remove"), sku, qty: opQty.optional() }),
+  z.object({ type: z.literal("replace"), sku, with: sku, qty: opQty.optional(), why: opWhy }),
+  z.object({ type: z.literal("setQty"), sku, qty: opQty }),
+]);
+
+export const PlanSchema = z.object({
+  title: z.string().catch(""),
+  steps: z.array(z.coerce.string()).catch([]),
+  basket: lines,
+  upsell: lines,
+  confirm: z.string().catch(""),
+});
+
+export const AgentReplySchema = z.object({
+  // a reply-only turn (clarifying question) is valid: missing plan → empty plan
+  plan: z.preprocess((v) => v ?? {}, PlanSchema),
+  reply: z.string().catch(""),
+  // what the model changes in the cart; none = the cart stays as it is
+  ops: validOnly(CartOpSchema),
+});
+
+export type PlanLine = z.infer<typeof PlanLineSchema>;
+export type CartOp = z.infer<typeof CartOpSchema>;
+export type Plan = z.infer<typeof PlanSchema>;
+export type AgentReply = z.infer<typeof AgentReplySchema>;
+
+export function emptyPlan(confirm = ""): Plan {
+  return { title: "", steps: [], basket: [], upsell: [], confirm };
+}
+
+export type ParseResult<T> = { ok: true; data: T } | { ok: false; error: string };
+
+/**
+ * Best-effort cleanup of almost-JSON from a model: code fences, prose around
+ * the object, smart quotes, trailing commas.
+ */
+export function repairJson(raw: string): unknown {
+  let s = String(raw ?? "").trim();
+  s = s.replace(/^```(?:json)?\s*/i, "").replace(/```\s*$/, "");
+  const start = s.indexOf("{");
+  const end = s.lastIndexOf("}");
+  if (start >= 0 && end > start) s = s.slice(start, end + 1);
+  try {
+    return JSON.parse(s);
+  } catch {
+    /* try harder below */
+  }
+  s = s
+    .replace(/[“”]/g, '"')
+    .replace(/,\s*([}\]])/g, "$1");
+  return JSON.parse(s);
+}
+
+/** Parse raw model text into { plan, reply }; accepts a bare plan as well. */
+export function parseAgentReply(raw: string): ParseResult<AgentReply> {
+  let json: unknown;
+  try {
+    json = repairJson(raw);
+  } catch (e) {
+    return { ok: false, error: `JSON inválido: ${(e as Error).message}` };
+  }
+  // string-encoded JSON (double stringify) → unwrap once
+  if (typeof json === "string") {
+    try {
+      json = repairJson(json);
+    } catch {
+      return { ok: false, error: "La respuesta es texto, no un objeto JSON" };
+    }
+  }
+  if (!json || typeof json !== "object") return { ok: false, error: "Se esperaba un objeto JSON" };
+
+  const obj = json as Record<string, unknown>;
+  const shaped = "plan" in obj || "reply" in obj || "ops" in obj ? obj : { plan: obj, reply: "" };
+  const r = AgentReplySchema.safeParse(shaped);
+  if (!r.success) {
+    const issue = r.error.issues[0];
+    return { ok: false, error: `${issue?.path.join(".") || "plan"}: ${issue?.message}` };
+  }
+  return { ok: true, data: r.data };
+}
+
+/**
+ * The "reply" string of a JSON answer that is still arriving, as far as it
+ * goes ("" until its opening quote shows up). Escapes are decoded; one cut in
+ * half is left for the next chunk.
+ */
+export function partialReply(raw: string) {
+  const m = /"reply"\s*:\s*"/.exec(raw);
+  if (!m) return "";
+  let out = "";
+  for (let i = m.index + m[0].length; i < raw.length; i++) {
+    const ch = raw[i];
+    if (ch === '"') break;
+    if (ch !== "\\") {
+      out += ch;
+      continue;
+    }
+    const esc = raw[i + 1];
+    if (esc === undefined) break;
+    if (esc === "u") {
+      const hex = raw.slice(i + 2, i + 6);
+      if (!/^[0-9a-f]{4}$/i.test(hex)) break;
+      out += String.fromCharCode(parseInt(hex, 16));
+      i += 5;
+      continue;
+    }
+    out += ({ n: "\n", t: "\t", r: "", b: "", f: "" } as Record<string, string>)[esc] ?? esc;
+    i++;
+  }
+  return out;
+}
+
+/**
+ * What /api/agent streams (text/event-stream, one SSE event per item, named
+ * after `type`): progress, the reply as it is written, then the final answer
+ * in the same `{ content }` shape as the JSON response, or an error.
+ */
+export type AgentEvent =
+  | { type: "status"; stage: "searching" | "composing" | "checking" }
+  | { type: "candidates"; count: number; names: string[] }
+  | { type: "tool"; name: string }
+  | { type: "reply"; text: string }
+  | { type: "plan"; content: string }
+  | { type: "error"; error: string };
+
+export const MAX_REPAIR_ATTEMPTS = 2;
+
+// the model's text; streamed when someone listens and the provider can
+async function chatText(llm: LLM, args: ChatArgs, onText?: (sofar: string) => void) {
+  if (!onText || !llm.stream) return (await llm.chat(args)).choices?.[0]?.message?.content || "";
+  let text = "";
+  for await (const chunk of llm.stream(args)) {
+    text += chunk;
+    onText(text);
+  }
+  return text;
+}
+
+/**
+ * Ask the model and validate its answer with `parse`. On invalid output the
+ * model gets its own answer back plus the validation error and is re-prompted,
+ * at most `attempts` extra times. Returns the last error if it never complies.
+ * `onText` sees each attempt's text so far while it streams.
+ */
+export async function chatWithRepair<T>(
+  llm: LLM,
+  messages: ChatMsg[],
+  parse: (raw: string) => ParseResult<T>,
+  {
+    temperature,
+    attempts = MAX_REPAIR_ATTEMPTS,
+    onText,
+  }: { temperature?: number; attempts?: number; onText?: (sofar: string, attempt: number) => void } = {}
+): Promise<ParseResult<T> & { raw: string }> {
+  const convo = [...messages];
+  let last: ParseResult<T> & { raw: string } = { ok: false, error: "sin respuesta", raw: "" };
+  for (let i = 0; i <= attempts; i++) {
+    const raw = await chatText(llm, { messages: convo, temperature }, onText && ((sofar) => onText(sofar, i)));
+    last = { ...parse(raw), raw };
+    if (last.ok) return last;
+    convo.push(
+      { role: "assistant", content: raw },
+      {
+        role: "user",
+        content:
+          `Tu respuesta anterior no cumple el formato (${last.error}). ` +
+          "Devuelve SOLO el objeto JSON pedido, sin texto adicional.",
+      }
+    );
+  }
+  return last;
+}
@@ -0,0 +1,64 @@
+// lib/printer.ts
+import fs from "fs";
+import net from "net";
+
+/**
+ * Where receipt bytes go. PRINTER_URL picks the transport:
+ *   tcp://192.168.1.50:9100   raw "JetDirect" port of a network printer
+ *   file:///dev/usb/lp0       USB printer device (or any file, for testing)
+ * Unset means no thermal printer: the kiosk prints the HTML ticket instead.
+ */
+export interface PrinterTransport {
+  readonly url: string;
+  send(bytes: Uint8Array): Promise<void>;
+}
+
+const DEFAULT_TIMEOUT_MS = 5_000;
+
+export function makeTcpPrinter(host: string, port = 9100, timeoutMs = DEFAULT_TIMEOUT_MS): PrinterTransport {
+  return {
+    url: `tcp://${host}:${port}`,
+    send(bytes) {
+      return new Promise((resolve, reject) => {
+        const socket = net.createConnection({ host, port });
+        socket.setTimeout(timeoutMs, () => socket.destroy(new Error(`printer ${host}:${port} timed out`)));
+        socket.once("error", reject);
+        socket.once("connect", () => socket.end(Buffer.from(bytes)));
+        socket.once("close", (hadError) => {
+          if (!hadError) resolve();
+        });
+      });
+    },
+  };
+}
+
+/** Appends, so a device node gets one job after another and a plain file collects them */
+export function makeFilePrinter(file: string): PrinterTransport {
+  return {
+    url: `file://${file}`,
+    async send(bytes) {
+      await fs.promises.appendFile(file, bytes);
+    },
+  };
+}
+
+export function makePrinter(url: string): PrinterTransport {
+  const u = new URL(url);
+  if (u.protocol === "tcp:") return makeTcpPrinter(u.hostname, Number(u.port) || 9100);
+  if (u.protocol === "file:") return makeFilePrinter(decodeURIComponent(u.pathname));
+  throw new Error(`Unsupported PRINTER_URL "${url}" (use tcp://host:port or file:///path)`);
+}
+
+let cached: PrinterTransport | null | undefined;
+
+/** The configured printer, or null when PRINTER_URL is unset */
+export function getPrinter(): PrinterTransport | null {
+  if (cached !== undefined) return cached;
+  cached = process.env.PRINTER_URL ? makePrinter(process.env.PRINTER_URL) : null;
+  return cached;
+}
+
+/** Swap the printer (tests, scripts). Pass undefined to go back to the env-configured one. */
+export function setPrinter(printer: PrinterTransport | null | undefined) {
+  cached = printer;
+}
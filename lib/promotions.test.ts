@@ -0,0 +1,52 @@
+// lib/promotions.test.ts
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { applyPromotions, isActive, Promotion, validPromotions } from "@/lib/promotions";
+
+// a store west of UTC, where "2026-10-19" read as UTC would start the evening before
+process.env.TZ = "America/Mexico_City";
+
+const promo: Promotion = {
+  id: "teflon-10",
+  name: "Teflón 10%",
+  kind: "percent",
+  percent: 10,
+  skus: ["PTF-12"],
+  starts_at: "2026-10-19",
+  ends_at: "2026-10-26",
+};
+
+test("date-only bounds are whole local days", () => {
+  assert.equal(isActive(promo, new Date(2026, 9, 18, 23, 59, 59)), false);
+  assert.equal(isActive(promo, new Date(2026, 9, 19, 0, 0, 0)), true);
+  assert.equal(isActive(promo, new Date(2026, 9, 26, 23, 59, 59)), true);
+  assert.equal(isActive(promo, new Date(2026, 9, 27, 0, 0, 0)), false);
+});
+
+test("bounds with a time are taken as written", () => {
+  const p = { ...promo, starts_at: "2026-10-19T12:00:00Z", ends_at: "2026-10-19T18:00:00Z" };
+  assert.equal(isActive(p, new Date("2026-10-19T11:59:59Z")), false);
+  assert.equal(isActive(p, new Date("2026-10-19T12:00:00Z")), true);
+  assert.equal(isActive(p, new Date("2026-10-19T18:00:01Z")), false);
+});
+
+test("a disabled promotion is never active", () => {
+  assert.equal(isActive({ ...promo, enabled: false }, new Date(2026, 9, 20)), false);
+});
+
+test("malformed rows are dropped, not applied", (t) => {
+  const warn = t.mock.method(console, "warn", () => {});
+  const rows = [
+    promo,
+    { id: "mayoreo", name: "Mayoreo", kind: "tiers", categories: ["fijación"] },
+    { id: "sin-tipo", name: "Sin tipo", percent: 10 },
+    { ...promo, id: "nulls", priority: null, skuPrefixes: null },
+  ];
+  assert.deepEqual(
+    validPromotions(rows).map((p) => p.id),
+    ["teflon-10", "nulls"]
+  );
+  assert.equal(warn.mock.callCount(), 2);
+  const basket = [{ sku: "PTF-12", qty: 2, price: 10, category: "fijación" }];
+  assert.equal(applyPromotions(validPromotions(rows), basket, new Date(2026, 9, 20))[0].amount, 2);
+});
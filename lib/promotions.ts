@@ -0,0 +1,237 @@
+// lib/promotions.ts
+import { z } from "zod";
+import { fromCents, toCents } from "@/lib/totals";
+
+/**
+ * Weekly promotions, edited by marketing as rows (Supabase `promotions` or
+ * data/promotions.json), evaluated against the basket as discount lines.
+ *
+ *   { "id": "teflon-2x1", "name": "Teflón 2x1", "kind": "nxm", "buy": 2, "pay": 1,
+ *     "skus": ["PTF-12"], "starts_at": "2026-10-19", "ends_at": "2026-10-26" }
+ *
+ * Kinds: percent, fixed (off each unit), nxm (2x1, 3x2), bundle (a set at one
+ * price) and tiers (percent by quantity). Scope (skus / skuPrefixes /
+ * categories) limits which lines a promotion touches; no scope = any line.
+ * Promotions run by priority (lower first) and a unit gets at most one, so
+ * discounts never stack on the same piece.
+ */
+export type PromotionScope = { skus?: string[]; skuPrefixes?: string[]; categories?: string[] };
+
+export type PromotionRule =
+  | { kind: "percent"; percent: number }
+  | { kind: "fixed"; amount: number }
+  | { kind: "nxm"; buy: number; pay: number }
+  | { kind: "bundle"; items: { sku: string; qty?: number }[]; price: number }
+  | { kind: "tiers"; tiers: { minQty: number; percent: number }[] };
+
+export type Promotion = PromotionRule &
+  PromotionScope & {
+    id: string;
+    name: string;
+    enabled?: boolean;
+    priority?: number;
+    /** ISO dates; without a time they are local days, and `ends_at` runs through that whole day */
+    starts_at?: string | null;
+    ends_at?: string | null;
+  };
+
+export type PromoLine = { sku: string; qty: number; price: number; category?: string | null };
+
+/** A discount line: how much the promotion takes off, and from which basket lines */
+export type AppliedPromotion = { id: string; name: string; amount: number; lines: { sku: string; amount: number }[] };
+
+const DEFAULT_PRIORITY = 10;
+
+// rows come from a table or a file marketing edits: a null column reads as absent
+const optional = <T extends z.ZodTypeAny>(schema: T) => z.preprocess((v) => v ?? undefined, schema.optional());
+const amount = z.number().finite().nonnegative();
+const pieces = z.number().int().positive();
+
+const PromotionBaseSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1),
+  enabled: optional(z.boolean()),
+  priority: optional(z.number().finite()),
+  starts_at: z.string().nullish(),
+  ends_at: z.string().nullish(),
+  skus: optional(z.array(z.string())),
+  skuPrefixes: optional(z.array(z.string())),
+  categories: optional(z.array(z.string())),
+});
+
+export const PromotionSchema: z.ZodType<Promotion, z.ZodTypeDef, unknown> = z.discriminatedUnion("kind", [
+  PromotionBaseSchema.extend({ kind: z.literal("percent"), percent: amount.max(100) }),
+  PromotionBaseSchema.extend({ kind: z.literal("fixed"), amount }),
+  PromotionBaseSchema.extend({ kind: z.literal("nxm"), buy: pieces, pay: z.number().int().nonnegative() }),
+  PromotionBaseSchema.extend({
+    kind: z.literal("bundle"),
+    items: z.array(z.object({ sku: z.string().min(1), qty: optional(pieces) })).min(1),
+    price: amount,
+  }),
+  PromotionBaseSchema.extend({
+    kind: z.literal("tiers"),
+    tiers: z.array(z.object({ minQty: pieces, percent: amount.max(100) })).min(1),
+  }),
+]);
+
+/** The rows that make valid promotions; the rest are dropped with a warning instead of failing every basket */
+export function validPromotions(rows: unknown[]): Promotion[] {
+  return rows.flatMap((row) => {
+    const r = PromotionSchema.safeParse(row);
+    if (r.success) return [r.data];
+    const id = (row as { id?: unknown } | null)?.id ?? "?";
+    console.warn(
+      `promotions: ignoring ${id}:`,
+      r.error.issues.map((i) => `${i.path.join(".")}: ${i.message}`).join("; ")
+    );
+    return [];
+  });
+}
+
+const fold = (s?: string | null) => (s || "").toLowerCase().normalize("NFD").replace(/\p{Diacritic}/gu, "").trim();
+
+// date-only values are store-local days (Date.parse would read "2026-10-19" as UTC midnight)
+const isDay = (date: string) => /^\d{4}-\d{2}-\d{2}$/.test(date);
+
+function startOf(date: string) {
+  return isDay(date) ? Date.parse(`${date}T00:00:00`) : Date.parse(date);
+}
+
+function endOf(date: string) {
+  return isDay(date) ? Date.parse(`${date}T23:59:59.999`) : Date.parse(date);
+}
+
+export function isActive(p: Promotion, now = new Date()) {
+  const t = now.getTime();
+  if (p.enabled === false) return false;
+  if (p.starts_at && startOf(p.starts_at) > t) return false;
+  if (p.ends_at && endOf(p.ends_at) < t) return false;
+  return true;
+}
+
+export function activePromotions(promos: Promotion[], now = new Date()) {
+  return promos
+    .filter((p) => isActive(p, now))
+    .sort((a, b) => (a.priority ?? DEFAULT_PRIORITY) - (b.priority ?? DEFAULT_PRIORITY));
+}
+
+export function inScope(p: PromotionScope, line: Pick<PromoLine, "sku" | "category">) {
+  const scoped = p.skus?.length || p.skuPrefixes?.length || p.categories?.length;
+  if (!scoped) return true;
+  return (
+    !!p.skus?.includes(line.sku) ||
+    !!p.skuPrefixes?.some((x) => line.sku.startsWith(x)) ||
+    !!p.categories?.some((c) => fold(c) === fold(line.category))
+  );
+}
+
+/** Promotions a product takes part in (bundles by their items, the rest by scope) */
+export function promotionsFor(promos: Promotion[], line: Pick<PromoLine, "sku" | "category">) {
+  return promos.filter((p) => (p.kind === "bundle" ? p.items?.some((i) => i.sku === line.sku) : inScope(p, line)));
+}
+
+/** Pure evaluation: discount lines for the basket, in priority order */
+export function applyPromotions(promos: Promotion[], basket: PromoLine[], now = new Date()): AppliedPromotion[] {
+  const lines = new Map<string, PromoLine>();
+  for (const l of basket) {
+    const prev = lines.get(l.sku);
+    lines.set(l.sku, { ...l, qty: (prev?.qty ?? 0) + Math.max(1, Math.round(Number(l.qty) || 1)) });
+  }
+  const left = new Map(Array.from(lines.values(), (l) => [l.sku, l.qty]));
+  const unit = (sku: string) => toCents(Number(lines.get(sku)?.price) || 0);
+  const out: AppliedPromotion[] = [];
+
+  for (const p of activePromotions(promos, now)) {
+    const off = new Map<string, number>(); // sku → cents
+    const take = (sku: string, units: number, cents: number) => {
+      left.set(sku, (left.get(sku) ?? 0) - units);
+      if (cents > 0) off.set(sku, (off.get(sku) ?? 0) + cents);
+    };
+    const scoped = Array.from(lines.values()).filter((l) => (left.get(l.sku) ?? 0) > 0 && inScope(p, l));
+
+    switch (p.kind) {
+      case "percent":
+        for (const l of scoped) {
+          const n = left.get(l.sku)!;
+          take(l.sku, n, Math.round((unit(l.sku) * n * p.percent) / 100));
+        }
+        break;
+      case "fixed":
+        for (const l of scoped) {
+          const n = left.get(l.sku)!;
+          take(l.sku, n, Math.min(toCents(p.amount), unit(l.sku)) * n);
+        }
+        break;
+      case "tiers":
+        for (const l of scoped) {
+          const n = left.get(l.sku)!;
+          const tier = [...p.tiers].sort((a, b) => b.minQty - a.minQty).find((t) => n >= t.minQty);
+          if (tier) take(l.sku, n, Math.round((unit(l.sku) * n * tier.percent) / 100));
+        }
+        break;
+      case "nxm":
+        if (!(p.buy > p.pay && p.pay >= 0)) break;
+        for (const l of scoped) {
+          const groups = Math.floor(left.get(l.sku)! / p.buy);
+          if (groups) take(l.sku, groups * p.buy, groups * (p.buy - p.pay) * unit(l.sku));
+        }
+        break;
+      case "bundle": {
+        const items = (p.items || []).map((i) => ({ sku: i.sku, qty: Math.max(1, i.qty ?? 1) }));
+        if (!items.length) break;
+        const sets = Math.min(...items.map((i) => Math.floor((left.get(i.sku) ?? 0) / i.qty)));
+        if (!sets) break;
+        const full = items.map((i) => unit(i.sku) * i.qty * sets);
+        const fullTotal = full.reduce((s, c) => s + c, 0);
+        const saving = fullTotal - toCents(p.price) * sets;
+        if (saving <= 0) break;
+        // spread the saving over the items by value; the last one takes the rounding
+        let given = 0;
+        items.forEach((i, k) => {
+          const share = k === items.length - 1 ? saving - given : Math.round((saving * full[k]) / fullTotal);
+          given += share;
+          take(i.sku, i.qty * sets, share);
+        });
+        break;
+      }
+    }
+
+    if (off.size) {
+      const amount = Array.from(off.values()).reduce((s, c) => s + c, 0);
+      out.push({
+        id: p.id,
+        name: p.name,
+        amount: fromCents(amount),
+        lines: Array.from(off, ([sku, c]) => ({ sku, amount: fromCents(c) })),
+      });
+    }
+  }
+  return out;
+}
+
+/** Discount per SKU across all applied promotions */
+export function discountsBySku(applied: AppliedPromotion[]) {
+  const out = new Map<string, number>();
+  for (const a of applied) for (const l of a.lines) out.set(l.sku, fromCents(toCents((out.get(l.sku) ?? 0) + l.amount)));
+  return out;
+}
+
+/** One line for prompts/UI: "Teflón 2x1 (2x1; PTF-12; hasta 2026-10-26)" */
+export function describePromotion(p: Promotion) {
+  const what = (() => {
+    switch (p.kind) {
+      case "percent":
+        return `${p.percent}% de descuento`;
+      case "fixed":
+        return `$${p.amount} menos por pieza`;
+      case "nxm":
+        return `${p.buy}x${p.pay}`;
+      case "bundle":
+        return `paquete ${p.items.map((i) => `${i.qty ?? 1}× ${i.sku}`).join(" + ")} por $${p.price}`;
+      case "tiers":
+        return p.tiers.map((t) => `${t.percent}% desde ${t.minQty} pzas`).join(", ");
+    }
+  })();
+  const scope = [...(p.skus ?? []), ...(p.skuPrefixes ?? []).map((x) => `${x}*`), ...(p.categories ?? [])].join(", ");
+  return `${p.name} (${what}${scope ? `; ${scope}` : ""}${p.ends_at ? `; hasta ${p.ends_at}` : ""})`;
+}
@@ -0,0 +1,200 @@
+// lib/query-log.ts
+import { dataPath, makeJsonFile } from "@/lib/json-file";
+import { normalizeQueryText } from "@/lib/search";
+
+/**
+ * Searches that found nothing (or almost nothing), from /api/search and the
+ * agent, grouped by their normal form ("Chupón!!" and "un chupon" are one row)
+ * with a count. Staff work through them in /admin: map a query to SKUs (which
+ * adds it as a synonym) or dismiss it. A mapped query that finds nothing again
+ * is reopened, since the mapping didn't help.
+ */
+export type QuerySource = "search" | "agent";
+export type QueryMissStatus = "open" | "mapped" | "dismissed";
+
+export type QueryMiss = {
+  normalized: string;
+  /** latest distinct spellings customers used, newest first */
+  examples: string[];
+  count: number;
+  /** how many of those found nothing at all */
+  zero_count: number;
+  last_results: number;
+  sources: QuerySource[];
+  status: QueryMissStatus;
+  /** SKUs it was mapped to */
+  skus: string[];
+  first_seen: string;
+  last_seen: string;
+  resolved_at: string | null;
+};
+
+export type QueryMissEvent = { query: string; results: number; source: QuerySource };
+
+export interface QueryLog {
+  readonly provider: string;
+  record(event: QueryMissEvent): Promise<void>;
+  /** Most frequent first */
+  list(opts?: { status?: QueryMissStatus; limit?: number }): Promise<QueryMiss[]>;
+  /** null when the query isn't in the log */
+  resolve(normalized: string, status: QueryMissStatus, skus?: string[]): Promise<QueryMiss | null>;
+}
+
+export const DEFAULT_LOW_RESULTS = 2;
+const MAX_EXAMPLES = 5;
+const MAX_QUERY_CHARS = 200;
+
+/** SEARCH_LOW_RESULTS: a search with this many results or fewer is logged (default 2) */
+export function lowResultThreshold() {
+  const n = Number(process.env.SEARCH_LOW_RESULTS);
+  return Number.isInteger(n) && n >= 0 ? n : DEFAULT_LOW_RESULTS;
+}
+
+/** Folds one event into its row (or starts one) */
+export function foldMiss(prev: QueryMiss | null | undefined, e: QueryMissEvent, now = new Date()): QueryMiss {
+  const at = now.toISOString();
+  const query = e.query.trim().slice(0, MAX_QUERY_CHARS);
+  const base: QueryMiss = prev ?? {
+    normalized: normalizeQueryText(query),
+    examples: [],
+    count: 0,
+    zero_count: 0,
+    last_results: 0,
+    sources: [],
+    status: "open",
+    skus: [],
+    first_seen: at,
+    last_seen: at,
+    resolved_at: null,
+  };
+  return {
+    ...base,
+    examples: [query, ...base.examples.filter((x) => x !== query)].slice(0, MAX_EXAMPLES),
+    count: base.count + 1,
+    zero_count: base.zero_count + (e.results === 0 ? 1 : 0),
+    last_results: e.results,
+    sources: base.sources.includes(e.source) ? base.sources : [...base.sources, e.source],
+    status: base.status === "mapped" && e.results === 0 ? "open" : base.status,
+    last_seen: at,
+  };
+}
+
+const byCount = (a: QueryMiss, b: QueryMiss) => b.count - a.count || b.last_seen.localeCompare(a.last_seen);
+
+// ---------- Local JSON file ----------
+export function makeLocalQueryLog(file: string): QueryLog {
+  const doc = makeJsonFile<{ misses: QueryMiss[] }>(file, () => ({ misses: [] }));
+
+  return {
+    provider: "local",
+
+    async record(e) {
+      const normalized = normalizeQueryText(e.query);
+      await doc.update((d) => {
+        const at = d.misses.findIndex((m) => m.normalized === normalized);
+        if (at >= 0) d.misses[at] = foldMiss(d.misses[at], e);
+        else d.misses.push(foldMiss(null, e));
+      });
+    },
+
+    async list({ status, limit = 100 } = {}) {
+      const { misses } = await doc.read();
+      return misses.filter((m) => !status || m.status === status).sort(byCount).slice(0, limit);
+    },
+
+    resolve(normalized, status, skus = []) {
+      return doc.update((d) => {
+        const m = d.misses.find((x) => x.normalized === normalized);
+        if (!m) return null;
+        Object.assign(m, { status, skus, resolved_at: status === "open" ? null : new Date().toISOString() });
+        return m;
+      });
+    },
+  };
+}
+
+// ---------- Supabase ----------
+async function admin() {
+  return (await import("@/lib/supabase")).supabaseAdmin;
+}
+
+/**
+ * Table `search_misses`, one row per normalized query (see README). Counting
+ * is read-then-write: two kiosks missing the same query in the same instant
+ * may count it once, which is fine for a review queue.
+ */
+export function makeSupabaseQueryLog(): QueryLog {
+  const find = async (normalized: string) => {
+    const { data, error } = await (await admin())
+      .from("search_misses")
+      .select("*")
+      .eq("normalized", normalized)
+      .maybeSingle();
+    if (error) throw new Error(error.message);
+    return (data as QueryMiss | null) ?? null;
+  };
+
+  return {
+    provider: "supabase",
+
+    async record(e) {
+      const row = foldMiss(await find(normalizeQueryText(e.query)), e);
+      const { error } = await (await admin()).from("search_misses").upsert(row, { onConflict: "normalized" });
+      if (error) throw new Error(error.message);
+    },
+
+    async list({ status, limit = 100 } = {}) {
+      let q = (await admin()).from("search_misses").select("*");
+      if (status) q = q.eq("status", status);
+      const { data, error } = await q.order("count", { ascending: false }).limit(limit);
+      if (error) throw new Error(error.message);
+      return (data || []) as QueryMiss[];
+    },
+
+    async resolve(normalized, status, skus = []) {
+      const resolved_at = status === "open" ? null : new Date().toISOString();
+      const { data, error } = await (await admin())
+        .from("search_misses")
+        .update({ status, skus, resolved_at })
+        .eq("normalized", normalized)
+        .select("*")
+        .maybeSingle();
+      if (error) throw new Error(error.message);
+      return (data as QueryMiss | null) ?? null;
+    },
+  };
+}
+
+// ---------- Factory ----------
+let cached: QueryLog | null = null;
+
+/**
+ * QUERY_LOG_PROVIDER=supabase | local (defaults to CATALOG_PROVIDER)
+ * QUERY_LOG_FILE: local backend file (default .data/search-misses.json)
+ */
+export function getQueryLog(): QueryLog {
+  if (cached) return cached;
+  const provider = process.env.QUERY_LOG_PROVIDER ?? process.env.CATALOG_PROVIDER ?? "supabase";
+  if (provider === "supabase") cached = makeSupabaseQueryLog();
+  else if (provider === "local") cached = makeLocalQueryLog(process.env.QUERY_LOG_FILE || dataPath("search-misses.json"));
+  else throw new Error(`Unknown QUERY_LOG_PROVIDER "${provider}" (available: supabase, local)`);
+  return cached;
+}
+
+/** Swap the log (tests, scripts). Pass null to go back to the env-configured one. */
+export function setQueryLog(log: QueryLog | null) {
+  cached = log;
+}
+
+/**
+ * Logs the search if it came back with few results. Never throws: losing a log
+ * line must not break a customer's search.
+ */
+export async function logSearchMiss(query: string, results: number, source: QuerySource) {
+  if (results > lowResultThreshold() || !normalizeQueryText(query)) return;
+  try {
+    await getQueryLog().record({ query, results, source });
+  } catch (e) {
+    console.warn("query log: miss not recorded:", (e as Error)?.message);
+  }
+}
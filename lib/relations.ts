@@ -0,0 +1,79 @@
+// lib/relations.ts
+import type { CatalogRepository, Product, ProductRelation, RelationKind } from "@/lib/catalog";
+
+/**
+ * Lookup over product_relations rows. A row reads "product_sku <kind> related_sku":
+ *   REP-CORTA-001 spare-part-of  CORTA-COBRE-001
+ *   PTF-12        accessory-of   PVC-UNION-050
+ *   PVC-UNION-050 substitute-for PVC-CPL-050
+ *   PVC-CPL-050   requires       PVC-GLUE-240
+ * Results are ordered by priority (lower first, missing = 1).
+ */
+export type RelationIndex = {
+  rows: ProductRelation[];
+  /** SKUs that are `kind` of `sku` (e.g. incoming(cortatubo, "spare-part-of") → its spares) */
+  incoming(sku: string, kind: RelationKind): ProductRelation[];
+  /** What `sku` is `kind` of (e.g. outgoing(union, "substitute-for") → what it can replace) */
+  outgoing(sku: string, kind: RelationKind): ProductRelation[];
+  /** Every SKU mentioned by the rows */
+  skus(): string[];
+};
+
+const byPriority = (a: ProductRelation, b: ProductRelation) => (a.priority ?? 1) - (b.priority ?? 1);
+
+export function buildRelationIndex(rows: ProductRelation[]): RelationIndex {
+  const sorted = [...rows].sort(byPriority);
+  return {
+    rows: sorted,
+    incoming: (sku, kind) => sorted.filter((r) => r.related_sku === sku && r.kind === kind),
+    outgoing: (sku, kind) => sorted.filter((r) => r.product_sku === sku && r.kind === kind),
+    skus: () => Array.from(new Set(sorted.flatMap((r) => [r.product_sku, r.related_sku]))),
+  };
+}
+
+export async function loadRelations(catalog: CatalogRepository, skus: string[]): Promise<RelationIndex> {
+  return buildRelationIndex(await catalog.getRelations(skus));
+}
+
+// ---- convenience lookups (SKU lists) ----
+export const accessoriesOf = (ix: RelationIndex, sku: string) =>
+  ix.incoming(sku, "accessory-of").map((r) => r.product_sku);
+
+export const sparePartsOf = (ix: RelationIndex, sku: string) =>
+  ix.incoming(sku, "spare-part-of").map((r) => r.product_sku);
+
+/** In-stock candidates to offer when `sku` is out of stock */
+export const substitutesFor = (ix: RelationIndex, sku: string) =>
+  ix.incoming(sku, "substitute-for").map((r) => r.product_sku);
+
+/** SKUs that `sku` can stand in for */
+export const substitutedBy = (ix: RelationIndex, sku: string) =>
+  ix.outgoing(sku, "substitute-for").map((r) => r.related_sku);
+
+/** What `sku` needs to be installed/used (pegamento for a cople, primer for pegamento) */
+export const requirementsOf = (ix: RelationIndex, sku: string) =>
+  ix.outgoing(sku, "requires").map((r) => r.related_sku);
+
+/** How a related product reads next to `sku` on its detail panel */
+export type RelatedGroup = "requires" | "accessories" | "spare-parts" | "substitutes" | "fits";
+
+export type RelatedProduct = { group: RelatedGroup; note: string | null; product: Product };
+
+/** Everything related to `sku`, one entry per SKU (first group wins), in display order */
+export function relatedTo(ix: RelationIndex, sku: string) {
+  const groups: [RelatedGroup, ProductRelation[], "product_sku" | "related_sku"][] = [
+    ["requires", ix.outgoing(sku, "requires"), "related_sku"],
+    ["accessories", ix.incoming(sku, "accessory-of"), "product_sku"],
+    ["spare-parts", ix.incoming(sku, "spare-part-of"), "product_sku"],
+    ["substitutes", ix.incoming(sku, "substitute-for"), "product_sku"],
+    ["fits", ix.outgoing(sku, "accessory-of").concat(ix.outgoing(sku, "spare-part-of")), "related_sku"],
+  ];
+  const seen = new Set([sku]);
+  return groups.flatMap(([group, rows, side]) =>
+    rows.flatMap((r) => {
+      if (seen.has(r[side])) return [];
+      seen.add(r[side]);
+      return [{ group, sku: r[side], note: r.note ?? null }];
+    })
+  );
+}
@@ -0,0 +1,37 @@
+// lib/reservations.test.ts
+import { after, test } from "node:test";
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { getCatalog } from "@/lib/catalog";
+import { makeLocalCatalogWriter } from "@/lib/catalog-admin";
+import { getReservationStore } from "@/lib/reservations";
+
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), "reservations-"));
+const seed = path.join(dir, "catalog.json");
+const product = {
+  sku: "PVC-CPL-075",
+  name: 'Cople recto PVC 3/4"',
+  category: "plomería",
+  price: 11,
+  currency: "MXN",
+  stock: 40,
+};
+fs.writeFileSync(seed, JSON.stringify({ products: [product] }));
+process.env.CATALOG_PROVIDER = "local";
+process.env.CATALOG_FILE = seed;
+process.env.RESERVATIONS_FILE = path.join(dir, "reservations.json");
+after(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+test("holds check the stock an admin edit just wrote", async () => {
+  const before = getReservationStore(getCatalog());
+  assert.equal((await before.available([product.sku])).get(product.sku), 40);
+
+  await makeLocalCatalogWriter(seed).upsertProducts([{ ...product, stock: 0 }]);
+
+  const store = getReservationStore(getCatalog());
+  assert.equal((await store.available([product.sku])).get(product.sku), 0);
+  const held = await store.reserve([{ sku: product.sku, qty: 1 }], 60_000);
+  assert.deepEqual(held, { ok: false, shortfalls: [{ sku: product.sku, requested: 1, available: 0 }] });
+});
@@ -0,0 +1,227 @@
+// lib/reservations.ts
+import { randomUUID } from "crypto";
+import type { CatalogRepository, Product } from "@/lib/catalog";
+import { dataPath, makeJsonFile } from "@/lib/json-file";
+import { matchMeasures, productMeasures } from "@/lib/measure";
+import type { PlanLine } from "@/lib/plan";
+import { loadRelations, substitutesFor } from "@/lib/relations";
+
+/**
+ * Time-limited stock holds placed when a basket is confirmed. A hold counts
+ * against inventory until it is released (order cancelled) or expires, so two
+ * kiosks can't both sell the last cortatubo. Reserving is all-or-nothing: if
+ * any line is short, nothing is held and the shortfalls are reported.
+ */
+export type StockLine = { sku: string; qty: number };
+export type Shortfall = { sku: string; requested: number; available: number };
+export type Reservation = { id: string; expires_at: string };
+export type ReserveResult = { ok: true; reservation: Reservation } | { ok: false; shortfalls: Shortfall[] };
+
+export interface ReservationStore {
+  readonly provider: string;
+  reserve(lines: StockLine[], ttlMs: number): Promise<ReserveResult>;
+  /** Idempotent; releasing an expired or unknown reservation is a no-op */
+  release(id: string): Promise<void>;
+  /** Live stock minus active holds, per SKU (unknown SKUs are omitted) */
+  available(skus: string[]): Promise<Map<string, number>>;
+}
+
+export const DEFAULT_RESERVATION_TTL_MS = 30 * 60_000; // time to walk to the register and pay
+const MAX_ALTERNATIVES = 3;
+
+// ---------- Supabase ----------
+async function admin() {
+  return (await import("@/lib/supabase")).supabaseAdmin;
+}
+
+/**
+ * Holds live in `stock_holds`; `reserve_stock(items, ttl_seconds)` checks and
+ * inserts them in one transaction with the product rows locked (see README).
+ */
+export function makeSupabaseReservationStore(): ReservationStore {
+  return {
+    provider: "supabase",
+
+    async reserve(lines, ttlMs) {
+      const { data, error } = await (await admin()).rpc("reserve_stock", {
+        items: lines,
+        ttl_seconds: Math.round(ttlMs / 1000),
+      });
+      if (error) throw new Error(error.message);
+      const r = data as { ok: boolean; id?: string; expires_at?: string; shortfalls?: Shortfall[] };
+      return r.ok
+        ? { ok: true, reservation: { id: String(r.id), expires_at: String(r.expires_at) } }
+        : { ok: false, shortfalls: r.shortfalls ?? [] };
+    },
+
+    async release(id) {
+      const { error } = await (await admin())
+        .from("stock_holds")
+        .update({ released_at: new Date().toISOString() })
+        .eq("reservation_id", id)
+        .is("released_at", null);
+      if (error) throw new Error(error.message);
+    },
+
+    async available(skus) {
+      const list = Array.from(new Set(skus));
+      if (!list.length) return new Map();
+      const db = await admin();
+      const [products, holds] = await Promise.all([
+        db.from("products").select("sku,stock").in("sku", list),
+        db
+          .from("stock_holds")
+          .select("sku,qty")
+          .in("sku", list)
+          .is("released_at", null)
+          .gt("expires_at", new Date().toISOString()),
+      ]);
+      if (products.error) throw new Error(products.error.message);
+      if (holds.error) throw new Error(holds.error.message);
+      const held = new Map<string, number>();
+      for (const h of (holds.data || []) as StockLine[]) held.set(h.sku, (held.get(h.sku) ?? 0) + Number(h.qty));
+      return new Map(
+        ((products.data || []) as Pick<Product, "sku" | "stock">[]).map((p) => [
+          p.sku,
+          Math.max(0, Number(p.stock) - (held.get(p.sku) ?? 0)),
+        ])
+      );
+    },
+  };
+}
+
+// ---------- Local JSON file ----------
+type Hold = StockLine & { reservation_id: string; expires_at: string; released_at?: string };
+
+/** Holds in one JSON file, checked against the catalog's stock under the file lock */
+export function makeLocalReservationStore(file: string, catalog: CatalogRepository): ReservationStore {
+  const doc = makeJsonFile<{ holds: Hold[] }>(file, () => ({ holds: [] }));
+  const active = (h: Hold, now: number) => !h.released_at && Date.parse(h.expires_at) > now;
+
+  const availableIn = async (holds: Hold[], skus: string[]) => {
+    const now = Date.now();
+    const stock = await catalog.getStock(Array.from(new Set(skus)));
+    const out = new Map<string, number>();
+    for (const [sku, n] of stock) {
+      const held = holds.filter((h) => h.sku === sku && active(h, now)).reduce((s, h) => s + h.qty, 0);
+      out.set(sku, Math.max(0, n - held));
+    }
+    return out;
+  };
+
+  return {
+    provider: "local",
+
+    reserve(lines, ttlMs) {
+      return doc.update(async (d): Promise<ReserveResult> => {
+        const now = Date.now();
+        d.holds = d.holds.filter((h) => active(h, now)); // expired/released holds are dropped here
+        const wanted = new Map<string, number>();
+        for (const l of lines) wanted.set(l.sku, (wanted.get(l.sku) ?? 0) + l.qty);
+
+        const avail = await availableIn(d.holds, Array.from(wanted.keys()));
+        const shortfalls = Array.from(wanted)
+          .filter(([sku, qty]) => (avail.get(sku) ?? 0) < qty)
+          .map(([sku, qty]) => ({ sku, requested: qty, available: avail.get(sku) ?? 0 }));
+        if (shortfalls.length) return { ok: false, shortfalls };
+
+        const reservation = { id: randomUUID(), expires_at: new Date(now + ttlMs).toISOString() };
+        for (const [sku, qty] of wanted) {
+          d.holds.push({ sku, qty, reservation_id: reservation.id, expires_at: reservation.expires_at });
+        }
+        return { ok: true, reservation };
+      });
+    },
+
+    async release(id) {
+      await doc.update((d) => {
+        const at = new Date().toISOString();
+        d.holds.forEach((h) => {
+          if (h.reservation_id === id && !h.released_at) h.released_at = at;
+        });
+      });
+    },
+
+    async available(skus) {
+      return availableIn((await doc.read()).holds, skus);
+    },
+  };
+}
+
+// ---------- Alternatives ----------
+/**
+ * In-stock stand-ins for a short SKU: substitutes from product_relations first,
+ * then the same kind of product (subcategory + first word of the name, "Cople…")
+ * in the same size. Stock is the live availability.
+ */
+export async function findAlternatives(
+  catalog: CatalogRepository,
+  store: ReservationStore,
+  sku: string,
+  { qty = 1, limit = MAX_ALTERNATIVES }: { qty?: number; limit?: number } = {}
+): Promise<PlanLine[]> {
+  const [original] = await catalog.getBySkus([sku], { withSpecs: true });
+  if (!original) return [];
+
+  const relations = await loadRelations(catalog, [sku]);
+  const related = await catalog.getBySkus(substitutesFor(relations, sku));
+  const kind = (p: Product) => `${p.subcategory ?? ""}|${p.name.trim().split(/\s+/)[0].toLowerCase()}`;
+  const sameKind = (await catalog.listProducts()).filter((p) => p.sku !== sku && kind(p) === kind(original));
+  const sizes = productMeasures(original).filter((m) => m.kind === "diameter");
+  const similar = sameKind.filter((p) => matchMeasures(sizes, p) !== "mismatch"); // never another size
+
+  const pool = new Map<string, Product>();
+  [...related, ...similar].forEach((p) => pool.set(p.sku, p));
+  const avail = await store.available(Array.from(pool.keys()));
+
+  return Array.from(pool.values())
+    .filter((p) => (avail.get(p.sku) ?? 0) > 0)
+    .slice(0, limit)
+    .map((p) => {
+      const stock = avail.get(p.sku) ?? 0;
+      return {
+        sku: p.sku,
+        name: p.name,
+        qty: Math.min(qty, stock),
+        price: Number(p.price),
+        currency: p.currency,
+        stock,
+        image_url: p.image_url,
+        location: p.location,
+        category: p.category,
+        why: `En lugar de ${original.name}.`,
+      };
+    });
+}
+
+// ---------- Factory ----------
+let cached: ReservationStore | null = null;
+// the catalog the local store reads stock from: a reloaded one (admin edits) gets a new store
+let cachedFor: CatalogRepository | null = null;
+
+/**
+ * RESERVATIONS_PROVIDER=supabase | local (defaults to CATALOG_PROVIDER)
+ * RESERVATIONS_FILE: local backend file (default .data/reservations.json)
+ * RESERVATION_TTL_MIN: how long a confirmed basket holds stock (default 30)
+ */
+export function getReservationStore(catalog: CatalogRepository): ReservationStore {
+  if (cached && (!cachedFor || cachedFor === catalog)) return cached;
+  const provider = process.env.RESERVATIONS_PROVIDER ?? process.env.CATALOG_PROVIDER ?? "supabase";
+  if (provider === "supabase") cached = makeSupabaseReservationStore();
+  else if (provider === "local") {
+    cached = makeLocalReservationStore(process.env.RESERVATIONS_FILE || dataPath("reservations.json"), catalog);
+    cachedFor = catalog;
+  } else throw new Error(`Unknown RESERVATIONS_PROVIDER "${provider}" (available: supabase, local)`);
+  return cached;
+}
+
+export function reservationTtlMs() {
+  const min = Number(process.env.RESERVATION_TTL_MIN);
+  return min > 0 ? min * 60_000 : DEFAULT_RESERVATION_TTL_MS;
+}
+
+/** Swap the reservation store (tests, scripts). Pass null to go back to the env-configured one. */
+export function setReservationStore(store: ReservationStore | null) {
+  cached = store;
+  cachedFor = null;
+}
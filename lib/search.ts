@@ -0,0 +1,181 @@
+// lib/search.ts
+import type { CatalogRepository, Product, Synonym } from "@/lib/catalog";
+
+/**
+ * Ranked product search shared by /api/search and the agent.
+ * - tokens are accent-folded, lowercased and lightly stemmed ("codos" → "cod", "roscada" → "rosc")
+ * - each query token scores its best match per field: exact > prefix > fuzzy (1-2 typos)
+ * - fields are weighted: name/sku > subcategory > category > brand/description
+ * - products whose synonyms match the query get a boost; in-stock items a small one
+ * e.g. "codo pbc de media" → Codo 90° PVC 1/2" first.
+ */
+export type SearchHit = { product: Product; score: number; matched: string[] };
+export type SearchOptions = { limit?: number; minScore?: number };
+
+const FIELD_WEIGHTS = {
+  name: 3,
+  sku: 3,
+  subcategory: 2,
+  category: 1.5,
+  brand: 1,
+  description: 1,
+} as const;
+type Field = keyof typeof FIELD_WEIGHTS;
+
+const EXACT = 1;
+const PREFIX = 0.8;
+const FUZZY = 0.6;
+const SYNONYM_BOOST = 4;
+const COVERAGE_BOOST = 2; // × share of query tokens matched somewhere
+const IN_STOCK_BOOST = 0.5;
+const MIN_SCORE = 1;
+
+const STOPWORDS = new Set([
+  "de", "del", "la", "las", "el", "los", "un", "una", "unos", "unas", "lo", "le", "al", "a", "y", "o", "e",
+  "en", "con", "para", "por", "que", "se", "mi", "me", "es", "son", "muy", "mas", "favor", "porfa",
+  "tengo", "tiene", "tienen", "necesito", "quiero", "busco", "ocupo", "hay", "dame", "agrega", "pon",
+  "algo", "otro", "otra", "este", "esta", "ese", "esa", "como", "cual",
+]);
+
+export function fold(s: string) {
+  return (s || "").toLowerCase().normalize("NFD").replace(/\p{Diacritic}/gu, "");
+}
+
+/** Light Spanish stemmer: plural, then gender/final vowel on longer words */
+export function stem(w: string) {
+  if (/\d/.test(w)) return w;
+  let s = w;
+  if (s.length > 4 && /[^aeiou]es$/.test(s)) s = s.slice(0, -2);
+  else if (s.length > 3 && s.endsWith("s")) s = s.slice(0, -1);
+  if (s.length > 4 && /[aeo]$/.test(s)) s = s.slice(0, -1);
+  if (s.length > 5 && /(ad|id)$/.test(s)) s = s.slice(0, -2);
+  return s;
+}
+
+// folded words, keeping fractions and decimals ("1/2", "2.5") since sizes matter
+function words(text: string, keepStopwords: boolean) {
+  return fold(text)
+    .split(/[^a-z0-9/.]+/)
+    .map((t) => t.replace(/^[/.]+|[/.]+$/g, ""))
+    .filter((t) => t.length >= 2 || /\d/.test(t))
+    .filter((t) => keepStopwords || !STOPWORDS.has(t));
+}
+
+/** Tokens keep fractions and decimals ("1/2", "2.5") since sizes matter */
+export function tokenize(text: string, { keepStopwords = false } = {}) {
+  return words(text, keepStopwords).map(stem);
+}
+
+/** Readable normal form, no stemming: "Necesito un CHUPÓN!" → "chupon" */
+export function normalizeQueryText(text: string) {
+  return words(text, false).join(" ");
+}
+
+/** Damerau-Levenshtein (optimal string alignment), bailing out above `max` */
+export function editDistance(a: string, b: string, max = 2) {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+  const d: number[][] = Array.from({ length: a.length + 1 }, (_, i) => [i, ...Array(b.length).fill(0)]);
+  for (let j = 1; j <= b.length; j++) d[0][j] = j;
+  for (let i = 1; i <= a.length; i++) {
+    let rowMin = Infinity;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      d[i][j] = Math.min(d[i - 1][j] + 1, d[i][j - 1] + 1, d[i - 1][j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        d[i][j] = Math.min(d[i][j], d[i - 2][j - 2] + 1);
+      }
+      rowMin = Math.min(rowMin, d[i][j]);
+    }
+    if (rowMin > max) return max + 1;
+  }
+  return d[a.length][b.length];
+}
+
+const allowedTypos = (t: string) => (/\d/.test(t) ? 0 : t.length >= 7 ? 2 : t.length >= 3 ? 1 : 0);
+
+/** Match quality of a query token against one field token (0 = no match) */
+export function tokenMatch(q: string, f: string) {
+  if (q === f) return EXACT;
+  if (/\d/.test(q) || /\d/.test(f)) return 0;
+  if (q.length >= 3 && (f.startsWith(q) || (f.length >= 4 && q.startsWith(f)))) return PREFIX;
+  const typos = allowedTypos(q);
+  if (typos && editDistance(q, f, typos) <= typos) return FUZZY;
+  return 0;
+}
+
+// ---------- Index ----------
+type IndexedProduct = { product: Product; fields: [Field, string[]][] };
+export type SearchIndex = { items: IndexedProduct[]; synonyms: Map<string, string[][]> };
+
+export function buildSearchIndex(products: Product[], synonyms: Synonym[] = []): SearchIndex {
+  const items = products.map((p) => ({
+    product: p,
+    fields: (Object.keys(FIELD_WEIGHTS) as Field[]).map((f) => [f, tokenize(String(p[f] ?? ""), { keepStopwords: true })] as [Field, string[]]),
+  }));
+  const syn = new Map<string, string[][]>();
+  for (const s of synonyms) {
+    const toks = tokenize(s.term);
+    if (!toks.length) continue;
+    syn.set(s.product_sku, [...(syn.get(s.product_sku) ?? []), toks]);
+  }
+  return { items, synonyms: syn };
+}
+
+/** Pure ranking over an index */
+export function rankProducts(index: SearchIndex, query: string, opts: SearchOptions = {}): SearchHit[] {
+  const { limit = 20, minScore = MIN_SCORE } = opts;
+  const qTokens = Array.from(new Set(tokenize(query)));
+  if (!qTokens.length) return [];
+
+  const hits: SearchHit[] = [];
+  for (const { product, fields } of index.items) {
+    let score = 0;
+    const matched: string[] = [];
+    for (const q of qTokens) {
+      let best = 0;
+      for (const [field, toks] of fields) {
+        for (const t of toks) {
+          const m = tokenMatch(q, t) * FIELD_WEIGHTS[field];
+          if (m > best) best = m;
+        }
+      }
+      if (best > 0) matched.push(q);
+      score += best;
+    }
+
+    // synonym term fully present in the query ("cinta para rosca", "perica")
+    const terms = index.synonyms.get(product.sku) ?? [];
+    if (terms.some((term) => term.every((t) => qTokens.some((q) => tokenMatch(q, t) > 0)))) {
+      score += SYNONYM_BOOST;
+    }
+    if (score <= 0) continue;
+
+    score += COVERAGE_BOOST * (matched.length / qTokens.length);
+    if (Number(product.stock) > 0) score += IN_STOCK_BOOST;
+    if (score >= minScore) hits.push({ product, score: Math.round(score * 100) / 100, matched });
+  }
+
+  return hits.sort((a, b) => b.score - a.score).slice(0, limit);
+}
+
+// ---------- Cached index per catalog ----------
+const INDEX_TTL_MS = Number(process.env.SEARCH_INDEX_TTL_MS ?? 60_000);
+const cache = new WeakMap<CatalogRepository, { at: number; index: Promise<SearchIndex> }>();
+
+export function getSearchIndex(catalog: CatalogRepository): Promise<SearchIndex> {
+  const hit = cache.get(catalog);
+  if (hit && Date.now() - hit.at < INDEX_TTL_MS) return hit.index;
+  const index = Promise.all([catalog.listProducts(), catalog.listSynonyms()]).then(([p, s]) => buildSearchIndex(p, s));
+  cache.set(catalog, { at: Date.now(), index });
+  index.catch(() => cache.delete(catalog));
+  return index;
+}
+
+/** Drop the cached index (after catalog edits) */
+export function invalidateSearchIndex(catalog: CatalogRepository) {
+  cache.delete(catalog);
+}
+
+export async function searchProducts(catalog: CatalogRepository, query: string, opts: SearchOptions = {}) {
+  return rankProducts(await getSearchIndex(catalog), query, opts);
+}
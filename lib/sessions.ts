@@ -0,0 +1,319 @@
+// lib/sessions.ts
+import { randomUUID } from "crypto";
+import { applyCartOps, opTarget } from "@/lib/cart-ops";
+import type { CatalogRepository } from "@/lib/catalog";
+import { dataPath, makeJsonFile } from "@/lib/json-file";
+import { describeMeasure, parseMeasures } from "@/lib/measure";
+import { CartOp, CartOpSchema } from "@/lib/plan";
+
+/**
+ * One customer's conversation, kept on the server from "Nueva consulta" until
+ * it goes idle: the transcript (recent turns verbatim, older ones folded into
+ * a summary), the cart the agent works from, and facts picked up along the way
+ * (material, diameter, project). Clients only send the session id, so they
+ * can't slip SKUs or quantities into the agent's context.
+ */
+export type SessionTurn = { role: "user" | "assistant"; text: string; at: string };
+export type SessionFacts = { material?: string; diameter?: string; project?: string };
+export type CartLine = { sku: string; qty: number };
+
+/** A removal or new quantity the customer asked for without saying which line: the lines offered, in order */
+export type PendingChoice = { type: "remove" | "setQty"; qty?: number; skus: string[] };
+
+export type Session = {
+  id: string;
+  kiosk_id: string | null;
+  /** turns older than the last KEEP_TURNS, condensed */
+  summary: string;
+  turns: SessionTurn[];
+  turn_count: number;
+  cart: CartLine[];
+  facts: SessionFacts;
+  /** ticket labels placed from this session */
+  orders: string[];
+  /** the question the last turn asked back ("¿cuál quieres quitar?"), if any */
+  pending?: PendingChoice | null;
+  created_at: string;
+  updated_at: string;
+  expires_at: string;
+};
+
+/** A basket edit made on screen: the same operations the agent answers with */
+export type CartEdit = CartOp;
+
+export interface SessionStore {
+  readonly provider: string;
+  create(kioskId: string | null): Promise<Session>;
+  /** null when unknown or expired */
+  get(id: string): Promise<Session | null>;
+  /** Stores the session and pushes its expiry out by the TTL */
+  save(session: Session): Promise<Session>;
+}
+
+export const DEFAULT_SESSION_TTL_MS = 30 * 60_000;
+export const KEEP_TURNS = 8;
+const MAX_SUMMARY_CHARS = 1200;
+
+// ---------- Transcript and facts ----------
+const fold = (s: string) => s.toLowerCase().normalize("NFD").replace(/\p{Diacritic}/gu, "");
+const clip = (s: string, n: number) => (s.length > n ? `${s.slice(0, n - 1)}…` : s);
+
+const MATERIALS: [RegExp, string][] = [
+  [/\bcpvc\b/, "CPVC"],
+  [/\bpvc\b/, "PVC"],
+  [/\bcobre\b/, "cobre"],
+  [/\bpex\b/, "PEX"],
+  [/galvanizad/, "galvanizado"],
+  [/tablaroca|drywall/, "tablaroca"],
+  [/\bmadera\b/, "madera"],
+  [/concreto|\bmuro\b|\bpared\b/, "concreto"],
+];
+
+const PROJECTS: [RegExp, string][] = [
+  [/fuga|gotea|goteo/, "reparar una fuga"],
+  [/bano|regadera|lavabo|inodoro|\bwc\b/, "baño"],
+  [/cocina|fregadero|tarja/, "cocina"],
+  [/jardin|riego|manguera/, "jardín y riego"],
+  [/pintar|pintura|resanar/, "pintura"],
+  [/colgar|repisa|cuadro|taquete/, "fijar o colgar"],
+  [/contacto|apagador|cableado|electric/, "instalación eléctrica"],
+];
+
+/** Facts from the customer's words; a newer mention wins */
+export function deriveFacts(facts: SessionFacts, text: string): SessionFacts {
+  const s = fold(text);
+  const out = { ...facts };
+  const material = MATERIALS.find(([re]) => re.test(s));
+  if (material) out.material = material[1];
+  const project = PROJECTS.find(([re]) => re.test(s));
+  if (project) out.project = project[1];
+  const diameter = parseMeasures(text).find((m) => m.kind === "diameter");
+  if (diameter) out.diameter = describeMeasure(diameter).replace(/^medida /, "");
+  return out;
+}
+
+export function describeFacts(facts: SessionFacts) {
+  return [
+    facts.project && `proyecto: ${facts.project}`,
+    facts.material && `material: ${facts.material}`,
+    facts.diameter && `medida: ${facts.diameter}`,
+  ]
+    .filter(Boolean)
+    .join("; ");
+}
+
+/** Older turns as one line each, newest kept when it grows past MAX_SUMMARY_CHARS */
+export function summarizeTurns(summary: string, turns: SessionTurn[]) {
+  const lines = turns.map((t) =>
+    t.role === "user" ? `- Cliente: ${clip(t.text, 120)}` : `- Asistente: ${clip(t.text.replace(/\*\*/g, ""), 80)}`
+  );
+  const all = [...(summary ? summary.split("\n") : []), ...lines];
+  while (all.length > 1 && all.join("\n").length > MAX_SUMMARY_CHARS) all.shift();
+  return all.join("\n");
+}
+
+/** Appends a turn; customer turns also update the facts */
+export function recordTurn(session: Session, role: SessionTurn["role"], text: string, now = new Date()) {
+  session.turns.push({ role, text, at: now.toISOString() });
+  session.turn_count += 1;
+  if (role === "user") session.facts = deriveFacts(session.facts, text);
+  if (session.turns.length > KEEP_TURNS) {
+    const old = session.turns.splice(0, session.turns.length - KEEP_TURNS);
+    session.summary = summarizeTurns(session.summary, old);
+  }
+  return session;
+}
+
+/**
+ * On-screen basket edits (remove, +/−, "Agregar" on a suggestion, swaps for
+ * short lines), applied with the agent's reducer (lib/cart-ops) against real
+ * products and `available` stock. All or nothing: one bad edit rejects them all.
+ */
+export async function applyCartEdits(
+  catalog: CatalogRepository,
+  cart: CartLine[],
+  edits: CartEdit[],
+  available?: ReadonlyMap<string, number>
+): Promise<{ ok: true; cart: CartLine[] } | { ok: false; error: string }> {
+  const parsed = edits.map((e) => CartOpSchema.safeParse(e));
+  if (parsed.some((r) => !r.success)) return { ok: false, error: "invalid edit" };
+  const ops = parsed.flatMap((r) => (r.success ? [r.data] : []));
+
+  const skus = Array.from(new Set([...cart.map((l) => l.sku), ...ops.map(opTarget)]));
+  const products = new Map((await catalog.getBySkus(skus)).map((p) => [p.sku, p]));
+  const { cart: next, outcomes } = applyCartOps(cart, ops, { products, available });
+  const failed = outcomes.find((o) => !o.ok);
+  if (failed && !failed.ok) return { ok: false, error: `${opTarget(failed.op)}: ${failed.error}` };
+  return { ok: true, cart: next };
+}
+
+function newSession(kioskId: string | null, ttlMs: number): Session {
+  const now = new Date();
+  return {
+    id: randomUUID(),
+    kiosk_id: kioskId,
+    summary: "",
+    turns: [],
+    turn_count: 0,
+    cart: [],
+    facts: {},
+    orders: [],
+    pending: null,
+    created_at: now.toISOString(),
+    updated_at: now.toISOString(),
+    expires_at: new Date(now.getTime() + ttlMs).toISOString(),
+  };
+}
+
+const touch = (s: Session, ttlMs: number): Session => {
+  const now = Date.now();
+  return { ...s, updated_at: new Date(now).toISOString(), expires_at: new Date(now + ttlMs).toISOString() };
+};
+
+const live = (s: Session | null | undefined) => (s && Date.parse(s.expires_at) > Date.now() ? s : null);
+
+// ---------- In memory ----------
+// each API route is its own bundle (and dev reloads modules), so the map hangs off globalThis
+const shared = globalThis as typeof globalThis & { __kioskSessions?: Map<string, Session> };
+
+/** Per server process; expired sessions are swept whenever one is created */
+export function makeMemorySessionStore(ttlMs = DEFAULT_SESSION_TTL_MS): SessionStore {
+  const sessions = (shared.__kioskSessions ??= new Map<string, Session>());
+  const copy = (s: Session): Session => JSON.parse(JSON.stringify(s));
+
+  return {
+    provider: "memory",
+
+    async create(kioskId) {
+      for (const [id, s] of sessions) if (!live(s)) sessions.delete(id);
+      const s = newSession(kioskId, ttlMs);
+      sessions.set(s.id, s);
+      return copy(s);
+    },
+
+    async get(id) {
+      const s = live(sessions.get(id));
+      return s && copy(s);
+    },
+
+    async save(session) {
+      const s = touch(session, ttlMs);
+      sessions.set(s.id, copy(s));
+      return s;
+    },
+  };
+}
+
+// ---------- Local JSON file ----------
+/** Sessions in one JSON file; expired ones stay there as the interaction record */
+export function makeLocalSessionStore(file: string, ttlMs = DEFAULT_SESSION_TTL_MS): SessionStore {
+  const doc = makeJsonFile<{ sessions: Session[] }>(file, () => ({ sessions: [] }));
+
+  return {
+    provider: "local",
+
+    create(kioskId) {
+      return doc.update((d) => {
+        const s = newSession(kioskId, ttlMs);
+        d.sessions.push(s);
+        return s;
+      });
+    },
+
+    async get(id) {
+      return live((await doc.read()).sessions.find((s) => s.id === id));
+    },
+
+    save(session) {
+      return doc.update((d) => {
+        const s = touch(session, ttlMs);
+        const at = d.sessions.findIndex((x) => x.id === s.id);
+        if (at >= 0) d.sessions[at] = s;
+        else d.sessions.push(s);
+        return s;
+      });
+    },
+  };
+}
+
+// ---------- Supabase ----------
+async function admin() {
+  return (await import("@/lib/supabase")).supabaseAdmin;
+}
+
+const SESSION_COLUMNS = [
+  "id",
+  "kiosk_id",
+  "summary",
+  "turns",
+  "turn_count",
+  "cart",
+  "facts",
+  "orders",
+  "pending",
+  "created_at",
+  "updated_at",
+  "expires_at",
+].join(",");
+
+/** Table `kiosk_sessions`, one row per session (see README); rows outlive their TTL as the record */
+export function makeSupabaseSessionStore(ttlMs = DEFAULT_SESSION_TTL_MS): SessionStore {
+  return {
+    provider: "supabase",
+
+    async create(kioskId) {
+      const s = newSession(kioskId, ttlMs);
+      const { error } = await (await admin()).from("kiosk_sessions").insert(s);
+      if (error) throw new Error(error.message);
+      return s;
+    },
+
+    async get(id) {
+      const { data, error } = await (await admin())
+        .from("kiosk_sessions")
+        .select(SESSION_COLUMNS)
+        .eq("id", id)
+        .gt("expires_at", new Date().toISOString())
+        .maybeSingle();
+      if (error) throw new Error(error.message);
+      return (data as Session | null) ?? null;
+    },
+
+    async save(session) {
+      const s = touch(session, ttlMs);
+      const { error } = await (await admin()).from("kiosk_sessions").upsert(s);
+      if (error) throw new Error(error.message);
+      return s;
+    },
+  };
+}
+
+// ---------- Factory ----------
+let cached: SessionStore | null = null;
+
+/**
+ * SESSIONS_PROVIDER=memory (default) | local | supabase
+ * SESSIONS_FILE: local backend file (default .data/sessions.json)
+ * SESSION_TTL_MIN: idle minutes before a session expires (default 30)
+ */
+export function getSessionStore(): SessionStore {
+  if (cached) return cached;
+  const provider = process.env.SESSIONS_PROVIDER ?? "memory";
+  const ttlMs = sessionTtlMs();
+  if (provider === "memory") cached = makeMemorySessionStore(ttlMs);
+  else if (provider === "local") {
+    cached = makeLocalSessionStore(process.env.SESSIONS_FILE || dataPath("sessions.json"), ttlMs);
+  } else if (provider === "supabase") cached = makeSupabaseSessionStore(ttlMs);
+  else throw new Error(`Unknown SESSIONS_PROVIDER "${provider}" (available: memory, local, supabase)`);
+  return cached;
+}
+
+export function sessionTtlMs() {
+  const min = Number(process.env.SESSION_TTL_MIN);
+  return min > 0 ? min * 60_000 : DEFAULT_SESSION_TTL_MS;
+}
+
+/** Swap the session store (tests, scripts). Pass null to go back to the env-configured one. */
+export function setSessionStore(store: SessionStore | null) {
+  cached = store;
+}
@@ -0,0 +1,64 @@
+// lib/sse.ts
+import type { ServerResponse } from "http";
+
+/**
+ * Server-Sent Events both ways: `openSse` writes `event:`/`data:` frames on an
+ * API response, `readSse` parses them from a fetch() body in the browser
+ * (EventSource can't POST). Data is always JSON.
+ */
+export function openSse(res: ServerResponse) {
+  res.writeHead(200, {
+    "Content-Type": "text/event-stream; charset=utf-8",
+    "Cache-Control": "no-cache, no-transform",
+    Connection: "keep-alive",
+    // keeps Next's gzip and reverse proxies from buffering the frames
+    "Content-Encoding": "none",
+    "X-Accel-Buffering": "no",
+  });
+  res.flushHeaders();
+  const open = () => !res.writableEnded && !res.destroyed;
+  return {
+    send(event: string, data: unknown) {
+      if (open()) res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    },
+    close() {
+      if (open()) res.end();
+    },
+  };
+}
+
+export async function readSse(res: Response, onEvent: (event: string, data: unknown) => void) {
+  if (!res.body) return;
+  const reader = res.body.getReader();
+  const decoder = new TextDecoder();
+  let buf = "";
+
+  const dispatch = (frame: string) => {
+    let event = "message";
+    const data: string[] = [];
+    for (const line of frame.split("\n")) {
+      if (line.startsWith("event:")) event = line.slice(6).trim();
+      else if (line.startsWith("data:")) data.push(line.slice(5).replace(/^ /, ""));
+    }
+    if (!data.length) return; // comment / keep-alive
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(data.join("\n"));
+    } catch (e) {
+      console.warn("sse: bad frame skipped:", (e as Error)?.message);
+      return;
+    }
+    onEvent(event, parsed);
+  };
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buf += decoder.decode(value, { stream: true }).replace(/\r\n?/g, "\n");
+    for (let at = buf.indexOf("\n\n"); at >= 0; at = buf.indexOf("\n\n")) {
+      dispatch(buf.slice(0, at));
+      buf = buf.slice(at + 2);
+    }
+  }
+  if (buf.trim()) dispatch(buf);
+}
@@ -0,0 +1,234 @@
+// lib/tools.ts
+import { applyCartOps, opTarget, wholeQty } from "@/lib/cart-ops";
+import type { CatalogRepository, Product } from "@/lib/catalog";
+import type { ToolSchema } from "@/lib/llm";
+import { filterByMeasures, parseMeasures } from "@/lib/measure";
+import { MAX_LINE_QTY } from "@/lib/orders";
+import type { CartOp } from "@/lib/plan";
+import { findAlternatives, ReservationStore } from "@/lib/reservations";
+import { searchProducts } from "@/lib/search";
+import type { CartLine } from "@/lib/sessions";
+
+/**
+ * Tools the agent model may call (lib/agent.ts), run by the server against the
+ * catalog and live stock. Limits are enforced here, not in the prompt: results
+ * are capped, only SKUs a tool has shown can go into the cart, and quantities
+ * stay within live availability (the same cart operations as the classic
+ * agent, lib/cart-ops). Tools never throw at the model; a failure
+ * comes back as { ok: false, error } so it can correct itself.
+ */
+export type ToolContext = {
+  catalog: CatalogRepository;
+  reservations: ReservationStore;
+  /** working copy of the customer's cart; add/remove change it */
+  cart: CartLine[];
+  /** products a tool has shown this turn, plus the cart: the only SKUs the model may add */
+  seen: Map<string, Product>;
+  /** the model's reason per added SKU, shown on the basket line */
+  reasons: Map<string, string>;
+};
+
+export type ToolResult = { ok: boolean; error?: string; [key: string]: unknown };
+
+export const MAX_SEARCH_RESULTS = 8;
+const MAX_SKUS_PER_CALL = 10;
+const MAX_QUERY_CHARS = 200;
+
+const skuList = { type: "array", items: { type: "string" }, maxItems: MAX_SKUS_PER_CALL };
+
+export const AGENT_TOOLS: ToolSchema[] = [
+  {
+    name: "search_products",
+    description:
+      "Busca productos en el catálogo por descripción, uso o medida (acepta modismos y errores). " +
+      "Devuelve SKU, nombre, precio, categoría y existencias reales.",
+    parameters: {
+      type: "object",
+      properties: {
+        query: { type: "string", description: 'p. ej. "cople pvc 1/2", "algo para sellar roscas"' },
+        limit: { type: "integer", minimum: 1, maximum: MAX_SEARCH_RESULTS },
+      },
+      required: ["query"],
+    },
+  },
+  {
+    name: "get_product_specs",
+    description: "Ficha completa de productos: descripción, marca y especificaciones (medidas, material, rosca…).",
+    parameters: { type: "object", properties: { skus: skuList }, required: ["skus"] },
+  },
+  {
+    name: "check_stock",
+    description: "Existencias disponibles ahora (descontando apartados de otros clientes).",
+    parameters: { type: "object", properties: { skus: skuList }, required: ["skus"] },
+  },
+  {
+    name: "find_substitutes",
+    description:
+      "Alternativas EN STOCK para un producto agotado o que no convence: " +
+      "sustitutos y el mismo tipo en la misma medida.",
+    parameters: {
+      type: "object",
+      properties: { sku: { type: "string" }, qty: { type: "integer", minimum: 1 } },
+      required: ["sku"],
+    },
+  },
+  {
+    name: "add_to_cart",
+    description:
+      "Agrega piezas de un producto a la canasta (suma a lo que ya haya). " +
+      "Solo SKUs que devolvió otra herramienta.",
+    parameters: {
+      type: "object",
+      properties: {
+        sku: { type: "string" },
+        qty: { type: "integer", minimum: 1, maximum: MAX_LINE_QTY },
+        why: { type: "string", description: "Motivo breve para el cliente" },
+      },
+      required: ["sku", "qty"],
+    },
+  },
+  {
+    name: "remove_from_cart",
+    description: "Quita un producto de la canasta, o solo `qty` piezas si se indica.",
+    parameters: {
+      type: "object",
+      properties: { sku: { type: "string" }, qty: { type: "integer", minimum: 1 } },
+      required: ["sku"],
+    },
+  },
+];
+
+// ---------- Executors ----------
+type Args = Record<string, unknown>;
+
+const str = (v: unknown) => (typeof v === "string" ? v.trim() : "");
+// an absent qty is the tool's default; one given must be whole pieces within the line limit
+const BAD_QTY = { ok: false, error: `qty debe ser un entero entre 1 y ${MAX_LINE_QTY}` };
+const skusOf = (v: unknown) =>
+  Array.from(new Set((Array.isArray(v) ? v : [v]).map(str).filter(Boolean))).slice(0, MAX_SKUS_PER_CALL);
+
+// live availability; falls back to catalog stock if the hold store is down
+async function liveStock(ctx: ToolContext, skus: string[]) {
+  try {
+    return await ctx.reservations.available(skus);
+  } catch (e) {
+    console.warn("tools: live stock unavailable:", (e as Error)?.message);
+    return ctx.catalog.getStock(skus);
+  }
+}
+
+const row = (p: Product, stock: number) => ({
+  sku: p.sku,
+  name: p.name,
+  brand: p.brand ?? undefined,
+  category: p.category ?? undefined,
+  price: Number(p.price),
+  currency: p.currency,
+  stock,
+});
+
+// one cart operation on the working cart (lib/cart-ops), against what the model has seen and live stock
+async function cartOp(ctx: ToolContext, op: CartOp): Promise<ToolResult> {
+  const available = await liveStock(ctx, [opTarget(op)]);
+  const { cart, outcomes } = applyCartOps(ctx.cart, [op], { products: ctx.seen, available });
+  const out = outcomes[0];
+  if (!out.ok) return { ok: false, error: out.error, available: out.available, cart: cartView(ctx) };
+  ctx.cart.splice(0, ctx.cart.length, ...cart);
+  return { ok: true, cart: cartView(ctx) };
+}
+
+const cartView = (ctx: ToolContext) =>
+  ctx.cart.map((l) => ({ sku: l.sku, name: ctx.seen.get(l.sku)?.name, qty: l.qty }));
+
+const executors: Record<string, (ctx: ToolContext, args: Args) => Promise<ToolResult>> = {
+  async search_products(ctx, args) {
+    const query = str(args.query).slice(0, MAX_QUERY_CHARS);
+    if (!query) return { ok: false, error: "query requerido" };
+    const limit = Math.min(wholeQty(args.limit) ?? MAX_SEARCH_RESULTS, MAX_SEARCH_RESULTS);
+    const hits = await searchProducts(ctx.catalog, query, { limit: limit * 2 });
+    const products = filterByMeasures(
+      hits.map((h) => h.product),
+      parseMeasures(query)
+    ).kept.slice(0, limit);
+    products.forEach((p) => ctx.seen.set(p.sku, p));
+    const stock = await liveStock(ctx, products.map((p) => p.sku));
+    return { ok: true, query, products: products.map((p) => row(p, stock.get(p.sku) ?? Number(p.stock))) };
+  },
+
+  async get_product_specs(ctx, args) {
+    const skus = skusOf(args.skus);
+    if (!skus.length) return { ok: false, error: "skus requerido" };
+    const found = await ctx.catalog.getBySkus(skus, { withSpecs: true });
+    found.forEach((p) => ctx.seen.set(p.sku, p));
+    const stock = await liveStock(ctx, found.map((p) => p.sku));
+    return {
+      ok: true,
+      products: found.map((p) => ({
+        ...row(p, stock.get(p.sku) ?? Number(p.stock)),
+        description: p.description,
+        specs: p.specs,
+      })),
+      unknown: skus.filter((s) => !found.some((p) => p.sku === s)),
+    };
+  },
+
+  async check_stock(ctx, args) {
+    const skus = skusOf(args.skus);
+    if (!skus.length) return { ok: false, error: "skus requerido" };
+    const stock = await liveStock(ctx, skus);
+    return { ok: true, stock: Object.fromEntries(skus.map((s) => [s, stock.has(s) ? stock.get(s) : null])) };
+  },
+
+  async find_substitutes(ctx, args) {
+    const sku = str(args.sku);
+    if (!sku) return { ok: false, error: "sku requerido" };
+    const alternatives = await findAlternatives(ctx.catalog, ctx.reservations, sku, { qty: wholeQty(args.qty) ?? 1 });
+    (await ctx.catalog.getBySkus(alternatives.map((a) => a.sku))).forEach((p) => ctx.seen.set(p.sku, p));
+    return {
+      ok: true,
+      alternatives: alternatives.map((a) => ({
+        sku: a.sku,
+        name: a.name,
+        price: a.price,
+        currency: a.currency,
+        stock: a.stock,
+      })),
+    };
+  },
+
+  async add_to_cart(ctx, args) {
+    const sku = str(args.sku);
+    if (!ctx.seen.has(sku)) return { ok: false, error: `SKU ${sku} no visto; búscalo primero con search_products` };
+    const qty = wholeQty(args.qty ?? 1);
+    if (!qty) return BAD_QTY;
+    const res = await cartOp(ctx, { type: "add", sku, qty });
+    const why = str(args.why);
+    if (res.ok && why) ctx.reasons.set(sku, why.slice(0, 160));
+    return res;
+  },
+
+  async remove_from_cart(ctx, args) {
+    const qty = args.qty === undefined || args.qty === null ? undefined : wholeQty(args.qty);
+    if (qty === null) return BAD_QTY;
+    return cartOp(ctx, { type: "remove", sku: str(args.sku), qty });
+  },
+};
+
+/** Runs one tool call; unknown tools, bad JSON and thrown errors all come back as { ok: false } */
+export async function runTool(ctx: ToolContext, name: string, rawArgs: string): Promise<ToolResult> {
+  const exec = executors[name];
+  if (!exec) return { ok: false, error: `herramienta desconocida: ${name}` };
+  let args: Args;
+  try {
+    const parsed = JSON.parse(rawArgs || "{}");
+    args = parsed && typeof parsed === "object" ? parsed : {};
+  } catch {
+    return { ok: false, error: "argumentos no son JSON válido" };
+  }
+  try {
+    return await exec(ctx, args);
+  } catch (e) {
+    console.warn(`tools: ${name} failed:`, (e as Error)?.message);
+    return { ok: false, error: "la herramienta falló; intenta otra cosa" };
+  }
+}
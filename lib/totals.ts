@@ -0,0 +1,156 @@
+// lib/totals.ts
+import defaultTaxConfig from "@/data/tax.json";
+
+/**
+ * Basket/order totals shared by the basket, the receipts and /api/orders.
+ * Amounts are worked in integer cents and rounded half-up once per line, so
+ * the same basket always gives the same subtotal/IVA/total everywhere.
+ *
+ * data/tax.json:
+ * - pricesIncludeTax: catalog prices already carry IVA (shelf prices) or not
+ * - defaultRate / categoryRates: IVA per product category (0.16, 0.08, 0…)
+ * - mixedCurrency: "reject" a basket with several currencies, or "convert"
+ *   them to baseCurrency with exchangeRates (base units per 1 foreign unit)
+ */
+export type TaxConfig = {
+  pricesIncludeTax: boolean;
+  defaultRate: number;
+  categoryRates: Record<string, number>;
+  taxLabel: string;
+  baseCurrency: string;
+  mixedCurrency: "reject" | "convert" | string;
+  exchangeRates: Record<string, number>;
+};
+
+export const DEFAULT_TAX_CONFIG: TaxConfig = defaultTaxConfig;
+
+export type TotalsLine = {
+  sku: string;
+  price: number;
+  qty: number;
+  currency: string;
+  category?: string | null;
+  /** promotion discount on the whole line, same currency/tax basis as `price` (lib/promotions) */
+  discount?: number;
+};
+
+export type LineTotals = {
+  sku: string;
+  qty: number;
+  /** unit price as charged, in the totals currency */
+  unit: number;
+  /** what the customer pays for the line (tax included, after discount) */
+  amount: number;
+  discount: number;
+  base: number;
+  tax: number;
+  rate: number;
+};
+
+export type TaxBreakdown = { rate: number; base: number; tax: number };
+
+export type Totals = {
+  currency: string;
+  taxIncluded: boolean;
+  taxLabel: string;
+  /** before tax, after discounts */
+  subtotal: number;
+  /** promotions taken off, as the customer sees prices */
+  discount: number;
+  tax: number;
+  total: number;
+  taxes: TaxBreakdown[];
+  lines: LineTotals[];
+};
+
+export type TotalsResult = { ok: true; totals: Totals } | { ok: false; error: string; currencies: string[] };
+
+const fold = (s?: string | null) => (s || "").toLowerCase().normalize("NFD").replace(/\p{Diacritic}/gu, "").trim();
+
+/** Half-up to cents; the epsilon keeps 1.005 from becoming 1.00 */
+export const toCents = (n: number) => Math.sign(n) * Math.round(Math.abs(n) * 100 + 1e-7);
+export const fromCents = (c: number) => c / 100;
+export const roundMoney = (n: number) => fromCents(toCents(n));
+
+export function taxRateFor(category: string | null | undefined, cfg: TaxConfig = DEFAULT_TAX_CONFIG) {
+  const key = fold(category);
+  for (const [k, rate] of Object.entries(cfg.categoryRates)) if (fold(k) === key) return rate;
+  return cfg.defaultRate;
+}
+
+/** "MXN 1,234.50" */
+export function formatMoney(n: number, currency: string) {
+  return `${currency} ${roundMoney(n).toLocaleString("en-US", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+}
+
+/** "IVA 16%" */
+export function taxName(rate: number, cfg: TaxConfig = DEFAULT_TAX_CONFIG) {
+  return `${cfg.taxLabel} ${Math.round(rate * 10000) / 100}%`;
+}
+
+export function computeTotals(lines: TotalsLine[], cfg: TaxConfig = DEFAULT_TAX_CONFIG): TotalsResult {
+  const currencies = Array.from(new Set(lines.map((l) => l.currency || cfg.baseCurrency)));
+  let currency = currencies[0] ?? cfg.baseCurrency;
+  let rateTo: (c: string) => number = () => 1;
+
+  if (currencies.length > 1) {
+    const missing = currencies.filter((c) => c !== cfg.baseCurrency && !(cfg.exchangeRates[c] > 0));
+    if (cfg.mixedCurrency !== "convert" || missing.length) {
+      return { ok: false, error: "La canasta mezcla monedas.", currencies };
+    }
+    currency = cfg.baseCurrency;
+    rateTo = (c) => (c === cfg.baseCurrency ? 1 : cfg.exchangeRates[c]);
+  }
+
+  const byRate = new Map<number, { base: number; tax: number }>();
+  let discount = 0;
+  const out: LineTotals[] = lines.map((l) => {
+    const qty = Math.max(1, Math.round(Number(l.qty) || 1));
+    const fx = rateTo(l.currency || cfg.baseCurrency);
+    const unitCents = toCents((Number(l.price) || 0) * fx);
+    const off = Math.min(unitCents * qty, Math.max(0, toCents((Number(l.discount) || 0) * fx)));
+    const rate = taxRateFor(l.category, cfg);
+    let base: number;
+    let tax: number;
+    if (cfg.pricesIncludeTax) {
+      const gross = unitCents * qty - off;
+      base = Math.round(gross / (1 + rate));
+      tax = gross - base;
+    } else {
+      base = unitCents * qty - off;
+      tax = Math.round(base * rate);
+    }
+    discount += off;
+    const g = byRate.get(rate) ?? { base: 0, tax: 0 };
+    byRate.set(rate, { base: g.base + base, tax: g.tax + tax });
+    return {
+      sku: l.sku,
+      qty,
+      unit: fromCents(unitCents),
+      amount: fromCents(base + tax),
+      discount: fromCents(off),
+      base: fromCents(base),
+      tax: fromCents(tax),
+      rate,
+    };
+  });
+
+  const base = Array.from(byRate.values()).reduce((s, g) => s + g.base, 0);
+  const tax = Array.from(byRate.values()).reduce((s, g) => s + g.tax, 0);
+  return {
+    ok: true,
+    totals: {
+      currency,
+      taxIncluded: cfg.pricesIncludeTax,
+      taxLabel: cfg.taxLabel,
+      subtotal: fromCents(base),
+      discount: fromCents(discount),
+      tax: fromCents(tax),
+      total: fromCents(base + tax),
+      taxes: Array.from(byRate, ([rate, g]) => ({ rate, base: fromCents(g.base), tax: fromCents(g.tax) })).sort(
+        (a, b) => b.rate - a.rate
+      ),
+      lines: out,
+    },
+  };
+}
@@ -0,0 +1,164 @@
+// lib/transcripts.ts
+import path from "path";
+import type { CatalogRepository, CatalogSeed } from "@/lib/catalog";
+import { makeJsonFile } from "@/lib/json-file";
+import type { LLM } from "@/lib/llm";
+import type { Plan } from "@/lib/plan";
+import { activePromotions } from "@/lib/promotions";
+import type { CartEdit, CartLine } from "@/lib/sessions";
+
+/**
+ * Golden transcripts: whole conversations that scripts/golden replays offline
+ * through /api/agent, against a frozen catalog and the model's recorded answer
+ * for each turn, checking the basket, upsell and reply flags every turn ends
+ * with. With AGENT_RECORD_DIR set, real sessions are written as transcripts
+ * (one file per session id) whose expectations are what the kiosk did then.
+ */
+
+/** One model answer: its text, or the tools it called (as the scripted LLM takes them) */
+export type RecordedAnswer = string | { content?: string; tool_calls: { name: string; arguments?: unknown }[] };
+
+/** Yes/no facts about a reply, so goldens don't pin the model's exact wording */
+export type ReplyFlags = {
+  /** says something is agotado */
+  out_of_stock: boolean;
+  /** points at "Confirmar e imprimir" */
+  confirm_prompt: boolean;
+  /** the model's answer was unusable and the canned one went out */
+  fallback: boolean;
+};
+
+export type TurnExpect = {
+  /** the whole basket, any order */
+  basket?: CartLine[];
+  /** the suggested SKUs, any order */
+  upsell?: string[];
+  flags?: Partial<ReplyFlags>;
+  /** fragments the reply must contain */
+  reply_includes?: string[];
+};
+
+export type TranscriptStep =
+  | { q: string; llm?: RecordedAnswer[]; expect?: TurnExpect }
+  /** on-screen basket edits between turns (PATCH /api/sessions/:id) */
+  | { edits: CartEdit[]; expect?: { cart?: CartLine[] } };
+
+export type Transcript = {
+  name: string;
+  description?: string;
+  /** a seed inline, or a seed file relative to the transcript */
+  catalog: CatalogSeed | string;
+  /** env for the run, e.g. { "AGENT_MODE": "tools" } */
+  env?: Record<string, string>;
+  steps: TranscriptStep[];
+};
+
+const FALLBACK_REPLY = /^No pude preparar la sugerencia/;
+
+export function replyFlags(reply: string): ReplyFlags {
+  return {
+    out_of_stock: /agotad/i.test(reply),
+    confirm_prompt: /Confirmar e imprimir/i.test(reply),
+    fallback: FALLBACK_REPLY.test(reply),
+  };
+}
+
+/** What a turn produced, as a golden expectation */
+export function expectFrom(plan: Plan, reply: string): TurnExpect {
+  return {
+    basket: plan.basket.map((l) => ({ sku: l.sku, qty: l.qty })),
+    upsell: plan.upsell.map((u) => u.sku),
+    flags: replyFlags(reply),
+  };
+}
+
+/** Wraps a model so every answer it gives (chat or stream) is kept, in call order */
+export function recordingLLM(llm: LLM): { llm: LLM; answers: RecordedAnswer[] } {
+  const answers: RecordedAnswer[] = [];
+  return {
+    answers,
+    llm: {
+      async chat(args) {
+        const res = await llm.chat(args);
+        const msg = res.choices?.[0]?.message;
+        const calls = msg?.tool_calls ?? [];
+        answers.push(
+          calls.length
+            ? {
+                content: msg?.content ?? "",
+                tool_calls: calls.map((c) => ({ name: c.function.name, arguments: parseArgs(c.function.arguments) })),
+              }
+            : msg?.content ?? ""
+        );
+        return res;
+      },
+      ...(llm.stream && {
+        async *stream(args) {
+          let text = "";
+          for await (const chunk of llm.stream!(args)) {
+            text += chunk;
+            yield chunk;
+          }
+          answers.push(text);
+        },
+      }),
+    },
+  };
+}
+
+function parseArgs(raw: string) {
+  try {
+    return JSON.parse(raw || "{}");
+  } catch {
+    return raw;
+  }
+}
+
+/**
+ * The catalog as a seed, frozen: promotions active right now lose their dates
+ * so the transcript replays the same way next month.
+ */
+export async function snapshotCatalog(catalog: CatalogRepository): Promise<CatalogSeed> {
+  const products = await catalog.listProducts();
+  const [synonyms, relations, upsell_rules, promotions] = await Promise.all([
+    catalog.listSynonyms(),
+    catalog.getRelations(products.map((p) => p.sku)),
+    catalog.getUpsellRules(),
+    catalog.getPromotions(),
+  ]);
+  return {
+    products,
+    synonyms,
+    relations,
+    upsell_rules,
+    promotions: activePromotions(promotions).map((p) => ({ ...p, starts_at: undefined, ends_at: undefined })),
+  };
+}
+
+/** AGENT_RECORD_DIR: where sessions are recorded as transcripts (off when unset) */
+export function recordDir() {
+  const dir = process.env.AGENT_RECORD_DIR;
+  return dir ? path.resolve(dir) : null;
+}
+
+/**
+ * Appends a step to the session's transcript, snapshotting the catalog on the
+ * first one. Never throws: recording must not break the kiosk.
+ */
+export async function recordStep(sessionId: string, step: TranscriptStep, catalog: CatalogRepository) {
+  const dir = recordDir();
+  if (!dir) return;
+  try {
+    const doc = makeJsonFile<Transcript>(path.join(dir, `${sessionId}.json`), () => ({
+      name: `session ${sessionId}`,
+      catalog: { products: [] },
+      steps: [],
+    }));
+    await doc.update(async (t) => {
+      if (!t.steps.length) t.catalog = await snapshotCatalog(catalog);
+      t.steps.push(step);
+    });
+  } catch (e) {
+    console.warn("transcripts: step not recorded:", (e as Error)?.message);
+  }
+}
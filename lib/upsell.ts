@@ -1,20 +1,153 @@
 // lib/upsell.ts
-export type Item = { sku: string; name: string };
+import type { CatalogRepository, Product } from "@/lib/catalog";
+import type { PlanLine } from "@/lib/plan";
 
-export function suggestUpsell(basketSkus: string[]): Item[] {
-  const s = new Set(basketSkus);
-  const ups: Item[] = [];
+/**
+ * Data-driven upsell rules. Merchandising edits rows (Supabase `upsell_rules`
+ * or data/upsell-rules.json), no deploy needed. A rule fires when ALL of its
+ * conditions hold for the basket, then suggests its actions.
+ *
+ *   { "id": "paint-accessories",
+ *     "conditions": { "categories": ["pintura"] },
+ *     "actions": [ { "sku": "MASK-TAPE-36", "reason": "Para delimitar bordes" },
+ *                  { "sku": "ROD-9IN", "reason": "Para aplicar la pintura" } ] }
+ */
+export type UpsellConditions = {
+  anySkus?: string[];        // at least one in basket
+  allSkus?: string[];        // all in basket
+  noneSkus?: string[];       // none in basket
+  skuPrefixes?: string[];    // some basket SKU starts with one of these
+  categories?: string[];     // some basket line in one of these categories
+  subcategories?: string[];  // some basket line in one of these subcategories
+  minTotal?: number;         // basket total >= (price * qty)
+  maxTotal?: number;         // basket total <  (price * qty)
+  minItems?: number;         // total qty >=
+};
 
-  // Plumbing jobs → add Teflón + llave ajustable
-  if (s.has("PVC-GLUE-240") || s.has("PVC-CPL-050")) {
-    if (!s.has("PTF-12")) ups.push({ sku: "PTF-12", name: "Cinta de teflón 1/2\"x12m" });
-    if (!s.has("WR-8IN")) ups.push({ sku: "WR-8IN", name: "Llave ajustable 8\"" });
+export type UpsellAction = { sku: string; reason: string; priority?: number; qty?: number };
+
+export type UpsellRule = {
+  id: string;
+  name?: string;
+  enabled?: boolean;
+  priority?: number; // lower is shown first (default 10)
+  conditions: UpsellConditions;
+  actions: UpsellAction[];
+};
+
+export type UpsellSuggestion = { sku: string; reason: string; priority: number; qty: number; ruleId: string };
+
+/** Basket line as the engine sees it (category data comes from the catalog) */
+export type UpsellBasketLine = Pick<Product, "sku" | "category" | "subcategory"> & { qty: number; price: number };
+
+const DEFAULT_PRIORITY = 10;
+const MODEL_PRIORITY = 20; // model ideas rank after merchandising rules
+export const MAX_UPSELL = 3;
+
+const fold = (s?: string | null) =>
+  (s || "").toLowerCase().normalize("NFD").replace(/\p{Diacritic}/gu, "").trim();
+
+function matches(c: UpsellConditions, basket: UpsellBasketLine[]) {
+  const skus = new Set(basket.map((b) => b.sku));
+  const total = basket.reduce((s, b) => s + b.price * b.qty, 0);
+  const items = basket.reduce((s, b) => s + b.qty, 0);
+  const inList = (list: string[] | undefined, v?: string | null) => !!list?.some((x) => fold(x) === fold(v));
+
+  if (c.anySkus?.length && !c.anySkus.some((s) => skus.has(s))) return false;
+  if (c.allSkus?.length && !c.allSkus.every((s) => skus.has(s))) return false;
+  if (c.noneSkus?.some((s) => skus.has(s))) return false;
+  if (c.skuPrefixes?.length && !basket.some((b) => c.skuPrefixes!.some((p) => b.sku.startsWith(p)))) return false;
+  if (c.categories?.length && !basket.some((b) => inList(c.categories, b.category))) return false;
+  if (c.subcategories?.length && !basket.some((b) => inList(c.subcategories, b.subcategory))) return false;
+  if (c.minTotal !== undefined && total < c.minTotal) return false;
+  if (c.maxTotal !== undefined && total >= c.maxTotal) return false;
+  if (c.minItems !== undefined && items < c.minItems) return false;
+  return true;
+}
+
+/** Pure rule evaluation: suggestions not already in the basket, best first, one per SKU. */
+export function evaluateUpsell(rules: UpsellRule[], basket: UpsellBasketLine[]): UpsellSuggestion[] {
+  const inBasket = new Set(basket.map((b) => b.sku));
+  const best = new Map<string, UpsellSuggestion>();
+  if (!basket.length) return [];
+
+  for (const rule of rules) {
+    if (rule.enabled === false || !matches(rule.conditions || {}, basket)) continue;
+    for (const a of rule.actions || []) {
+      if (!a?.sku || inBasket.has(a.sku)) continue;
+      const s: UpsellSuggestion = {
+        sku: a.sku,
+        reason: a.reason,
+        priority: a.priority ?? rule.priority ?? DEFAULT_PRIORITY,
+        qty: Math.max(1, Number(a.qty || 1)),
+        ruleId: rule.id,
+      };
+      const prev = best.get(a.sku);
+      if (!prev || s.priority < prev.priority) best.set(a.sku, s);
+    }
   }
+  return Array.from(best.values()).sort((a, b) => a.priority - b.priority);
+}
 
-  // Painting jobs → masking if missing
-  if (!s.has("MASK-TAPE-36") && Array.from(s).some((k) => k.startsWith("PAINT-"))) {
-    ups.push({ sku: "MASK-TAPE-36", name: "Cinta masking 36mm" });
+/**
+ * Final plan.upsell: rule suggestions merged with what the model proposed,
+ * minus basket items, priced and stocked from the catalog (out-of-stock dropped).
+ * `known` avoids refetching products the caller already has.
+ */
+export async function buildUpsell(
+  catalog: CatalogRepository,
+  {
+    basket,
+    proposed = [],
+    rules,
+    known = new Map(),
+    limit = MAX_UPSELL,
+  }: {
+    basket: PlanLine[];
+    proposed?: PlanLine[];
+    rules: UpsellRule[];
+    known?: Map<string, Product>;
+    limit?: number;
   }
+): Promise<PlanLine[]> {
+  const products = new Map(known);
+  const need = (skus: string[]) => skus.filter((s) => !products.has(s));
 
-  return ups.slice(0, 2);
-}
\ No newline at end of file
+  (await catalog.getBySkus(need(basket.map((b) => b.sku)))).forEach((p) => products.set(p.sku, p));
+  const lines: UpsellBasketLine[] = basket.map((b) => ({
+    sku: b.sku,
+    qty: b.qty,
+    price: b.price,
+    category: products.get(b.sku)?.category,
+    subcategory: products.get(b.sku)?.subcategory,
+  }));
+
+  const inBasket = new Set(basket.map((b) => b.sku));
+  const merged = new Map<string, UpsellSuggestion & { why?: string }>();
+  for (const s of evaluateUpsell(rules, lines)) merged.set(s.sku, s);
+  for (const u of proposed) {
+    if (inBasket.has(u.sku) || merged.has(u.sku)) continue;
+    merged.set(u.sku, { sku: u.sku, reason: u.why || "", priority: MODEL_PRIORITY, qty: u.qty, ruleId: "model" });
+  }
+
+  (await catalog.getBySkus(need(Array.from(merged.keys())))).forEach((p) => products.set(p.sku, p));
+
+  const out: PlanLine[] = [];
+  for (const s of Array.from(merged.values()).sort((a, b) => a.priority - b.priority)) {
+    const p = products.get(s.sku);
+    if (!p || Number(p.stock) <= 0) continue;
+    out.push({
+      sku: p.sku,
+      name: p.name,
+      qty: s.qty,
+      price: Number(p.price),
+      currency: p.currency,
+      stock: Number(p.stock),
+      image_url: p.image_url,
+      location: p.location,
+      why: s.reason,
+    });
+    if (out.length >= limit) break;
+  }
+  return out;
+}
@@ -0,0 +1,143 @@
+// lib/wayfinding.ts
+import defaultLayout from "@/data/store-layout.json";
+
+/**
+ * Where things are in the store. Products carry a location "aisle-shelf-bin"
+ * ("3-B-12": pasillo 3, anaquel B, gaveta 12; shelf and bin optional), and
+ * data/store-layout.json draws the floor: aisles as rectangles in map units,
+ * the kiosk the customer starts from and the checkout they end at.
+ *
+ * - aisle `entry`: where the aisle is walked into (default: the middle of its
+ *   bottom edge); walking distance is Manhattan between entries
+ * - the route visits every aisle the basket needs once, kiosk → … → checkout,
+ *   shortest first; within an aisle, lines go by shelf and bin
+ */
+export type Point = { x: number; y: number };
+
+export type Aisle = { id: string; name: string; x: number; y: number; w: number; h: number; entry?: Point };
+
+export type StoreLayout = {
+  width: number;
+  height: number;
+  start: Point & { label?: string };
+  checkout: Point & { label?: string };
+  aisles: Aisle[];
+};
+
+export type Location = { aisle: string; shelf: string | null; bin: string | null };
+
+/** Lines of one aisle on the route; `aisle` is null for lines with no known place */
+export type RouteStop<T> = { aisle: Aisle | null; lines: T[] };
+
+export const DEFAULT_LAYOUT: StoreLayout = defaultLayout;
+
+// beyond this many aisles, the nearest one next instead of every order
+const EXACT_STOPS = 10;
+
+/** "3-B-12" → { aisle: "3", shelf: "B", bin: "12" }; null when there's no aisle */
+export function parseLocation(raw?: string | null): Location | null {
+  const [aisle, shelf, ...bin] = String(raw ?? "")
+    .split("-")
+    .map((s) => s.trim());
+  if (!aisle) return null;
+  return { aisle: aisle.toUpperCase(), shelf: shelf?.toUpperCase() || null, bin: bin.join("-") || null };
+}
+
+export function aisleOf(raw: string | null | undefined, layout: StoreLayout = DEFAULT_LAYOUT) {
+  const loc = parseLocation(raw);
+  return (loc && layout.aisles.find((a) => a.id.toUpperCase() === loc.aisle)) || null;
+}
+
+/** "Pasillo 3 · Anaquel B · Gaveta 12"; "" without a location */
+export function describeLocation(raw?: string | null) {
+  const loc = parseLocation(raw);
+  if (!loc) return "";
+  return [`Pasillo ${loc.aisle}`, loc.shelf && `Anaquel ${loc.shelf}`, loc.bin && `Gaveta ${loc.bin}`]
+    .filter(Boolean)
+    .join(" · ");
+}
+
+export const entryOf = (a: Aisle): Point => a.entry ?? { x: a.x + a.w / 2, y: a.y + a.h };
+
+const walk = (a: Point, b: Point) => Math.abs(a.x - b.x) + Math.abs(a.y - b.y);
+
+/** Shortest kiosk → aisles → checkout order (Held-Karp; nearest-next past EXACT_STOPS) */
+export function walkingRoute(aisles: Aisle[], layout: StoreLayout = DEFAULT_LAYOUT): Aisle[] {
+  const n = aisles.length;
+  const at = aisles.map(entryOf);
+  if (n > EXACT_STOPS) {
+    const left = [...aisles];
+    const out: Aisle[] = [];
+    let here: Point = layout.start;
+    while (left.length) {
+      const i = left.reduce((best, a, j) => (walk(here, entryOf(a)) < walk(here, entryOf(left[best])) ? j : best), 0);
+      here = entryOf(left[i]);
+      out.push(...left.splice(i, 1));
+    }
+    return out;
+  }
+
+  // cost[set][last]: shortest walk from the kiosk through `set`, ending at `last`
+  const full = (1 << n) - 1;
+  const cost = Array.from({ length: 1 << n }, () => new Array<number>(n).fill(Infinity));
+  const prev = Array.from({ length: 1 << n }, () => new Array<number>(n).fill(-1));
+  for (let i = 0; i < n; i++) cost[1 << i][i] = walk(layout.start, at[i]);
+  for (let set = 1; set <= full; set++) {
+    for (let last = 0; last < n; last++) {
+      if (!(set & (1 << last)) || cost[set][last] === Infinity) continue;
+      for (let next = 0; next < n; next++) {
+        if (set & (1 << next)) continue;
+        const to = set | (1 << next);
+        const c = cost[set][last] + walk(at[last], at[next]);
+        if (c < cost[to][next]) {
+          cost[to][next] = c;
+          prev[to][next] = last;
+        }
+      }
+    }
+  }
+
+  let last = -1;
+  for (let i = 0; i < n; i++) {
+    if (last < 0 || cost[full][i] + walk(at[i], layout.checkout) < cost[full][last] + walk(at[last], layout.checkout)) {
+      last = i;
+    }
+  }
+  const order: Aisle[] = [];
+  for (let set = full; last >= 0; ) {
+    order.unshift(aisles[last]);
+    const p = prev[set][last];
+    set &= ~(1 << last);
+    last = p;
+  }
+  return order;
+}
+
+const byPlace = (a?: string | null, b?: string | null) => (a ?? "").localeCompare(b ?? "", "es", { numeric: true });
+
+/** Basket lines grouped by aisle in walking order; lines without a known aisle last */
+export function routeStops<T extends { location?: string | null }>(
+  lines: T[],
+  layout: StoreLayout = DEFAULT_LAYOUT
+): RouteStop<T>[] {
+  const byAisle = new Map<Aisle | null, T[]>();
+  for (const l of lines) {
+    const aisle = aisleOf(l.location, layout);
+    byAisle.set(aisle, [...(byAisle.get(aisle) ?? []), l]);
+  }
+  const aisles = [...byAisle.keys()].filter((a): a is Aisle => a !== null);
+  const stops: RouteStop<T>[] = walkingRoute(aisles, layout).map((aisle) => ({
+    aisle,
+    lines: byAisle.get(aisle)!.sort((a, b) => {
+      const la = parseLocation(a.location);
+      const lb = parseLocation(b.location);
+      return byPlace(la?.shelf, lb?.shelf) || byPlace(la?.bin, lb?.bin);
+    }),
+  }));
+  const unplaced = byAisle.get(null);
+  return unplaced ? [...stops, { aisle: null, lines: unplaced }] : stops;
+}
+
+/** The lines in walking order, e.g. for the ticket */
+export const inRouteOrder = <T extends { location?: string | null }>(lines: T[], layout?: StoreLayout) =>
+  routeStops(lines, layout).flatMap((s) => s.lines);
@@ -0,0 +1,227 @@
+// pages/admin/index.tsx
+import React, { useCallback, useEffect, useState } from "react";
+import AdminAnalytics from "@/components/AdminAnalytics";
+import AdminImport from "@/components/AdminImport";
+import AdminProductEditor, { AdminProduct } from "@/components/AdminProductEditor";
+import AdminQueryQueue from "@/components/AdminQueryQueue";
+
+type Auth = { enabled: boolean; admin: boolean } | null;
+type Page = { products: AdminProduct[]; total: number; page: number; pageSize: number };
+type Tab = "products" | "import" | "queries" | "analytics";
+
+const TAB_LABELS: Record<Tab, string> = {
+  products: "Productos",
+  import: "Importar / exportar",
+  queries: "Sin resultados",
+  analytics: "Estadísticas",
+};
+
+const box: React.CSSProperties = {
+  padding: "8px 10px",
+  borderRadius: 8,
+  border: "1px solid #333",
+  background: "#111",
+  color: "#eee",
+  fontSize: 15,
+};
+const button: React.CSSProperties = { padding: "8px 16px", borderRadius: 8, border: "none", color: "#fff" };
+
+function Login({ onDone }: { onDone: () => void }) {
+  const [password, setPassword] = useState("");
+  const [error, setError] = useState<string | null>(null);
+
+  async function submit(e: React.FormEvent) {
+    e.preventDefault();
+    setError(null);
+    const r = await fetch("/api/admin/login", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ password }),
+    });
+    if (r.ok) return onDone();
+    setError((await r.json().catch(() => ({}))).error || `Error ${r.status}`);
+  }
+
+  return (
+    <form onSubmit={submit} style={{ maxWidth: 320, margin: "120px auto", display: "grid", gap: 12 }}>
+      <h2 style={{ margin: 0 }}>Administración</h2>
+      <input
+        style={box}
+        type="password"
+        autoFocus
+        placeholder="Contraseña"
+        value={password}
+        onChange={(e) => setPassword(e.target.value)}
+      />
+      <button type="submit" style={{ ...button, background: "#2563eb", padding: 10 }}>
+        Entrar
+      </button>
+      {error && <div style={{ color: "#f87171" }}>{error}</div>}
+    </form>
+  );
+}
+
+/**
+ * Store-manager catalog admin: search and edit products, synonyms and images,
+ * bulk CSV import/export, the queue of searches that found nothing, and kiosk
+ * usage statistics. Everything goes through /api/admin/*, which checks
+ * the login cookie (lib/admin-auth).
+ */
+export default function Admin() {
+  const [auth, setAuth] = useState<Auth>(null);
+  const [tab, setTab] = useState<Tab>("products");
+  const [q, setQ] = useState("");
+  const [pageNo, setPageNo] = useState(1);
+  const [data, setData] = useState<Page | null>(null);
+  const [editing, setEditing] = useState<AdminProduct | "new" | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const checkAuth = useCallback(() => {
+    fetch("/api/admin/login")
+      .then((r) => r.json())
+      .then(setAuth)
+      .catch(() => setAuth({ enabled: false, admin: false }));
+  }, []);
+  useEffect(checkAuth, [checkAuth]);
+
+  const load = useCallback(async () => {
+    const r = await fetch(`/api/admin/products?q=${encodeURIComponent(q)}&page=${pageNo}`);
+    if (r.status === 401) return setAuth({ enabled: true, admin: false });
+    const d = await r.json();
+    if (!r.ok) return setError(d.error || `Error ${r.status}`);
+    setError(null);
+    setData(d);
+  }, [q, pageNo]);
+
+  useEffect(() => {
+    if (!auth?.admin) return;
+    const t = setTimeout(load, 250); // wait for typing to settle
+    return () => clearTimeout(t);
+  }, [auth, load]);
+
+  async function logout() {
+    await fetch("/api/admin/login", { method: "DELETE" });
+    setAuth({ enabled: true, admin: false });
+  }
+
+  if (!auth) return null;
+  if (!auth.enabled) {
+    return (
+      <div style={{ padding: 40 }}>La administración está deshabilitada: define ADMIN_PASSWORD en el servidor.</div>
+    );
+  }
+  if (!auth.admin) return <Login onDone={checkAuth} />;
+
+  const pages = data ? Math.max(1, Math.ceil(data.total / data.pageSize)) : 1;
+
+  return (
+    <div style={{ padding: 24, maxWidth: 1200, margin: "0 auto" }}>
+      <div style={{ display: "flex", alignItems: "center", gap: 12, marginBottom: 20 }}>
+        <h2 style={{ margin: 0, flex: 1 }}>Administración</h2>
+        {(Object.keys(TAB_LABELS) as Tab[]).map((t) => (
+          <button
+            key={t}
+            onClick={() => setTab(t)}
+            style={{ ...button, background: tab === t ? "#2563eb" : "#333" }}
+          >
+            {TAB_LABELS[t]}
+          </button>
+        ))}
+        <button onClick={logout} style={{ ...button, background: "none", border: "1px solid #444", color: "#ccc" }}>
+          Salir
+        </button>
+      </div>
+
+      {tab === "analytics" ? (
+        <AdminAnalytics />
+      ) : tab === "queries" ? (
+        <AdminQueryQueue />
+      ) : tab === "import" ? (
+        <AdminImport onApplied={load} />
+      ) : (
+        <>
+          <div style={{ display: "flex", gap: 12, marginBottom: 16 }}>
+            <input
+              style={{ ...box, flex: 1 }}
+              placeholder="Buscar por SKU, nombre, marca o categoría"
+              value={q}
+              onChange={(e) => {
+                setQ(e.target.value);
+                setPageNo(1);
+              }}
+            />
+            <button onClick={() => setEditing("new")} style={{ ...button, background: "#16a34a" }}>
+              Nuevo producto
+            </button>
+          </div>
+          {error && <div style={{ color: "#f87171", marginBottom: 12 }}>{error}</div>}
+
+          {editing && (
+            <div style={{ marginBottom: 20 }}>
+              <AdminProductEditor
+                key={editing === "new" ? "new" : editing.sku}
+                product={editing === "new" ? null : editing}
+                onClose={() => setEditing(null)}
+                onSaved={() => {
+                  setEditing(null);
+                  load();
+                }}
+              />
+            </div>
+          )}
+
+          <table style={{ width: "100%", borderCollapse: "collapse" }}>
+            <thead>
+              <tr style={{ textAlign: "left", color: "#aaa", borderBottom: "1px solid #333" }}>
+                <th style={{ padding: 8 }}>SKU</th>
+                <th style={{ padding: 8 }}>Nombre</th>
+                <th style={{ padding: 8 }}>Categoría</th>
+                <th style={{ padding: 8, textAlign: "right" }}>Precio</th>
+                <th style={{ padding: 8, textAlign: "right" }}>Existencias</th>
+                <th style={{ padding: 8 }}>Sinónimos</th>
+              </tr>
+            </thead>
+            <tbody>
+              {data?.products.map((p) => (
+                <tr
+                  key={p.sku}
+                  onClick={() => setEditing(p)}
+                  style={{ borderBottom: "1px solid #222", cursor: "pointer" }}
+                >
+                  <td style={{ padding: 8, fontFamily: "monospace" }}>{p.sku}</td>
+                  <td style={{ padding: 8 }}>{p.name}</td>
+                  <td style={{ padding: 8, color: "#aaa" }}>{p.category}</td>
+                  <td style={{ padding: 8, textAlign: "right" }}>
+                    {p.currency} {Number(p.price).toFixed(2)}
+                  </td>
+                  <td style={{ padding: 8, textAlign: "right", color: Number(p.stock) === 0 ? "#f87171" : undefined }}>
+                    {p.stock}
+                  </td>
+                  <td style={{ padding: 8, color: "#888" }}>{p.synonyms.join(", ")}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          <div style={{ display: "flex", gap: 12, alignItems: "center", marginTop: 16, color: "#aaa" }}>
+            <button
+              disabled={pageNo <= 1}
+              onClick={() => setPageNo((n) => n - 1)}
+              style={{ ...button, background: "#333" }}
+            >
+              ‹
+            </button>
+            Página {pageNo} de {pages} · {data?.total ?? 0} productos
+            <button
+              disabled={pageNo >= pages}
+              onClick={() => setPageNo((n) => n + 1)}
+              style={{ ...button, background: "#333" }}
+            >
+              ›
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
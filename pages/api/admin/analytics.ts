@@ -0,0 +1,48 @@
+// pages/api/admin/analytics.ts
+import type { NextApiRequest, NextApiResponse } from "next";
+import { requireAdmin } from "@/lib/admin-auth";
+import { getAnalyticsStore, summarizeEvents } from "@/lib/analytics";
+import { getCatalog } from "@/lib/catalog";
+import { sessionTtlMs } from "@/lib/sessions";
+
+const DEFAULT_DAYS = 7;
+const MAX_DAYS = 90;
+
+/**
+ * Admin only. GET ?days=7&kiosk=K1 → { summary, names: { sku: name }, kiosks }
+ *   the dashboard numbers (lib/analytics) for the last `days` days (max 90),
+ *   all kiosks unless `kiosk` is given. 503 when ANALYTICS_PROVIDER=off.
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== "GET") return res.status(405).end();
+  if (!requireAdmin(req, res)) return;
+
+  try {
+    const store = getAnalyticsStore();
+    if (!store) return res.status(503).json({ error: "analytics off (ANALYTICS_PROVIDER=off)" });
+
+    const days = Math.min(Math.max(Math.round(Number(req.query.days)) || DEFAULT_DAYS, 1), MAX_DAYS);
+    const kioskId = typeof req.query.kiosk === "string" && req.query.kiosk ? req.query.kiosk.toUpperCase() : undefined;
+    const now = new Date();
+    const since = new Date(now.getTime() - days * 86_400_000).toISOString();
+    const until = now.toISOString();
+
+    const events = await store.list({ since, until, kioskId });
+    const summary = summarizeEvents(events, {
+      since,
+      until,
+      idleMs: sessionTtlMs(),
+      timeZone: process.env.ANALYTICS_TIMEZONE || undefined,
+      now,
+    });
+
+    const skus = Array.from(
+      new Set([...summary.recommended, ...summary.removed, ...summary.out_of_stock].map((r) => r.key))
+    );
+    const names = Object.fromEntries((await getCatalog().getBySkus(skus)).map((p) => [p.sku, p.name]));
+    const kiosks = Array.from(new Set(events.flatMap((e) => (e.kiosk_id ? [e.kiosk_id] : [])))).sort();
+    return res.json({ summary, names, kiosks });
+  } catch (e) {
+    return res.status(500).json({ error: (e as Error)?.message || "analytics failure" });
+  }
+}
@@ -0,0 +1,23 @@
+// pages/api/admin/export.ts
+import type { NextApiRequest, NextApiResponse } from "next";
+import { requireAdmin } from "@/lib/admin-auth";
+import { getCatalog } from "@/lib/catalog";
+import { exportCatalogCsv } from "@/lib/catalog-admin";
+
+/** Admin only. GET → the whole catalog as CSV (same columns the import takes) */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== "GET") return res.status(405).end();
+  if (!requireAdmin(req, res)) return;
+
+  try {
+    const catalog = getCatalog();
+    const csv = exportCatalogCsv(await catalog.listProducts(), await catalog.listSynonyms());
+    const date = new Date().toISOString().slice(0, 10);
+    res.setHeader("Content-Type", "text/csv; charset=utf-8");
+    res.setHeader("Content-Disposition", `attachment; filename="catalogo-${date}.csv"`);
+    // BOM so Excel opens the accents correctly
+    return res.send(`\uFEFF${csv}`);
+  } catch (e) {
+    return res.status(500).json({ error: (e as Error)?.message || "export failure" });
+  }
+}
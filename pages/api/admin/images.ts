@@ -0,0 +1,46 @@
+// pages/api/admin/images.ts
+import type { NextApiRequest, NextApiResponse } from "next";
+import { requireAdmin } from "@/lib/admin-auth";
+import { getCatalog } from "@/lib/catalog";
+import { checkImage, getCatalogWriter, MAX_IMAGE_BYTES } from "@/lib/catalog-admin";
+
+export const config = { api: { bodyParser: false } };
+
+async function readBody(req: NextApiRequest, limit: number) {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > limit) return null;
+    chunks.push(Buffer.from(chunk));
+  }
+  return Buffer.concat(chunks);
+}
+
+/**
+ * Admin only. POST ?sku=PVC-CPL-050 with the image as the raw body
+ * (Content-Type image/jpeg, image/png or image/webp, up to 2 MB)
+ * → { image_url }, already set on the product
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== "POST") return res.status(405).end();
+  if (!requireAdmin(req, res)) return;
+  const sku = String(req.query.sku || "");
+  const contentType = String(req.headers["content-type"] || "").split(";")[0].trim();
+
+  try {
+    const [product] = await getCatalog().getBySkus([sku], { withSpecs: true });
+    if (!product) return res.status(404).json({ error: "product not found" });
+    const data = await readBody(req, MAX_IMAGE_BYTES);
+    if (!data) return res.status(413).json({ error: `la imagen pasa de ${MAX_IMAGE_BYTES / 1024 / 1024} MB` });
+    const problem = checkImage(data, contentType);
+    if (problem) return res.status(422).json({ error: problem });
+
+    const writer = getCatalogWriter();
+    const image_url = await writer.saveImage(sku, data, contentType);
+    await writer.upsertProducts([{ ...product, image_url }]);
+    return res.json({ image_url });
+  } catch (e) {
+    return res.status(500).json({ error: (e as Error)?.message || "upload failure" });
+  }
+}
@@ -0,0 +1,30 @@
+// pages/api/admin/import.ts
+import type { NextApiRequest, NextApiResponse } from "next";
+import { requireAdmin } from "@/lib/admin-auth";
+import { getCatalog } from "@/lib/catalog";
+import { applyImport, getCatalogWriter, planImport } from "@/lib/catalog-admin";
+
+export const config = { api: { bodyParser: { sizeLimit: "10mb" } } };
+
+/**
+ * Admin only. POST { csv, dryRun = true }
+ * → { plan } with the per-row diff and errors (lib/catalog-admin), nothing written
+ * → with dryRun: false, also { applied: { products, synonyms } }; 422 { plan } if any row is invalid
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== "POST") return res.status(405).end();
+  if (!requireAdmin(req, res)) return;
+  const { csv, dryRun = true } = (req.body || {}) as { csv?: unknown; dryRun?: boolean };
+  if (typeof csv !== "string" || !csv.trim()) return res.status(400).json({ error: "csv required" });
+
+  try {
+    const catalog = getCatalog();
+    const plan = planImport(csv, await catalog.listProducts(), await catalog.listSynonyms());
+    if (dryRun !== false) return res.json({ plan });
+    if (plan.errors.length) return res.status(422).json({ error: "el archivo tiene errores", plan });
+    const applied = await applyImport(getCatalogWriter(), plan);
+    return res.json({ plan, applied });
+  } catch (e) {
+    return res.status(500).json({ error: (e as Error)?.message || "import failure" });
+  }
+}
@@ -0,0 +1,31 @@
+// pages/api/admin/login.ts
+import type { NextApiRequest, NextApiResponse } from "next";
+import { adminCookie, adminEnabled, checkPassword, clearedAdminCookie, isAdmin, issueToken } from "@/lib/admin-auth";
+
+const FAILED_LOGIN_DELAY_MS = 800;
+
+/**
+ * GET    → { enabled, admin } (is admin configured, is this browser logged in)
+ * POST   { password } → sets the admin cookie; 401 on a wrong password
+ * DELETE → logs out
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method === "GET") return res.json({ enabled: adminEnabled(), admin: isAdmin(req) });
+
+  if (req.method === "DELETE") {
+    res.setHeader("Set-Cookie", clearedAdminCookie());
+    return res.json({ ok: true });
+  }
+
+  if (req.method !== "POST") return res.status(405).end();
+  if (!adminEnabled()) return res.status(503).json({ error: "admin disabled (set ADMIN_PASSWORD)" });
+  const { password } = (req.body || {}) as { password?: unknown };
+  if (!checkPassword(password)) {
+    // slows down guessing without keeping per-client state
+    await new Promise((r) => setTimeout(r, FAILED_LOGIN_DELAY_MS));
+    return res.status(401).json({ error: "contraseña incorrecta" });
+  }
+  const { token, expires } = issueToken();
+  res.setHeader("Set-Cookie", adminCookie(token, expires));
+  return res.json({ ok: true, expires_at: new Date(expires).toISOString() });
+}
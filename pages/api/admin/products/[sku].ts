@@ -0,0 +1,43 @@
+// pages/api/admin/products/[sku].ts
+import type { NextApiRequest, NextApiResponse } from "next";
+import { requireAdmin } from "@/lib/admin-auth";
+import { getCatalog } from "@/lib/catalog";
+import { getCatalogWriter, normalizeSynonyms, validateProduct } from "@/lib/catalog-admin";
+
+/**
+ * Admin only.
+ * GET → { product (with specs), synonyms }
+ * PUT { product?, synonyms? } → { product, synonyms }
+ *   `product` holds the fields to change (the SKU comes from the path);
+ *   `synonyms` replaces the SKU's whole list. 404 for an unknown SKU, 422 when invalid.
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== "GET" && req.method !== "PUT") return res.status(405).end();
+  if (!requireAdmin(req, res)) return;
+  const sku = String(req.query.sku || "");
+
+  try {
+    const catalog = getCatalog();
+    const [current] = await catalog.getBySkus([sku], { withSpecs: true });
+    if (!current) return res.status(404).json({ error: "product not found" });
+    const terms = async () =>
+      (await catalog.listSynonyms()).filter((s) => s.product_sku === sku).map((s) => s.term);
+
+    if (req.method === "GET") return res.json({ product: current, synonyms: await terms() });
+
+    const body = (req.body || {}) as { product?: Record<string, unknown>; synonyms?: unknown };
+    const writer = getCatalogWriter();
+    let product = current;
+    if (body.product) {
+      const valid = validateProduct({ ...current, ...body.product, sku });
+      if (!valid.ok) return res.status(422).json({ error: valid.error });
+      product = valid.data;
+      await writer.upsertProducts([product]);
+    }
+    if (body.synonyms !== undefined) await writer.setSynonyms(new Map([[sku, normalizeSynonyms(body.synonyms)]]));
+    const synonyms = body.synonyms !== undefined ? normalizeSynonyms(body.synonyms) : await terms();
+    return res.json({ product, synonyms });
+  } catch (e) {
+    return res.status(500).json({ error: (e as Error)?.message || "admin failure" });
+  }
+}
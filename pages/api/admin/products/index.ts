@@ -0,0 +1,51 @@
+// pages/api/admin/products/index.ts
+import type { NextApiRequest, NextApiResponse } from "next";
+import { requireAdmin } from "@/lib/admin-auth";
+import { getCatalog } from "@/lib/catalog";
+import { getCatalogWriter, normalizeSynonyms, synonymsBySku, validateProduct } from "@/lib/catalog-admin";
+
+const PAGE_SIZE = 50;
+
+const fold = (s?: string | null) => (s || "").toLowerCase().normalize("NFD").replace(/\p{Diacritic}/gu, "");
+
+/**
+ * Admin only.
+ * GET ?q=&page= → { products (with synonyms), total, page, pageSize }
+ *   q matches SKU, name, brand or category (accents ignored)
+ * POST { product, synonyms? } → 201 { product, synonyms }; 409 if the SKU exists, 422 when invalid
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== "GET" && req.method !== "POST") return res.status(405).end();
+  if (!requireAdmin(req, res)) return;
+
+  try {
+    const catalog = getCatalog();
+
+    if (req.method === "GET") {
+      const q = fold(String(req.query.q || "")).trim();
+      const page = Math.max(1, Math.floor(Number(req.query.page) || 1));
+      const terms = synonymsBySku(await catalog.listSynonyms());
+      const all = (await catalog.listProducts())
+        .filter((p) => !q || fold(`${p.sku} ${p.name} ${p.brand} ${p.category}`).includes(q))
+        .sort((a, b) => a.sku.localeCompare(b.sku));
+      const products = all
+        .slice((page - 1) * PAGE_SIZE, page * PAGE_SIZE)
+        .map((p) => ({ ...p, synonyms: terms.get(p.sku) ?? [] }));
+      return res.json({ products, total: all.length, page, pageSize: PAGE_SIZE });
+    }
+
+    const { product, synonyms } = (req.body || {}) as { product?: unknown; synonyms?: unknown };
+    const valid = validateProduct(product);
+    if (!valid.ok) return res.status(422).json({ error: valid.error });
+    if ((await catalog.getBySkus([valid.data.sku])).length) {
+      return res.status(409).json({ error: `SKU ${valid.data.sku} already exists` });
+    }
+    const writer = getCatalogWriter();
+    const terms = normalizeSynonyms(synonyms);
+    await writer.upsertProducts([valid.data]);
+    if (terms.length) await writer.setSynonyms(new Map([[valid.data.sku, terms]]));
+    return res.status(201).json({ product: valid.data, synonyms: terms });
+  } catch (e) {
+    return res.status(500).json({ error: (e as Error)?.message || "admin failure" });
+  }
+}
@@ -0,0 +1,75 @@
+// pages/api/admin/queries.ts
+import type { NextApiRequest, NextApiResponse } from "next";
+import { requireAdmin } from "@/lib/admin-auth";
+import { getCatalog } from "@/lib/catalog";
+import { getCatalogWriter, normalizeSynonyms, synonymsBySku } from "@/lib/catalog-admin";
+import { getQueryLog, QueryMissStatus } from "@/lib/query-log";
+import { searchProducts } from "@/lib/search";
+
+const STATUSES: QueryMissStatus[] = ["open", "mapped", "dismissed"];
+const SUGGESTIONS = 5;
+const MAX_MAP_SKUS = 10;
+
+/**
+ * Admin only. The review queue of searches that found little or nothing (lib/query-log).
+ * GET ?status=open|mapped|dismissed → { queries: [...QueryMiss, suggestions: [{ sku, name }]] }
+ * POST { normalized, action: "map", skus, term? } adds `term` (default: the normalized
+ *   query) as a synonym of each SKU and marks the query mapped → { query, term }
+ * POST { normalized, action: "dismiss" | "reopen" } → { query }
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== "GET" && req.method !== "POST") return res.status(405).end();
+  if (!requireAdmin(req, res)) return;
+
+  try {
+    const log = getQueryLog();
+    const catalog = getCatalog();
+
+    if (req.method === "GET") {
+      const status = STATUSES.find((s) => s === req.query.status) ?? "open";
+      const misses = await log.list({ status });
+      const queries = await Promise.all(
+        misses.map(async (m) => ({
+          ...m,
+          suggestions: (await searchProducts(catalog, m.normalized, { limit: SUGGESTIONS })).map((h) => ({
+            sku: h.product.sku,
+            name: h.product.name,
+          })),
+        }))
+      );
+      return res.json({ queries });
+    }
+
+    const body = (req.body || {}) as { normalized?: unknown; action?: unknown; skus?: unknown; term?: unknown };
+    const normalized = String(body.normalized ?? "");
+    if (!normalized) return res.status(400).json({ error: "missing normalized" });
+
+    if (body.action === "dismiss" || body.action === "reopen") {
+      const query = await log.resolve(normalized, body.action === "dismiss" ? "dismissed" : "open");
+      if (!query) return res.status(404).json({ error: "query not found" });
+      return res.json({ query });
+    }
+    if (body.action !== "map") return res.status(400).json({ error: "action must be map, dismiss or reopen" });
+
+    const skus = Array.from(new Set((Array.isArray(body.skus) ? body.skus : []).map(String).filter(Boolean)));
+    if (!skus.length || skus.length > MAX_MAP_SKUS) {
+      return res.status(400).json({ error: `pick 1 to ${MAX_MAP_SKUS} SKUs` });
+    }
+    const [term] = normalizeSynonyms(body.term ?? normalized);
+    if (!term) return res.status(400).json({ error: "empty synonym" });
+
+    const found = new Set((await catalog.getBySkus(skus)).map((p) => p.sku));
+    const unknown = skus.filter((s) => !found.has(s));
+    if (unknown.length) return res.status(422).json({ error: `unknown SKU: ${unknown.join(", ")}` });
+
+    const current = synonymsBySku(await catalog.listSynonyms());
+    const updates = new Map(skus.map((s) => [s, normalizeSynonyms([...(current.get(s) ?? []), term])]));
+    await getCatalogWriter().setSynonyms(updates);
+
+    const query = await log.resolve(normalized, "mapped", skus);
+    if (!query) return res.status(404).json({ error: "query not found" });
+    return res.json({ query, term });
+  } catch (e) {
+    return res.status(500).json({ error: (e as Error)?.message || "query log failure" });
+  }
+}
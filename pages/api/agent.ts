@@ -1,40 +1,76 @@
 // pages/api/agent.ts
 import type { NextApiRequest, NextApiResponse } from "next";
-import { GoogleGenerativeAI } from "@google/generative-ai";
-import { supabaseAdmin } from "@/lib/supabase";
+import { runToolAgent } from "@/lib/agent";
+import { basketDiff, track } from "@/lib/analytics";
+import { applyCartOps, CartOpOutcome, opTarget, reductionOps, Reductions } from "@/lib/cart-ops";
+import { describeIntents, hasIntent, parseIntents, RefLine } from "@/lib/intent";
+import { LLM, makeLLM } from "@/lib/llm";
+import { CatalogRepository, getCatalog, Product } from "@/lib/catalog";
+import { AgentEvent, chatWithRepair, emptyPlan, parseAgentReply, partialReply, Plan, PlanLine } from "@/lib/plan";
+import { loadRelations, substitutedBy } from "@/lib/relations";
+import { getReservationStore } from "@/lib/reservations";
+import { describeMeasure, filterByMeasures, Measure, measureTerms, parseMeasures } from "@/lib/measure";
+import { activePromotions, describePromotion, Promotion, promotionsFor } from "@/lib/promotions";
+import { logSearchMiss } from "@/lib/query-log";
+import { normalizeQueryText, searchProducts } from "@/lib/search";
+import { CartLine, describeFacts, deriveFacts, getSessionStore, recordTurn, Session } from "@/lib/sessions";
+import { openSse } from "@/lib/sse";
+import { expectFrom, recordDir, recordingLLM, recordStep } from "@/lib/transcripts";
+import { buildUpsell } from "@/lib/upsell";
 
 /**
- * Conversational kiosk agent (Gemini) with:
- * - history awareness
- * - client cart preservation (unless user asks to change/remove)
- * - add intent for follow-ups like "sí, agrégalo / dámelo / teflón"
- * - strong replace intent (“mejor…”, “prefiero…”, “cámbialo por…”)
- * - candidate filtering (no invented SKUs)
- * - server-side merge guards + keyword fallback for replace turns
+ * Conversational kiosk agent (any provider from makeLLM) with:
+ * - server-side sessions (lib/sessions): transcript, summary of older turns, facts and the cart
+ * - structured intents (lib/intent): add/remove/replace/setQty/end with spoken quantities, as hints for the model
+ * - cart operations (lib/cart-ops): the model answers with add/remove/replace/setQty ops, applied
+ *   to the session cart and checked against the candidates and live stock; rejected ones are explained
+ * - removals and new quantities by name, SKU, category or ordinal ("quita el segundo") resolved against
+ *   the basket before the model is asked; an ambiguous one asks which line and waits in the session
+ * - ranked candidate search (lib/search); only candidates can go into the cart (no invented SKUs)
+ * - size filters (lib/measure): "de media", "3/4\"", "13 mm" drop candidates whose specs disagree
+ * - upsell from data-driven rules (lib/upsell) merged with the model's suggestions
+ * - active promotions on the candidates (lib/promotions) so the reply can mention them
+ * - live stock on every line (catalog stock minus other customers' holds, lib/reservations)
+ * - AGENT_MODE=tools: the model drives a bounded tool loop instead (lib/agent, lib/tools)
+ * - one analytics event per turn (lib/analytics): intents, matches, basket changes, latency, failures
+ * - AGENT_RECORD_DIR: sessions recorded as golden transcripts (lib/transcripts, scripts/golden)
  *
+ * Body: { q, sessionId } (session from POST /api/sessions; 404 once it expired)
  * Returns: { content: stringifiedJSON({ plan, reply }) }
  *   plan = { title, steps[], basket[], upsell[], confirm }
  *   reply = natural chat response (may include **bold**)
+ *
+ * Streaming: with `Accept: text/event-stream` (or ?stream=1) the same turn is
+ * sent as SSE events (AgentEvent in lib/plan): status/candidates while it
+ * searches, `tool` as each tool runs (tools mode), `reply` with the text so
+ * far while the model writes, and a final `plan` event carrying the
+ * `{ content }` above (or `error`).
  */
 const SYSTEM_PROMPT = `Eres un asistente de kiosko para ferretería.
 
 REGLAS:
 - Mantén una conversación breve y clara en español.
 - Usa SOLO productos en CANDIDATES (no inventes SKUs).
-- CLIENT_CART: si el usuario NO pide cambios, respeta y conserva su canasta y cantidades.
-- REEMPLAZO: si el usuario expresa cambio explícito (p. ej., “mejor”, “prefiero”, “cámbialo por”, “en lugar de”), ACTUALIZA la canasta acorde y **no** conserves los ítems reemplazados.
+- CLIENT_CART es la canasta actual. NO la repitas: el servidor la conserva tal cual y solo aplica, en orden, las operaciones de "ops":
+  { "type": "add", "sku": string, "qty": number, "why": string }   agrega piezas (se suman a las que ya haya)
+  { "type": "remove", "sku": string, "qty"?: number }               quita el producto (o solo "qty" piezas)
+  { "type": "replace", "sku": string, "with": string, "qty"?: number, "why": string }   cambia un producto de la canasta por otro
+  { "type": "setQty", "sku": string, "qty": number }                fija la cantidad (0 lo quita)
+- Si el usuario no pide cambios (pregunta, aclaración), "ops" va vacío: [].
+- REEMPLAZO: si el usuario expresa cambio explícito (p. ej., “mejor”, “prefiero”, “cámbialo por”, “en lugar de”), usa "replace" sobre el producto de la canasta que cambia.
 - Si el mejor producto no tiene stock, adviértelo explícitamente y ofrece una alternativa EN STOCK.
-- Devuelve SIEMPRE un JSON con:
+- Devuelve SIEMPRE un JSON con "reply" PRIMERO:
   {
+    "reply": string,
+    "ops": [ ... ],
     "plan": { "title": string, "steps": string[3-5],
-              "basket": [ { "sku": string, "name": string, "qty": number, "price": number, "currency": string, "stock": number, "image_url": string, "why": string } ],
               "upsell":  [ { "sku": string, "name": string, "qty": number, "price": number, "currency": string, "stock": number, "image_url": string, "why": string } ],
-              "confirm": string },
-    "reply": string
+              "confirm": string }
   }
 - "reply" es un mensaje natural (máx. 2 frases), con **negritas** para nombres/cantidades. Si la charla va cerrando (p.ej., el usuario dice “no”, “eso es todo”), indícale: “Pulsa **Confirmar e imprimir** para finalizar.”`;
 
-function normalizeQuery(q: string) {
+// material words plus sizes spelled the way product names do ("de media" → "1/2")
+function normalizeQuery(q: string, measures: Measure[]) {
   const s = (q || "").toLowerCase();
   const t: string[] = [];
   if (s.includes("pvc")) t.push("pvc");
@@ -43,493 +79,456 @@ function normalizeQuery(q: string) {
   if (s.includes("pex")) t.push("pex");
   if (s.includes("tablaroca") || s.includes("drywall")) t.push("tablaroca");
   if (s.includes("madera")) t.push("madera");
-  const frac = s.match(/\b(\d+\s*\/\s*\d+)\b/);
-  if (frac) t.push(frac[1].replace(/\s+/g, ""));
-  if (s.includes("media")) t.push("1/2");
-  if (s.includes("tres cuartos")) t.push("3/4");
-  if (s.includes("un cuarto") || s.includes("cuarto")) t.push("1/4");
-  if (s.includes("tres octavos")) t.push("3/8");
-  if (s.includes("cinco octavos")) t.push("5/8");
-  if (s.includes("una pulgada") || s.includes("1 pulgada") || s.includes('1"')) t.push('1"');
-  if (s.includes("media pulgada")) t.push("1/2");
+  t.push(...measureTerms(measures));
   const compact = Array.from(new Set(t)).join(" ").trim();
   return compact || q;
 }
 
-/** Make a safe ILIKE needle for PostgREST .or() (commas/parens break the parser) */
-function likeNeedle(val: string) {
-  const s = String(val ?? "")
-    .replace(/[(),]/g, " ")
-    .replace(/\s+/g, " ")
-    .trim();
-  return `%${s}%`;
-}
+const CANDIDATE_LIMIT = 25;
 
-type Msg = { role: "user" | "assistant"; text: string };
-type CartItem = { sku: string; qty?: number };
 
-// intents
-function endIntent(text: string) {
-  const s = (text || "").toLowerCase().trim();
-  return /^(no|no gracias|eso es todo|listo|estoy bien|nada mas|nada más)\.?$/.test(s);
-}
-function replaceIntent(text: string) {
-  const s = (text || "").toLowerCase().normalize("NFD").replace(/\p{Diacritic}/gu, "");
-  return /(mejor|prefiero|cambial|cambia|en lugar de|en vez de|mejor pon|mejor usa)\b/.test(s);
-}
-function removeIntent(text: string) {
-  const s = (text || "").toLowerCase();
-  return /(quita|remueve|borra|elimina|saca)\b|sin\b/.test(s);
-}
-function addIntent(text: string) {
-  const s = (text || "").toLowerCase().normalize("NFD").replace(/\p{Diacritic}/gu, "");
-  // accept/confirm/add verbs and short affirmations
-  return /\b(si|agrega|agregalo|anade|ponlo|sumalo|dame|me lo llevo|tambien|incluyelo|mete)\b/.test(s);
+/**
+ * Basket lines for a cart, priced from the candidates; lines an op put there
+ * carry the model's reason. Lines for products the catalog no longer has are dropped.
+ */
+function basketLines(cart: CartLine[], known: Map<string, Product>, reasons: Map<string, string>): PlanLine[] {
+  return cart.flatMap((l) => {
+    const src = known.get(l.sku);
+    if (!src) return [];
+    return [
+      {
+        sku: src.sku,
+        name: src.name,
+        qty: l.qty,
+        price: src.price,
+        currency: src.currency,
+        stock: src.stock,
+        image_url: src.image_url,
+        why: reasons.get(l.sku) ?? "Conservado de tu selección previa.",
+      },
+    ];
+  });
 }
 
-// Keyword fallback to pick items when model fails to add them
-function pickByKeywords(q: string, qNorm: string, candidates: any[], max = 3) {
-  const text = (q + " " + qNorm).toLowerCase();
-  const keywords = [
-    ["union", "unión", "roscada"],
-    ["teflon", "teflón", "ptf", "ptfe", "cinta"],
-    ["cople", "acople", "empalme"],
-    ["cortatubo", "corta tubo"],
-    ["repuesto", "disco", "cuchilla"],
-    ["pegamento", "cemento", "adhesivo", "pvc"],
-    ["primer", "limpiador"],
-  ];
-  const scored = candidates.map((c: any) => {
-    const hay = (
-      (c.name || "") +
-      " " +
-      (c.description || "") +
-      " " +
-      (c.category || "") +
-      " " +
-      (c.subcategory || "")
-    ).toLowerCase();
-    let score = 0;
-    for (const group of keywords) {
-      const inQ = group.some((k) => text.includes(k));
-      const inC = group.some((k) => hay.includes(k));
-      if (inQ && inC) score += 2;
+/** What the customer should hear about cart operations that didn't go through (the model's own slips are only logged) */
+function explainRejected(outcomes: CartOpOutcome[], known: Map<string, Product>) {
+  const notes: string[] = [];
+  for (const o of outcomes) {
+    if (o.ok) continue;
+    const sku = opTarget(o.op);
+    console.warn(`agent: ${o.op.type} ${sku} rejected: ${o.error}`);
+    const name = known.get(sku)?.name ?? sku;
+    if (o.reason === "stock") {
+      notes.push(o.available ? `Solo hay **${o.available}** de **${name}** disponibles.` : `**${name}** está agotado.`);
+    } else if (o.reason === "line_limit" || o.reason === "cart_full") {
+      notes.push(`No pude agregar **${name}**: ${o.error}.`);
     }
-    if (Number(c.stock) > 0) score += 1; // prefer in-stock
-    return { c, score };
-  });
-  return scored
-    .filter((s) => s.score > 0)
-    .sort((a, b) => b.score - a.score)
-    .slice(0, max)
-    .map(({ c }) => c);
+  }
+  return Array.from(new Set(notes)).join(" ");
 }
 
-export default async function handler(req: NextApiRequest, res: NextApiResponse) {
-  if (req.method !== "POST") return res.status(405).end();
-  const { q, history, cart } = (req.body || {}) as { q?: string; history?: Msg[]; cart?: CartItem[] };
-  if (!q) return res.status(400).json({ error: "q required" });
-
-  try {
-    const qNorm = normalizeQuery(q);
-    const isReplace = replaceIntent(q);
-    const isAdd = addIntent(q);
-
-    // --- Search candidates (original + normalized), plus token search
-    const q1 = likeNeedle(q);
-    const q2 = likeNeedle(qNorm);
-
-    // 1a) full-phrase search
-    const { data: p1, error: e1 } = await supabaseAdmin
-      .from("products")
-      .select("sku,name,brand,category,subcategory,description,price,currency,stock,image_url")
-      .or(`name.ilike.${q1},description.ilike.${q1},category.ilike.${q1},subcategory.ilike.${q1}`)
-      .limit(50);
-    if (e1) return res.status(500).json({ error: e1.message });
-
-    const { data: p2, error: e2 } = await supabaseAdmin
-      .from("products")
-      .select("sku,name,brand,category,subcategory,description,price,currency,stock,image_url")
-      .or(`name.ilike.${q2},description.ilike.${q2},category.ilike.${q2},subcategory.ilike.${q2}`)
-      .limit(50);
-    if (e2) return res.status(500).json({ error: e2.message });
-
-    // 1b) token search (pulls spare/teflon/etc into candidates)
-    const tokenList = Array.from(
-      new Set(
-        (q.toLowerCase().normalize("NFD").replace(/\p{Diacritic}/gu, "")
-           .replace(/[^a-z0-9\s]/g, " ")
-           .split(/\s+/)
-           .filter(w => w.length >= 3))
-      )
-    );
-    const tokenWhitelist = ["repuesto","disco","cuchilla","cortatubo","corta","tubo","teflon","ptfe","union","roscada","cople","pvc","cobre"];
-    const tokens = tokenList.filter(t => tokenWhitelist.includes(t));
-
-    let p3: any[] = [];
-    if (tokens.length) {
-      const ors: string[] = [];
-      for (const t of tokens) {
-        const needle = `%${t}%`;
-        ors.push(`name.ilike.${needle}`, `description.ilike.${needle}`, `category.ilike.${needle}`, `subcategory.ilike.${needle}`);
-      }
-      const { data: p3res, error: e3 } = await supabaseAdmin
-        .from("products")
-        .select("sku,name,brand,category,subcategory,description,price,currency,stock,image_url")
-        .or(ors.join(","))
-        .limit(50);
-      if (e3) return res.status(500).json({ error: e3.message });
-      p3 = p3res || [];
-    }
+// "A", "A y B", "A, B y C"
+function spokenList(items: string[], last = "y") {
+  return items.length > 1 ? `${items.slice(0, -1).join(", ")} ${last} ${items[items.length - 1]}` : items[0] ?? "";
+}
 
-    // --- Synonyms
-    const { data: syns } = await supabaseAdmin
-      .from("synonyms")
-      .select("product_sku,term")
-      .or(`term.ilike.${q1},term.ilike.${q2}`);
-
-    // Build candidates map
-    const bySku = new Map<string, any>();
-    [...(p1 || []), ...(p2 || []), ...p3].forEach((p) => bySku.set(p.sku, p));
-
-    if (syns?.length) {
-      const synSkuList = Array.from(new Set(syns.map((s) => s.product_sku)));
-      if (synSkuList.length) {
-        const { data: synProducts } = await supabaseAdmin
-          .from("products")
-          .select("sku,name,brand,category,subcategory,description,price,currency,stock,image_url")
-          .in("sku", synSkuList);
-        (synProducts || []).forEach((p) => bySku.set(p.sku, p));
-      }
-    }
+/** What the customer hears about removals by reference: what went, what wasn't there, and which line they meant */
+function describeReductions(
+  reduced: Reductions<RefLine>,
+  outcomes: CartOpOutcome[],
+  after: CartLine[],
+  known: Map<string, Product>
+) {
+  const name = (sku: string) => `**${known.get(sku)?.name ?? sku}**`;
+  const removed: string[] = [];
+  const notes: string[] = [];
+  for (const o of outcomes) {
+    if (!o.ok || (o.op.type !== "remove" && o.op.type !== "setQty")) continue;
+    const left = after.find((l) => l.sku === o.op.sku)?.qty ?? 0;
+    if (!left) removed.push(name(o.op.sku));
+    else if (o.op.type === "remove") notes.push(`Quité **${o.op.qty}** de ${name(o.op.sku)} (quedan **${left}**).`);
+    else notes.push(`Dejé ${name(o.op.sku)} en **${left}**.`);
+  }
+  if (removed.length) notes.unshift(`Quité ${spokenList(removed)}.`);
+  for (const item of reduced.missing) notes.push(`No encontré **${item}** en tu canasta.`);
+  const rejected = explainRejected(outcomes, known);
+  if (rejected) notes.push(rejected);
+
+  const ask = reduced.ask;
+  const options = ask ? spokenList(ask.lines.map((l) => name(l.sku)), "o") : "";
+  const question = !ask ? "" : ask.type === "remove" ? `¿Cuál quito: ${options}?` : `¿A cuál le dejo **${ask.qty}**: ${options}?`;
+  return { done: notes.join(" "), question };
+}
 
-    // include current cart SKUs
-    const cartSkuList = Array.from(new Set((cart || []).map((c) => c.sku)));
-    if (cartSkuList.length) {
-      const { data: cartProducts } = await supabaseAdmin
-        .from("products")
-        .select("sku,name,brand,category,subcategory,description,price,currency,stock,image_url")
-        .in("sku", cartSkuList);
-      (cartProducts || []).forEach((p) => bySku.set(p.sku, p));
-    }
+/**
+ * Upsell (merchandising rules merged with the model's ideas), catalog categories
+ * and shelf locations, and live stock (catalog stock minus active holds) on a finished plan.
+ */
+async function finishPlan(catalog: CatalogRepository, plan: Plan, known: Map<string, Product>) {
+  // ---- Upsell: merchandising rules merged with the model's ideas (priced, in stock, not in basket) ----
+  try {
+    plan.upsell = await buildUpsell(catalog, {
+      basket: plan.basket,
+      proposed: plan.upsell,
+      rules: await catalog.getUpsellRules(),
+      known,
+    });
+  } catch (e) {
+    console.warn("agent: upsell rules skipped:", (e as Error)?.message);
+    plan.upsell = plan.upsell.filter((u) => !plan.basket.some((b) => b.sku === u.sku));
+  }
 
-    const candidates = Array.from(bySku.values());
-    const candidateSkus = new Set(candidates.map((c) => c.sku));
-
-    // end intent shortcut
-    if (endIntent(q)) {
-      return res.status(200).json({
-        content: JSON.stringify({
-          plan: { title: "", steps: [], basket: [], upsell: [], confirm: "Pulsa **Confirmar e imprimir** para finalizar." },
-          reply: "Perfecto. Pulsa **Confirmar e imprimir** para terminar. ¡Éxitos con tu proyecto!",
-        }),
-      });
-    }
+  // from the catalog: categories set the basket's tax rates (lib/totals), locations its route (lib/wayfinding)
+  for (const l of [...plan.basket, ...plan.upsell]) {
+    const p = known.get(l.sku);
+    l.category = p?.category ?? l.category;
+    l.location = p?.location ?? l.location;
+  }
 
-    // conversation context
-    const turns = (history || []).slice(-8);
-    const convo = turns.map((t) => `${t.role === "user" ? "Usuario" : "Asistente"}: ${t.text}`).join("\n");
-
-    // cart qty map
-    const cartBySku = new Map<string, number>();
-    (cart || []).forEach((ci) => cartBySku.set(ci.sku, Math.max(1, Number(ci.qty || 1))));
-
-    // call Gemini
-    const genAI = new GoogleGenerativeAI(process.env.GEMINI_API_KEY!);
-    const model = genAI.getGenerativeModel({ model: process.env.LLM_MODEL || "gemini-1.5-flash" });
-
-    const prompt =
-      `${SYSTEM_PROMPT}\n\n` +
-      (convo ? `CONVERSACIÓN:\n${convo}\n\n` : "") +
-      `MENSAJE ACTUAL:\n${q}\n\n` +
-      `INTENCIÓN: ${isReplace ? "REEMPLAZO" : isAdd ? "AGREGAR" : "NORMAL"}\n` +
-      `CLIENT_CART (respeta cantidades; no elimines sin instrucción explícita):\n${JSON.stringify(cart || [])}\n\n` +
-      `CANDIDATES (usa solo estos):\n${JSON.stringify(candidates)}\n\n` +
-      `Responde SOLO con JSON { "plan": {...}, "reply": "..." }`;
-
-    const result = await model.generateContent({
-      contents: [{ role: "user", parts: [{ text: prompt }] }],
-      generationConfig: { temperature: 0.35, responseMimeType: "application/json" },
-    });
+  // ---- Live stock: catalog stock minus active holds, never the value the model echoed ----
+  try {
+    const lines = [...plan.basket, ...plan.upsell];
+    const avail = await getReservationStore(catalog).available(lines.map((l) => l.sku));
+    for (const l of lines) if (avail.has(l.sku)) l.stock = avail.get(l.sku)!;
+    plan.upsell = plan.upsell.filter((u) => u.stock > 0);
+  } catch (e) {
+    console.warn("agent: live stock skipped:", (e as Error)?.message);
+  }
+}
 
-    // parse model JSON
-    let parsed: any;
-    try {
-      parsed = JSON.parse(result.response.text());
-    } catch {
-      return res.status(200).json({
-        content: JSON.stringify({
-          plan: { title: "", steps: [], basket: [], upsell: [], confirm: "¿Deseas confirmar ahora?" },
-          reply: "Tengo una sugerencia lista. ¿Deseas confirmar ahora?",
-        }),
-      });
-    }
+/** What a turn found out along the way, for its analytics event */
+type TurnStats = { candidates: number; outOfStock: string[]; error: string | null };
+
+/** One customer turn against the session's transcript and cart; `emit` reports progress to streaming clients */
+async function agentTurn(
+  q: string,
+  session: Session,
+  emit: (e: AgentEvent) => void,
+  debug: boolean,
+  stats: TurnStats,
+  llm: LLM
+) {
+  const cart = session.cart;
+  const measures = parseMeasures(q);
+  const qNorm = normalizeQuery(q, measures);
+  const ops = parseIntents(q);
+  const isReplace = hasIntent(ops, "replace");
+  const isAdd = hasIntent(ops, "add");
+
+  const catalog = getCatalog();
+  emit({ type: "status", stage: "searching" });
+
+  // --- Search candidates: ranked, accent/typo tolerant, synonym-boosted (lib/search)
+  const hits = await searchProducts(catalog, qNorm === q ? q : `${q} ${qNorm}`, { limit: CANDIDATE_LIMIT });
+
+  // Build candidates map (best match first), minus products of another size
+  const bySku = new Map<string, Product>();
+  filterByMeasures(hits.map((h) => h.product), measures).kept.forEach((p) => bySku.set(p.sku, p));
+
+  // what the customer's words matched (before cart/relations widen the pool)
+  const searchedSkus = new Set(bySku.keys());
+  // pure follow-ups ("sí", "eso es todo") aren't searches; anything else that barely matched is logged
+  if (ops.some((o) => o.type !== "end")) await logSearchMiss(q, searchedSkus.size, "agent");
+  stats.candidates = searchedSkus.size;
+  stats.outOfStock = [...searchedSkus].filter((sku) => Number(bySku.get(sku)?.stock) === 0);
+
+  // include current cart SKUs
+  const cartProducts = await catalog.getBySkus(cart.map((c) => c.sku));
+  cartProducts.forEach((p) => bySku.set(p.sku, p));
+
+  // product_relations: pull accessories/spares/substitutes/requirements into the pool
+  const relations = await loadRelations(catalog, Array.from(bySku.keys()));
+  const relatedMissing = relations.skus().filter((s) => !bySku.has(s));
+  (await catalog.getBySkus(relatedMissing)).forEach((p) => bySku.set(p.sku, p));
+
+  const candidates = Array.from(bySku.values());
+  const candidateSkus = new Set(candidates.map((c) => c.sku));
+  emit({
+    type: "candidates",
+    count: searchedSkus.size,
+    names: candidates.filter((c) => searchedSkus.has(c.sku)).slice(0, 3).map((c) => c.name),
+  });
 
-    // server-side validation/merge
-    const plan = parsed?.plan || {};
-    let reply: string = parsed?.reply || "Listo. ¿Algo más?";
+  // promotions touching the candidates; a failure only loses the mention
+  let promos: Promotion[] = [];
+  try {
+    const active = activePromotions(await catalog.getPromotions());
+    promos = active.filter((p) => candidates.some((c) => promotionsFor([p], c).length));
+  } catch (e) {
+    console.warn("agent: promotions skipped:", (e as Error)?.message);
+  }
 
-    function filterToCandidates(arr: any[]) {
-      return (Array.isArray(arr) ? arr : []).filter((x) => x && candidateSkus.has(x.sku));
-    }
-    plan.basket = filterToCandidates(plan.basket);
-    plan.upsell = filterToCandidates(plan.upsell);
+  // the session cart as plan lines, for turns that leave it as it is
+  const keptCart = (confirm: string, lines = cart) => {
+    const kept = emptyPlan(confirm);
+    kept.basket = basketLines(lines, bySku, new Map());
+    return kept;
+  };
 
-    // prefer client qty if present
-    for (const it of plan.basket) {
-      const cartQty = cartBySku.get(it.sku);
-      it.qty = Math.max(1, Number(cartQty ?? it.qty ?? 1));
+  // live availability for the SKUs ops would add to; catalog stock when the hold store is down
+  const liveStock = async (skus: string[]) => {
+    if (!skus.length) return undefined;
+    try {
+      return await getReservationStore(catalog).available(skus);
+    } catch (e) {
+      console.warn("agent: live stock for cart ops skipped:", (e as Error)?.message);
+      return undefined;
     }
+  };
+
+  // end intent shortcut
+  if (ops.every((o) => o.type === "end")) {
+    session.pending = null;
+    return {
+      plan: keptCart("Pulsa **Confirmar e imprimir** para finalizar."),
+      reply: "Perfecto. Pulsa **Confirmar e imprimir** para terminar. ¡Éxitos con tu proyecto!",
+    };
+  }
 
-    const userWantsRemoval = removeIntent(q);
-
-    // --- ADD PATH: keep cart and append requested accessory(s) ---
-    if (isAdd) {
-      const wantsSpare = /repuesto|disco|cuchilla/i.test(q);
-      const wantsTeflon = /tefl[oó]n|ptfe|ptf/i.test(q);
+  // ---- Removals and new quantities by reference: resolved against the basket here, not left to the model ----
+  const refLines = cart.flatMap((l) => {
+    const p = bySku.get(l.sku);
+    return p ? [{ sku: l.sku, name: p.name, category: p.category, subcategory: p.subcategory }] : [];
+  });
+  const reduced = reductionOps(ops, refLines, session.pending, q);
+  const pre = applyCartOps(cart, reduced.ops, {
+    products: bySku,
+    available: await liveStock(reduced.ops.flatMap((o) => (o.type === "setQty" ? [o.sku] : []))),
+  });
+  session.pending = reduced.ask && {
+    type: reduced.ask.type,
+    qty: reduced.ask.qty,
+    skus: reduced.ask.lines.map((l) => l.sku),
+  };
+  const said = describeReductions(reduced, pre.outcomes, pre.cart, bySku);
+
+  // nothing else asked: answer without the model
+  if (!reduced.rest.length && (reduced.ops.length || reduced.ask || reduced.missing.length)) {
+    const plan = keptCart(reduced.ask ? "" : "¿Deseas algo más? Si está todo, pulsa **Confirmar e imprimir**.", pre.cart);
+    emit({ type: "status", stage: "checking" });
+    await finishPlan(catalog, plan, bySku);
+    return { plan, reply: [said.done, said.question || "¿Algo más?"].filter(Boolean).join(" ") };
+  }
 
-      const ensured: any[] = [];
+  // conversation context: recent turns verbatim, older ones summarised, facts so far
+  const convo = session.turns.map((t) => `${t.role === "user" ? "Usuario" : "Asistente"}: ${t.text}`).join("\n");
+  const facts = describeFacts(deriveFacts(session.facts, q));
+
+
+  const prompt =
+    `${SYSTEM_PROMPT}\n\n` +
+    (session.summary ? `RESUMEN DE TURNOS ANTERIORES:\n${session.summary}\n\n` : "") +
+    (convo ? `CONVERSACIÓN:\n${convo}\n\n` : "") +
+    (facts ? `DATOS DEL CLIENTE: ${facts}\n\n` : "") +
+    `MENSAJE ACTUAL:\n${q}\n\n` +
+    `INTENCIÓN: ${isReplace ? "REEMPLAZO" : isAdd ? "AGREGAR" : "NORMAL"}\n` +
+    `OPERACIONES: ${describeIntents(ops)}\n` +
+    (measures.length ? `MEDIDAS PEDIDAS: ${measures.map(describeMeasure).join(", ")}\n` : "") +
+    (said.done ? `YA APLICADO A LA CANASTA (no lo repitas en "ops"): ${said.done.replace(/\*\*/g, "")}\n` : "") +
+    `CLIENT_CART (se conserva; cámbiala solo con "ops" y sin quitar nada que el usuario no pida):\n${JSON.stringify(pre.cart)}\n\n` +
+    `CANDIDATES (usa solo estos):\n${JSON.stringify(candidates)}\n\n` +
+    (relations.rows.length
+      ? `RELACIONES (producto relación producto):\n${relations.rows.map((r) => `${r.product_sku} ${r.kind} ${r.related_sku}`).join("\n")}\n\n`
+      : "") +
+    (promos.length
+      ? `PROMOCIONES ACTIVAS (menciónalas si aplican; el descuento se calcula en caja):\n${promos.map(describePromotion).join("\n")}\n\n`
+      : "") +
+    `Responde SOLO con JSON { "reply": "...", "ops": [...], "plan": {...} }`;
+
+  // validated { reply, ops, plan }; invalid output is repaired or re-prompted (bounded)
+  emit({ type: "status", stage: "composing" });
+  let streamed = "";
+  const parsed = await chatWithRepair(llm, [{ role: "user", content: prompt }], parseAgentReply, {
+    temperature: 0.35,
+    onText: (sofar) => {
+      const text = partialReply(sofar);
+      if (text && text !== streamed) emit({ type: "reply", text: (streamed = text) });
+    },
+  });
+  if (!parsed.ok) {
+    console.warn("agent: model output rejected:", parsed.error);
+    stats.error = parsed.error;
+    // never blank the basket on a model failure: hand back the session cart (and the removals already made)
+    return {
+      plan: keptCart("Pulsa **Confirmar e imprimir** para finalizar, o indica cambios.", pre.cart),
+      reply: ["No pude preparar la sugerencia. ¿Puedes repetirlo con otras palabras?", said.done, said.question]
+        .filter(Boolean)
+        .join(" "),
+    };
+  }
 
-      // keep model-added items (that are valid candidates)
-      for (const it of Array.isArray(plan.basket) ? plan.basket : []) {
-        if (candidateSkus.has(it.sku)) ensured.push(it);
-      }
-      // re-add client cart items (preserve qty)
-      for (const [sku, qty] of cartBySku.entries()) {
-        if (!ensured.some((x) => x.sku === sku) && candidateSkus.has(sku)) {
-          const src = bySku.get(sku);
-          if (src) {
-            ensured.push({
-              sku, name: src.name, qty,
-              price: src.price, currency: src.currency, stock: src.stock, image_url: src.image_url,
-              why: "Conservado de tu selección previa.",
-            });
-          }
-        }
-      }
+  // ---- Cart operations on the session cart: only candidates, within live stock (lib/cart-ops) ----
+  const { plan, ops: cartOps } = parsed.data;
+  let reply: string = parsed.data.reply || "Listo. ¿Algo más?";
+  plan.upsell = plan.upsell.filter((x) => candidateSkus.has(x.sku));
 
-      // helper to push a candidate if matches
-      const pushIf = (predicate: (p: any) => boolean, why: string) => {
-        const pick = candidates.find(predicate);
-        if (pick && !ensured.some((x) => x.sku === pick.sku)) {
-          ensured.push({
-            sku: pick.sku, name: pick.name, qty: 1,
-            price: pick.price, currency: pick.currency, stock: pick.stock, image_url: pick.image_url, why
-          });
-        }
-      };
-
-      if (wantsSpare) {
-        // prefer spare for cortatubo
-        pushIf(
-          (p) => /repuesto|disco|cuchilla/i.test(`${p.name} ${p.description}`) && /cortatubo|corta tubo/i.test(`${p.name} ${p.description}`),
-          "Agregado a tu pedido como repuesto del cortatubo."
-        );
-      }
-      if (wantsTeflon) {
-        pushIf(
-          (p) => /tefl[oó]n|ptfe|ptf/i.test(`${p.name} ${p.description}`),
-          "Agregado para sellar roscas (cinta de teflón)."
-        );
+  const applied = applyCartOps(pre.cart, cartOps, {
+    products: bySku,
+    available: await liveStock(cartOps.map(opTarget)),
+  });
+  const reasons = new Map<string, string>();
+  for (const o of applied.outcomes) {
+    if (o.ok && o.op.type !== "remove" && o.op.type !== "setQty") {
+      reasons.set(opTarget(o.op), o.op.why || "Agregado a tu pedido.");
+    }
+  }
+  plan.basket = basketLines(applied.cart, bySku, reasons);
+  const rejected = explainRejected(applied.outcomes, bySku);
+  reply = [said.done, rejected, reply, said.question].filter(Boolean).join(" ");
+
+  emit({ type: "status", stage: "checking" });
+
+  await finishPlan(catalog, plan, bySku);
+
+  // ---- OOS narrative nudge: a basket line substitutes something the customer asked for that is agotado ----
+  if (!/agotad/i.test(reply)) {
+    for (const line of plan.basket) {
+      const oos = substitutedBy(relations, line.sku)
+        .map((sku) => bySku.get(sku))
+        .find((p) => p && searchedSkus.has(p.sku) && Number(p.stock) === 0);
+      if (oos) {
+        plan.confirm = plan.confirm || `¿Desea confirmar **${line.name}** como alternativa?`;
+        reply = `El **${oos.name}** está agotado. ` + reply;
+        break;
       }
+    }
+  }
 
-      // Fallback TEFLÓN: if still not appended, try hard-coded SKU set (replace with your real SKUs)
-      if (wantsTeflon && !ensured.some(x => /tefl[oó]n|ptfe|ptf/i.test(`${x.name} ${x.sku}`))) {
-        const TEFLON_SKUS = ["PTF-12"]; // <-- replace with actual SKU(s)
-        const { data: tfetch } = await supabaseAdmin
-          .from("products")
-          .select("sku,name,brand,category,subcategory,description,price,currency,stock,image_url")
-          .in("sku", TEFLON_SKUS);
-        const t = (tfetch || []).find(p => Number(p.stock) > 0) || (tfetch || [])[0];
-        if (t && !ensured.some(x => x.sku === t.sku)) {
-          ensured.push({
-            sku: t.sku, name: t.name, qty: 1,
-            price: t.price, currency: t.currency, stock: t.stock, image_url: t.image_url,
-            why: "Agregado para sellar roscas (cinta de teflón)."
-          });
-        }
-      }
+  // (Optional debug)
+  if (debug) {
+    Object.assign(plan, {
+      __debug: {
+        isReplace, isAdd, q, ops, measures, promotions: promos.map((p) => p.id),
+        reductions: pre.outcomes, cartOps: applied.outcomes,
+      },
+    });
+  }
 
-      // --- Case-1 assist: ensure REP-CORTA-001 when cart has CORTA-COBRE-001 and user asked for spare
-      if (wantsSpare && cartBySku.has("CORTA-COBRE-001") && !ensured.some(x => x.sku === "REP-CORTA-001")) {
-        let rep = bySku.get("REP-CORTA-001");
-        if (!rep) {
-          const { data: repFetch } = await supabaseAdmin
-            .from("products")
-            .select("sku,name,brand,category,subcategory,description,price,currency,stock,image_url")
-            .eq("sku", "REP-CORTA-001")
-            .limit(1)
-            .maybeSingle();
-          if (repFetch) {
-            rep = repFetch;
-            bySku.set(rep.sku, rep);
-          }
-        }
-        if (rep) {
-          ensured.push({
-            sku: rep.sku, name: rep.name, qty: 1,
-            price: rep.price, currency: rep.currency, stock: rep.stock,
-            image_url: rep.image_url, why: "Agregado a tu pedido como repuesto del cortatubo."
-          });
-        }
-      }
+  return { plan, reply };
+}
 
-      plan.basket = ensured;
-      plan.confirm = plan.confirm || "¿Deseas algo más? Si está todo, pulsa **Confirmar e imprimir**.";
-    }
+/** The same turn through the tool-calling loop (lib/agent): the model searches and edits the cart itself */
+async function toolTurn(
+  q: string,
+  session: Session,
+  emit: (e: AgentEvent) => void,
+  debug: boolean,
+  stats: TurnStats,
+  llm: LLM
+) {
+  const catalog = getCatalog();
+  emit({ type: "status", stage: "composing" });
+  let streamed = "";
+  const out = await runToolAgent(llm, catalog, getReservationStore(catalog), {
+    q,
+    session,
+    onTool: (name) => emit({ type: "tool", name }),
+    onText: (sofar) => {
+      const text = partialReply(sofar);
+      if (text && text !== streamed) emit({ type: "reply", text: (streamed = text) });
+    },
+  });
+  for (const t of out.trace) {
+    if (t.name === "search_products" && t.results !== undefined) await logSearchMiss(t.query ?? q, t.results, "agent");
+  }
+  const inCart = new Set(session.cart.map((l) => l.sku));
+  stats.candidates = out.trace.reduce((n, t) => n + (t.results ?? 0), 0);
+  stats.outOfStock = [...out.known.values()].filter((p) => !inCart.has(p.sku) && Number(p.stock) === 0).map((p) => p.sku);
+  stats.error = out.error ?? null;
+  emit({ type: "status", stage: "checking" });
+  await finishPlan(catalog, out.plan, out.known);
+  if (debug) Object.assign(out.plan, { __debug: { mode: "tools", q, tools: out.trace } });
+  return { plan: out.plan, reply: out.reply };
+}
 
-    const userDidAdd = isAdd;
-
-    // --- STRONG REPLACE path (skip if it's an ADD turn) ---
-    const mentionsAlternates = /un(?:i|í)on|roscada|tefl(?:o|ó)n|ptfe|ptf|repuesto|disco|cuchilla/i.test(q);
-    const prevSkus = new Set(Array.from(cartBySku.keys()));
-
-    const shouldForceReplace =
-      !userDidAdd &&
-      (isReplace ||
-        (mentionsAlternates &&
-          Array.isArray(plan.basket) &&
-          plan.basket.length > 0 &&
-          plan.basket.every((x: any) => prevSkus.has(x.sku))));
-
-    if (shouldForceReplace) {
-      // drop items previously in cart
-      plan.basket = Array.isArray(plan.basket)
-        ? plan.basket.filter((x: any) => !prevSkus.has(x.sku))
-        : [];
-
-      if (plan.basket.length === 0) {
-        const picks = pickByKeywords(q, qNorm, candidates, 3);
-        plan.basket = picks.map((src) => ({
-          sku: src.sku,
-          name: src.name,
-          qty: 1,
-          price: src.price,
-          currency: src.currency,
-          stock: src.stock,
-          image_url: src.image_url,
-          why: "Seleccionado según tu preferencia.",
-        }));
-      } else if (mentionsAlternates) {
-        const wantUnion = /un[ií]on|roscada/i.test(q);
-        const wantTeflon = /tefl[oó]n|ptfe|ptf/i.test(q);
-        const wantSpare = /repuesto|disco|cuchilla/i.test(q);
-        const hasUnion = plan.basket.some((x: any) => /un[ií]on|roscada/i.test(`${x.name} ${x.sku}`));
-        const hasTeflon = plan.basket.some((x: any) => /tefl[oó]n|ptfe|ptf/i.test(`${x.name} ${x.sku}`));
-        const hasSpare = plan.basket.some((x: any) => /repuesto|disco|cuchilla/i.test(`${x.name} ${x.sku}`));
-        if ((wantUnion && !hasUnion) || (wantTeflon && !hasTeflon) || (wantSpare && !hasSpare)) {
-          const picks = pickByKeywords(q, qNorm, candidates, 3);
-          for (const src of picks) {
-            if (!plan.basket.some((x: any) => x.sku === src.sku)) {
-              plan.basket.push({
-                sku: src.sku,
-                name: src.name,
-                qty: 1,
-                price: src.price,
-                currency: src.currency,
-                stock: src.stock,
-                image_url: src.image_url,
-                why: "Seleccionado según tu preferencia.",
-              });
-            }
-          }
-        }
-      }
+/**
+ * Runs the turn, then saves both messages and the new cart to the session and
+ * logs the turn (also when it fails) → stringified { plan, reply }
+ */
+async function sessionTurn(q: string, session: Session, emit: (e: AgentEvent) => void, debug: boolean) {
+  const mode = process.env.AGENT_MODE === "tools" ? "tools" : "classic";
+  const turn = mode === "tools" ? toolTurn : agentTurn;
+  const stats: TurnStats = { candidates: 0, outOfStock: [], error: null };
+  const started = Date.now();
+  const before = session.cart;
+  const event = (diff: ReturnType<typeof basketDiff>, recommended: string[], basketValue: number) =>
+    track({
+      type: "turn",
+      kiosk_id: session.kiosk_id,
+      session_id: session.id,
+      query: q.slice(0, 200),
+      normalized: normalizeQueryText(q),
+      intents: parseIntents(q).map((o) => o.type),
+      mode,
+      candidates: stats.candidates,
+      diff,
+      recommended,
+      out_of_stock: stats.outOfStock,
+      basket_value: basketValue,
+      latency_ms: Date.now() - started,
+      error: stats.error,
+    });
 
-      for (const it of plan.basket) {
-        const cartQty = cartBySku.get(it.sku);
-        if (cartQty) it.qty = Math.max(1, Number(cartQty));
-      }
-    }
+  let out: Awaited<ReturnType<typeof turn>>;
+  let recorder: ReturnType<typeof recordingLLM> | null = null;
+  try {
+    // the configured provider (LLM_PROVIDER / LLM_MODEL), its answers kept when recording transcripts
+    const llm = makeLLM();
+    recorder = recordDir() ? recordingLLM(llm) : null;
+    out = await turn(q, session, emit, debug, stats, recorder?.llm ?? llm);
+  } catch (e) {
+    stats.error = (e as Error)?.message || "agent failure";
+    await event([], [], 0);
+    throw e;
+  }
+  recordTurn(session, "user", q);
+  recordTurn(session, "assistant", out.reply);
+  session.cart = out.plan.basket.map((l) => ({ sku: l.sku, qty: l.qty }));
+  await getSessionStore().save(session);
+
+  const diff = basketDiff(before, session.cart);
+  const added = diff.filter((c) => c.to > c.from).map((c) => c.sku);
+  const value = out.plan.basket.reduce((s, l) => s + Number(l.price) * l.qty, 0);
+  await event(diff, Array.from(new Set([...added, ...out.plan.upsell.map((u) => u.sku)])), Math.round(value * 100) / 100);
+  if (recorder) {
+    await recordStep(session.id, { q, llm: recorder.answers, expect: expectFrom(out.plan, out.reply) }, getCatalog());
+  }
+  return JSON.stringify(out);
+}
 
-    // ===== EMPTY BASKET HANDLING =====
-    if (!plan.basket || plan.basket.length === 0) {
-      if (isReplace && !userDidAdd) {
-        const picks = pickByKeywords(q, qNorm, candidates, 3);
-        plan.basket = picks.map((src) => ({
-          sku: src.sku,
-          name: src.name,
-          qty: 1,
-          price: src.price,
-          currency: src.currency,
-          stock: src.stock,
-          image_url: src.image_url,
-          why: "Seleccionado según tu preferencia.",
-        }));
-        plan.confirm = plan.confirm || "¿Así está bien el cambio? Si sí, pulsa **Confirmar e imprimir**.";
-      } else if (!userWantsRemoval && cartBySku.size > 0) {
-        // restore previous cart
-        plan.basket = [];
-        for (const [sku, qty] of cartBySku.entries()) {
-          if (!candidateSkus.has(sku)) continue;
-          const src = bySku.get(sku);
-          if (src) {
-            plan.basket.push({
-              sku: src.sku,
-              name: src.name,
-              qty,
-              price: src.price,
-              currency: src.currency,
-              stock: src.stock,
-              image_url: src.image_url,
-              why: "Conservado de tu selección previa.",
-            });
-          }
-        }
-        plan.confirm = plan.confirm || "Pulsa **Confirmar e imprimir** para finalizar, o indica cambios.";
-      }
-    }
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== "POST") return res.status(405).end();
+  const { q, sessionId } = (req.body || {}) as { q?: string; sessionId?: string };
+  if (!q) return res.status(400).json({ error: "q required" });
+  if (!sessionId || typeof sessionId !== "string") return res.status(400).json({ error: "sessionId required" });
+  const debug = req.query.debug === "1";
 
-    // In NORMAL turns, if model omitted cart items, re-add them
-    if (!isReplace && !userWantsRemoval) {
-      for (const [sku, qty] of cartBySku.entries()) {
-        if (!plan.basket.find((x: any) => x.sku === sku) && candidateSkus.has(sku)) {
-          const src = bySku.get(sku);
-          if (src) {
-            plan.basket.push({
-              sku: src.sku,
-              name: src.name,
-              qty,
-              price: src.price,
-              currency: src.currency,
-              stock: src.stock,
-              image_url: src.image_url,
-              why: "Pedido previo del cliente.",
-            });
-          }
-        }
-      }
-    }
+  let session: Session | null;
+  try {
+    session = await getSessionStore().get(sessionId);
+  } catch (e) {
+    console.error(e);
+    return res.status(500).json({ error: (e as Error)?.message || "session store failure" });
+  }
+  if (!session) return res.status(404).json({ error: "session expired" });
 
-    // ---- PVC-leak OOS narrative nudge (demo polish) ----
+  if (req.query.stream !== "1" && !String(req.headers.accept || "").includes("text/event-stream")) {
     try {
-      const looksLikePVCLek = /fuga/i.test(q) && /pvc/i.test(q);
-      if (looksLikePVCLek) {
-        const { data: cople } = await supabaseAdmin
-          .from("products")
-          .select("sku,stock")
-          .eq("sku", "PVC-CPL-050")
-          .limit(1)
-          .maybeSingle();
-        const basketHasUnion = Array.isArray(plan.basket) && plan.basket.some((x: any) => x.sku === "PVC-UNION-050");
-        if (cople && Number(cople.stock) === 0 && basketHasUnion) {
-          if (!/agotad/i.test(reply)) {
-            const prefix = "El **cople recto 1/2\"** está agotado. ";
-            plan.confirm = plan.confirm || "¿Desea confirmar la **Unión roscada 1/2\"** como alternativa?";
-            reply = prefix + reply;
-          }
-        }
-      }
-    } catch { /* non-fatal */ }
-
-    // (Optional debug)
-    if (req.query.debug === "1") {
-      (plan as any).__debug = { isReplace, isAdd, q };
+      return res.status(200).json({ content: await sessionTurn(q, session, () => {}, debug) });
+    } catch (e) {
+      console.error(e);
+      return res.status(500).json({ error: (e as Error)?.message || "agent failure" });
     }
+  }
 
-    return res.status(200).json({ content: JSON.stringify({ plan, reply }) });
-  } catch (e: any) {
+  const sse = openSse(res);
+  try {
+    const content = await sessionTurn(q, session, (e) => sse.send(e.type, e), debug);
+    sse.send("plan", { type: "plan", content } satisfies AgentEvent);
+  } catch (e) {
     console.error(e);
-    return res.status(500).json({ error: e?.message || "agent failure" });
+    sse.send("error", { type: "error", error: (e as Error)?.message || "agent failure" } satisfies AgentEvent);
+  } finally {
+    sse.close();
   }
 }
\ No newline at end of file
@@ -1,18 +1,14 @@
 // pages/api/check-supabase.ts
 import type { NextApiRequest, NextApiResponse } from "next";
-import { supabaseAdmin } from "@/lib/supabase";
+import { getCatalog } from "@/lib/catalog";
 
 export default async function handler(req: NextApiRequest, res: NextApiResponse) {
   try {
-    // Quick ping: count rows without fetching data
-    const { count, error } = await supabaseAdmin
-      .from("products")
-      .select("*", { count: "exact", head: true });
-
-    if (error) return res.status(500).json({ ok: false, where: "select", error: error.message });
-
-    return res.status(200).json({ ok: true, table: "products", count });
+    // Quick ping: count rows without fetching data (works for any catalog backend)
+    const catalog = getCatalog();
+    const count = await catalog.count();
+    return res.status(200).json({ ok: true, provider: catalog.provider, table: "products", count });
   } catch (e: any) {
-    return res.status(500).json({ ok: false, where: "catch", error: e?.message || String(e) });
+    return res.status(500).json({ ok: false, where: "catalog", error: e?.message || String(e) });
   }
-}
\ No newline at end of file
+}
@@ -1,20 +1,39 @@
 // pages/api/get.ts
 import type { NextApiRequest, NextApiResponse } from "next";
-import { supabaseAdmin } from "@/lib/supabase";
+import { getCatalog } from "@/lib/catalog";
+import { loadRelations, RelatedProduct, relatedTo } from "@/lib/relations";
 
+/**
+ * POST { skus, related? } → { products, related? }
+ *   products with their specs, in the order asked. With `related: true`, also
+ *   what each one needs, its accessories, spares, substitutes and what it fits
+ *   (lib/relations), keyed by SKU: the product detail panel.
+ */
 export default async function handler(req: NextApiRequest, res: NextApiResponse) {
   if (req.method !== "POST") return res.status(405).end();
-  const { skus } = (req.body || {}) as { skus?: string[] };
+  const { skus, related } = (req.body || {}) as { skus?: string[]; related?: boolean };
   if (!Array.isArray(skus) || skus.length === 0) return res.status(400).json({ error: "skus[] required" });
 
-  const { data, error } = await supabaseAdmin
-    .from("products")
-    .select("sku,name,brand,category,subcategory,description,price,currency,stock,image_url,specs")
-    .in("sku", skus);
+  try {
+    const catalog = getCatalog();
+    const data = await catalog.getBySkus(skus, { withSpecs: true });
+    const bySku = new Map(data.map((p) => [p.sku, p]));
+    const ordered = skus.map((s) => bySku.get(s)).filter(Boolean);
+    if (!related) return res.json({ products: ordered });
 
-  if (error) return res.status(500).json({ error: error.message });
-
-  const bySku = new Map((data || []).map((p) => [p.sku, p]));
-  const ordered = skus.map((s) => bySku.get(s)).filter(Boolean);
-  return res.json({ products: ordered });
-}
\ No newline at end of file
+    const ix = await loadRelations(catalog, skus);
+    const rel = new Map(skus.map((s) => [s, relatedTo(ix, s)]));
+    const others = new Map(
+      (await catalog.getBySkus(Array.from(new Set([...rel.values()].flat().map((r) => r.sku))))).map((p) => [p.sku, p])
+    );
+    const byProduct: Record<string, RelatedProduct[]> = Object.fromEntries(
+      [...rel].map(([sku, rows]) => [
+        sku,
+        rows.flatMap((r) => (others.has(r.sku) ? [{ group: r.group, note: r.note, product: others.get(r.sku)! }] : [])),
+      ])
+    );
+    return res.json({ products: ordered, related: byProduct });
+  } catch (e) {
+    return res.status(500).json({ error: (e as Error)?.message || "get failure" });
+  }
+}
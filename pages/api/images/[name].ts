@@ -0,0 +1,24 @@
+// pages/api/images/[name].ts
+import fs from "fs";
+import path from "path";
+import type { NextApiRequest, NextApiResponse } from "next";
+import { IMAGE_TYPES, localImagesDir } from "@/lib/catalog-admin";
+
+/** GET → a product image uploaded through the admin with the local backend (IMAGES_DIR) */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== "GET") return res.status(405).end();
+  const name = String(req.query.name || "");
+  const ext = path.extname(name).slice(1);
+  const type = Object.keys(IMAGE_TYPES).find((t) => IMAGE_TYPES[t] === ext);
+  if (!/^[a-z0-9._-]+$/.test(name) || !type) return res.status(404).end();
+
+  try {
+    const data = await fs.promises.readFile(path.join(localImagesDir(), name));
+    res.setHeader("Content-Type", type);
+    // names are unique per upload, so they never change
+    res.setHeader("Cache-Control", "public, max-age=31536000, immutable");
+    return res.send(data);
+  } catch {
+    return res.status(404).end();
+  }
+}
@@ -0,0 +1,41 @@
+// pages/api/orders/[id].ts
+import type { NextApiRequest, NextApiResponse } from "next";
+import { requireAdmin } from "@/lib/admin-auth";
+import { getCatalog } from "@/lib/catalog";
+import { cancelOrder, findOrder, formatOrderNumber, getOrderStore, Order } from "@/lib/orders";
+import { getReservationStore } from "@/lib/reservations";
+import { getSessionStore } from "@/lib/sessions";
+
+/**
+ * GET /api/orders/K1-0042 (ticket, as typed at the register) or /api/orders/<uuid>
+ * PATCH { status: "cancelled", sessionId? } → cancels the order and releases its stock hold
+ *   staff (admin login) can cancel any order; a kiosk only the one placed from
+ *   its own live session
+ */
+// the order was placed from this session, and the session is still open
+async function ownOrder(order: Order, sessionId: unknown) {
+  if (typeof sessionId !== "string" || !sessionId || order.conversation_id !== sessionId) return false;
+  return !!(await getSessionStore().get(sessionId));
+}
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== "GET" && req.method !== "PATCH") return res.status(405).end();
+  const id = String(req.query.id || "");
+
+  try {
+    const store = getOrderStore();
+    let order = await findOrder(store, id);
+    if (!order) return res.status(404).json({ error: "order not found" });
+
+    if (req.method === "PATCH") {
+      const { status, sessionId } = (req.body || {}) as { status?: string; sessionId?: string };
+      if (status !== "cancelled") return res.status(400).json({ error: 'only { status: "cancelled" } is supported' });
+      if (!(await ownOrder(order, sessionId)) && !requireAdmin(req, res)) return;
+      const catalog = getCatalog();
+      order = (await cancelOrder(store, getReservationStore(catalog), order.id)) ?? order;
+    }
+    return res.json({ order, ticket: formatOrderNumber(order) });
+  } catch (e) {
+    return res.status(500).json({ error: (e as Error)?.message || "orders failure" });
+  }
+}
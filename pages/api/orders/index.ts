@@ -0,0 +1,78 @@
+// pages/api/orders/index.ts
+import type { NextApiRequest, NextApiResponse } from "next";
+import { requireAdmin } from "@/lib/admin-auth";
+import { track } from "@/lib/analytics";
+import { getCatalog } from "@/lib/catalog";
+import { formatOrderNumber, getOrderStore, OrderItem, placeOrder, resolveKioskId } from "@/lib/orders";
+import { getReservationStore, reservationTtlMs } from "@/lib/reservations";
+import { getSessionStore, Session } from "@/lib/sessions";
+
+/**
+ * POST { sessionId, kioskId? } → 201 { order, ticket }
+ *   the items are the session's cart (lib/sessions), and the ticket is recorded on it
+ * POST { items: [{ sku, qty }], conversationId?, kioskId? } → same, for callers without a session
+ *   prices come from the catalog, never from the client; stock is held until
+ *   the order is cancelled or the hold expires
+ *   404 when the session expired
+ *   409 { error, shortfalls: [{ sku, name, requested, available, alternatives }] } when stock ran out
+ * GET ?kiosk=K1&limit=20 → { orders } (newest first; admin login required)
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  try {
+    if (req.method === "POST") {
+      const { items, sessionId, conversationId, kioskId } = (req.body || {}) as {
+        items?: OrderItem[];
+        sessionId?: string;
+        conversationId?: string;
+        kioskId?: string;
+      };
+      const kiosk = resolveKioskId(kioskId);
+      if (!kiosk) return res.status(400).json({ error: "invalid kioskId" });
+
+      let session: Session | null = null;
+      if (sessionId) {
+        session = await getSessionStore().get(String(sessionId));
+        if (!session) return res.status(404).json({ error: "session expired" });
+      } else if (!Array.isArray(items)) return res.status(400).json({ error: "sessionId or items required" });
+
+      const catalog = getCatalog();
+      const result = await placeOrder(catalog, getOrderStore(), getReservationStore(catalog), {
+        kioskId: kiosk,
+        conversationId: session?.id ?? (typeof conversationId === "string" ? conversationId.slice(0, 64) : null),
+        items: session?.cart ?? items ?? [],
+        ttlMs: reservationTtlMs(),
+      });
+      const who = { kiosk_id: kiosk, session_id: session?.id ?? null };
+      if (!result.ok) {
+        if (result.shortfalls) {
+          await track({ ...who, type: "order_failed", error: result.error, skus: result.shortfalls.map((s) => s.sku) });
+        }
+        return res
+          .status(result.shortfalls ? 409 : 422)
+          .json({ error: result.error, skus: result.skus ?? [], shortfalls: result.shortfalls ?? [] });
+      }
+      const ticket = formatOrderNumber(result.order);
+      const { total, currency, lines } = result.order;
+      await track({ ...who, type: "order", ticket, total, currency, lines: lines.length });
+      if (session) {
+        // the order stands either way; the session only loses the link to it
+        await getSessionStore()
+          .save({ ...session, orders: [...session.orders, ticket] })
+          .catch((e) => console.warn("orders: session not updated:", (e as Error)?.message));
+      }
+      return res.status(201).json({ order: result.order, ticket });
+    }
+
+    if (req.method === "GET") {
+      if (!requireAdmin(req, res)) return;
+      const kiosk = typeof req.query.kiosk === "string" ? req.query.kiosk.toUpperCase() : undefined;
+      const limit = Math.min(Number(req.query.limit) || 20, 100);
+      const orders = await getOrderStore().list({ kioskId: kiosk, limit });
+      return res.json({ orders: orders.map((o) => ({ ...o, ticket: formatOrderNumber(o) })) });
+    }
+
+    return res.status(405).end();
+  } catch (e) {
+    return res.status(500).json({ error: (e as Error)?.message || "orders failure" });
+  }
+}
@@ -0,0 +1,15 @@
+// pages/api/promotions.ts
+import type { NextApiRequest, NextApiResponse } from "next";
+import { getCatalog } from "@/lib/catalog";
+import { activePromotions } from "@/lib/promotions";
+
+/** GET → { promotions } active right now, for the basket to evaluate client-side */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== "GET") return res.status(405).end();
+  try {
+    const promotions = activePromotions(await getCatalog().getPromotions());
+    return res.json({ promotions });
+  } catch (e) {
+    return res.status(500).json({ error: (e as Error)?.message || "promotions failure" });
+  }
+}
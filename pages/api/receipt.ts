@@ -0,0 +1,51 @@
+// pages/api/receipt.ts
+import type { NextApiRequest, NextApiResponse } from "next";
+import { PaperWidth, ReceiptCode, ReceiptOptions, renderReceipt } from "@/lib/escpos";
+import { findOrder, formatOrderNumber, getOrderStore } from "@/lib/orders";
+import { getPrinter } from "@/lib/printer";
+
+function receiptOptions(src: Record<string, unknown>): ReceiptOptions {
+  const width = Number(src.width || process.env.RECEIPT_WIDTH || 80);
+  const code = String(src.code || process.env.RECEIPT_CODE || "qr");
+  return {
+    width: (width === 58 ? 58 : 80) as PaperWidth,
+    code: (["qr", "code128", "none"].includes(code) ? code : "qr") as ReceiptCode,
+    storeName: process.env.STORE_NAME || "Ferretería Demo",
+  };
+}
+
+/**
+ * ESC/POS receipt for a stored order (`order` = id or ticket label, e.g. K1-0042).
+ * GET  ?order=K1-0042&width=58&code=qr → the raw bytes (application/octet-stream)
+ * POST { order, width?, code? }        → sends them to PRINTER_URL
+ *   503 { fallback: "html" } when no thermal printer is configured
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== "GET" && req.method !== "POST") return res.status(405).end();
+  const src = (req.method === "GET" ? req.query : req.body || {}) as Record<string, unknown>;
+  const ref = typeof src.order === "string" ? src.order : "";
+  if (!ref) return res.status(400).json({ error: "order required" });
+
+  try {
+    const order = await findOrder(getOrderStore(), ref);
+    if (!order) return res.status(404).json({ error: "order not found" });
+    const bytes = renderReceipt(order, receiptOptions(src));
+
+    if (req.method === "GET") {
+      res.setHeader("Content-Type", "application/octet-stream");
+      res.setHeader("Content-Disposition", `attachment; filename="${formatOrderNumber(order)}.bin"`);
+      return res.send(Buffer.from(bytes));
+    }
+
+    const printer = getPrinter();
+    if (!printer) return res.status(503).json({ error: "no thermal printer configured", fallback: "html" });
+    try {
+      await printer.send(bytes);
+    } catch (e) {
+      return res.status(502).json({ error: (e as Error)?.message || "printer failure", fallback: "html" });
+    }
+    return res.json({ printed: true, printer: printer.url, bytes: bytes.length });
+  } catch (e) {
+    return res.status(500).json({ error: (e as Error)?.message || "receipt failure" });
+  }
+}
@@ -1,38 +1,34 @@
 // pages/api/search.ts
 import type { NextApiRequest, NextApiResponse } from "next";
-import { supabaseAdmin } from "@/lib/supabase";
+import { getCatalog } from "@/lib/catalog";
+import { filterByMeasures, matchMeasures, measureTerms, parseMeasures } from "@/lib/measure";
+import { logSearchMiss } from "@/lib/query-log";
+import { searchProducts } from "@/lib/search";
 
 export default async function handler(req: NextApiRequest, res: NextApiResponse) {
   if (req.method !== "POST") return res.status(405).end();
-  const { q } = (req.body || {}) as { q?: string };
+  const { q, limit } = (req.body || {}) as { q?: string; limit?: number };
   if (!q || typeof q !== "string") return res.status(400).json({ error: "q required" });
 
-  // Keyword search across products + synonyms
-  const { data: products, error } = await supabaseAdmin
-    .from("products")
-    .select("sku,name,brand,category,subcategory,description,price,currency,stock,image_url")
-    .or(`name.ilike.%${q}%,description.ilike.%${q}%,category.ilike.%${q}%,subcategory.ilike.%${q}%`)
-    .limit(20);
-
-  if (error) return res.status(500).json({ error: error.message });
-
-  const { data: syns } = await supabaseAdmin
-    .from("synonyms")
-    .select("product_sku,term")
-    .ilike("term", `%${q}%`);
-
-  const synSkus = new Set((syns || []).map((s) => s.product_sku));
-  let synProducts: any[] = [];
-  if (synSkus.size) {
-    const { data } = await supabaseAdmin
-      .from("products")
-      .select("sku,name,brand,category,subcategory,description,price,currency,stock,image_url")
-      .in("sku", Array.from(synSkus));
-    synProducts = data || [];
+  try {
+    // Ranked search across products + synonyms (best first), then size filters from the query
+    const filters = parseMeasures(q);
+    const query = [q, ...measureTerms(filters)].join(" ");
+    const hits = await searchProducts(getCatalog(), query, { limit: Math.min(Number(limit) || 20, 50) });
+    const kept = new Set(filterByMeasures(hits.map((h) => h.product), filters).kept);
+    const found = hits.filter((h) => kept.has(h.product));
+    // few or no results: into the review queue (lib/query-log)
+    await logSearchMiss(q, found.length, "search");
+    return res.json({
+      filters,
+      candidates: found.map((h) => ({
+        ...h.product,
+        score: h.score,
+        matched: h.matched,
+        measure: matchMeasures(filters, h.product),
+      })),
+    });
+  } catch (e) {
+    return res.status(500).json({ error: (e as Error)?.message || "search failure" });
   }
-
-  const map = new Map<string, any>();
-  [...(products || []), ...synProducts].forEach((p) => map.set(p.sku, p));
-
-  return res.json({ candidates: Array.from(map.values()) });
-}
\ No newline at end of file
+}
@@ -0,0 +1,50 @@
+// pages/api/sessions/[id].ts
+import type { NextApiRequest, NextApiResponse } from "next";
+import { basketDiff, track } from "@/lib/analytics";
+import { CatalogRepository, getCatalog } from "@/lib/catalog";
+import { getReservationStore } from "@/lib/reservations";
+import { applyCartEdits, CartEdit, getSessionStore } from "@/lib/sessions";
+import { recordStep } from "@/lib/transcripts";
+
+// availability of what the edits put in the cart; catalog stock when the hold store is down
+async function liveStock(catalog: CatalogRepository, edits: CartEdit[]) {
+  const skus = edits.flatMap((e) => (e?.type === "replace" ? [e.with] : e?.sku ? [e.sku] : []));
+  try {
+    return await getReservationStore(catalog).available(skus);
+  } catch (e) {
+    console.warn("sessions: live stock unavailable:", (e as Error)?.message);
+    return undefined;
+  }
+}
+
+/**
+ * GET → { session } (transcript, summary, facts, cart, tickets)
+ * PATCH { edits: CartOp[] } → { cart }
+ *   basket edits made on screen (add/remove/replace/setQty, as in lib/cart-ops),
+ *   checked against live stock, so the next agent turn sees them; 422 rejects them all
+ * 404 once the session expired
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== "GET" && req.method !== "PATCH") return res.status(405).end();
+  const id = String(req.query.id || "");
+
+  try {
+    const store = getSessionStore();
+    const session = await store.get(id);
+    if (!session) return res.status(404).json({ error: "session expired" });
+    if (req.method === "GET") return res.json({ session });
+
+    const { edits } = (req.body || {}) as { edits?: CartEdit[] };
+    if (!Array.isArray(edits)) return res.status(400).json({ error: "edits required" });
+    const catalog = getCatalog();
+    const result = await applyCartEdits(catalog, session.cart, edits, await liveStock(catalog, edits));
+    if (!result.ok) return res.status(422).json({ error: result.error });
+    const saved = await store.save({ ...session, cart: result.cart });
+    const diff = basketDiff(session.cart, saved.cart);
+    if (diff.length) await track({ type: "cart_edit", kiosk_id: session.kiosk_id, session_id: session.id, diff });
+    await recordStep(session.id, { edits, expect: { cart: saved.cart } }, catalog);
+    return res.json({ cart: saved.cart });
+  } catch (e) {
+    return res.status(500).json({ error: (e as Error)?.message || "sessions failure" });
+  }
+}
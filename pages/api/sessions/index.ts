@@ -0,0 +1,30 @@
+// pages/api/sessions/index.ts
+import type { NextApiRequest, NextApiResponse } from "next";
+import { track } from "@/lib/analytics";
+import { resolveKioskId } from "@/lib/orders";
+import { getSessionStore } from "@/lib/sessions";
+
+/**
+ * POST { kioskId?, previousId? } → 201 { id, expires_at }
+ *   issued at "Nueva consulta"; /api/agent and /api/orders take the id.
+ *   `previousId` is the kiosk's last session: if it talked but printed nothing, it's logged as abandoned
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== "POST") return res.status(405).end();
+  const { kioskId, previousId } = (req.body || {}) as { kioskId?: string; previousId?: string };
+  const kiosk = resolveKioskId(kioskId);
+  if (!kiosk) return res.status(400).json({ error: "invalid kioskId" });
+
+  try {
+    const store = getSessionStore();
+    const previous = typeof previousId === "string" && previousId ? await store.get(previousId) : null;
+    if (previous && previous.turn_count > 0 && !previous.orders.length) {
+      await track({ type: "abandon", kiosk_id: previous.kiosk_id, session_id: previous.id, turns: previous.turn_count });
+    }
+    const session = await store.create(kiosk);
+    await track({ type: "session_start", kiosk_id: kiosk, session_id: session.id });
+    return res.status(201).json({ id: session.id, expires_at: session.expires_at });
+  } catch (e) {
+    return res.status(500).json({ error: (e as Error)?.message || "sessions failure" });
+  }
+}
@@ -1,17 +1,19 @@
 // pages/api/test-gemini.ts
 import type { NextApiRequest, NextApiResponse } from "next";
-import { GoogleGenerativeAI } from "@google/generative-ai";
+import { makeLLM } from "@/lib/llm";
 
 export default async function handler(req: NextApiRequest, res: NextApiResponse) {
   try {
-    const genAI = new GoogleGenerativeAI(process.env.GEMINI_API_KEY!);
-    const model = genAI.getGenerativeModel({ model: "gemini-1.5-flash" });
+    // ?provider=openai|scripted to smoke-test another provider
+    const provider = typeof req.query.provider === "string" ? req.query.provider : "gemini";
+    const llm = makeLLM({ provider });
 
-    const result = await model.generateContent({
-      contents: [{ role: "user", parts: [{ text: "Dame una lista de 3 herramientas comunes en una ferretería." }] }],
+    const result = await llm.chat({
+      messages: [{ role: "user", content: "Dame una lista de 3 herramientas comunes en una ferretería." }],
+      format: "text",
     });
 
-    res.status(200).json({ text: result.response.text() });
+    res.status(200).json({ provider, text: result.choices[0]?.message.content ?? "" });
   } catch (err: any) {
     console.error(err);
     res.status(500).json({ error: err.message || "Unknown error" });
@@ -1,77 +1,286 @@
 // pages/index.tsx
-import React, { useState } from "react";
+import React, { useEffect, useRef, useState } from "react";
 import ChatPane from "@/components/ChatPane";
 import BasketPane from "@/components/BasketPane";
+import ProductDetail from "@/components/ProductDetail";
+import type { Product } from "@/lib/catalog";
+import type { Plan, PlanLine } from "@/lib/plan";
+import type { Order, OrderShortfall } from "@/lib/orders";
+import type { Promotion } from "@/lib/promotions";
+import type { CartEdit, CartLine } from "@/lib/sessions";
+import { taxName } from "@/lib/totals";
+import { describeLocation, inRouteOrder } from "@/lib/wayfinding";
 
-type BasketItem = {
-  sku: string;
-  name: string;
-  qty?: number;
-  price: number;
-  currency: string;
-  stock: number;
-  image_url?: string;
-  why?: string;
-};
+// "escpos": tickets go to the thermal printer behind /api/receipt, HTML only as fallback
+const THERMAL = process.env.NEXT_PUBLIC_RECEIPT_PRINTER === "escpos";
+const KIOSK_ID = process.env.NEXT_PUBLIC_KIOSK_ID;
 
 export default function Home() {
-  const [plan, setPlan] = useState<{
-    title?: string;
-    steps?: string[];
-    basket?: BasketItem[];
-    upsell?: BasketItem[];
-  } | null>(null);
+  const [plan, setPlan] = useState<Plan | null>(null);
 
   // Force remount ChatPane to clear its internal history after confirm
   const [chatKey, setChatKey] = useState(0);
+  // server-side session for this customer (lib/sessions): transcript and the cart orders are placed from
+  const [sessionId, setSessionId] = useState<string | null>(null);
+  // the session being replaced, so the server can tell a walk-away from a printed ticket
+  const lastSession = useRef<string | null>(null);
+  // on-screen basket edits reach the session in order; confirming waits for them
+  const cartSync = useRef<Promise<unknown>>(Promise.resolve());
+  // edits still on their way, and every line shown this session (to rebuild the basket from the session cart)
+  const editsInFlight = useRef(0);
+  const shownLines = useRef(new Map<string, PlanLine>());
+  // lines the last confirmation couldn't hold stock for
+  const [shortfalls, setShortfalls] = useState<OrderShortfall[]>([]);
+  // product shown in the detail panel, and a question about it for the chat
+  const [detailSku, setDetailSku] = useState<string | null>(null);
+  const [question, setQuestion] = useState<{ id: number; text: string } | null>(null);
+  // active promotions, refreshed for every new customer (the order API re-checks them)
+  const [promotions, setPromotions] = useState<Promotion[]>([]);
 
-  function handleResult(newPlan: any) {
+  useEffect(() => {
+    fetch("/api/promotions")
+      .then((r) => (r.ok ? r.json() : { promotions: [] }))
+      .then((d) => setPromotions(d.promotions ?? []))
+      .catch(() => setPromotions([]));
+  }, [chatKey]);
+
+  // "Nueva consulta": a fresh session per customer
+  useEffect(() => {
+    let stale = false;
+    setSessionId(null);
+    fetch("/api/sessions", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ kioskId: KIOSK_ID, previousId: lastSession.current }),
+    })
+      .then((r) => (r.ok ? r.json() : Promise.reject(new Error(`HTTP ${r.status}`))))
+      .then((d) => {
+        if (stale) return;
+        lastSession.current = d.id;
+        setSessionId(d.id);
+      })
+      .catch((e) => console.warn("session not issued:", (e as Error)?.message));
+    return () => {
+      stale = true;
+    };
+  }, [chatKey]);
+
+  function remember(lines: PlanLine[]) {
+    for (const l of lines) shownLines.current.set(l.sku, l);
+  }
+
+  // the basket on screen rebuilt from the session's cart: what the next agent turn and the order use
+  function reconcile(cart: CartLine[]) {
+    setPlan((prev) => {
+      if (!prev) return prev;
+      const basket = cart.flatMap((l) => {
+        const line = prev.basket.find((it) => it.sku === l.sku) ?? shownLines.current.get(l.sku);
+        return line ? [{ ...line, qty: l.qty }] : [];
+      });
+      return { ...prev, basket };
+    });
+  }
+
+  function syncCart(edits: CartEdit[]) {
+    if (!sessionId) return;
+    const url = `/api/sessions/${sessionId}`;
+    editsInFlight.current += 1;
+    cartSync.current = cartSync.current.then(async () => {
+      try {
+        const r = await fetch(url, {
+          method: "PATCH",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ edits }),
+        });
+        const data = await r.json().catch(() => ({}));
+        // the last edit in line settles the screen (earlier ones would undo the taps after them)
+        if (r.ok) return editsInFlight.current === 1 && reconcile(data.cart ?? []);
+        console.warn("basket edit not saved:", data.error || r.status);
+        // rejected (stock, limits): back to the cart the session kept
+        const current = r.status === 404 ? null : await fetch(url).then((g) => (g.ok ? g.json() : null));
+        if (current?.session) reconcile(current.session.cart);
+      } catch (e) {
+        console.warn("basket edit not saved:", (e as Error)?.message);
+      } finally {
+        editsInFlight.current -= 1;
+      }
+    });
+  }
+
+  function handleResult(newPlan: Plan) {
+    remember([...newPlan.basket, ...newPlan.upsell]);
     setPlan(newPlan);
+    setShortfalls([]);
   }
 
   function handleReset() {
     setPlan(null);
-    setChatKey((k) => k + 1); // clears chat for a new customer
+    setShortfalls([]);
+    setDetailSku(null);
+    setQuestion(null);
+    shownLines.current.clear();
+    setChatKey((k) => k + 1); // clears chat and issues a new session for the next customer
   }
 
   function handleQtyChange(sku: string, qty: number) {
-    setPlan((prev: any) => {
+    syncCart([{ type: "setQty", sku, qty: Math.max(1, Number(qty || 1)) }]);
+    setPlan((prev) => {
       if (!prev) return prev;
-      const next = { ...prev, basket: [...(prev.basket || [])] };
-      next.basket = next.basket.map((it: any) =>
-        it.sku === sku ? { ...it, qty: Math.max(1, Number(qty || 1)) } : it
-      );
-      return next;
+      return {
+        ...prev,
+        basket: prev.basket.map((it) =>
+          it.sku === sku ? { ...it, qty: Math.max(1, Number(qty || 1)) } : it
+        ),
+      };
     });
+    setShortfalls((prev) => prev.filter((s) => s.sku !== sku || qty > s.available));
+  }
+
+  function handleRemove(sku: string) {
+    syncCart([{ type: "remove", sku }]);
+    setPlan((prev) => prev && { ...prev, basket: prev.basket.filter((it) => it.sku !== sku) });
+    setShortfalls((prev) => prev.filter((s) => s.sku !== sku));
   }
 
-  function printReceiptAndReset() {
+  // "Agregar" on a suggestion: one piece, into the basket
+  function handleAdd(line: PlanLine) {
+    syncCart([{ type: "add", sku: line.sku, qty: 1 }]);
+    setPlan((prev) => {
+      if (!prev) return prev;
+      const had = prev.basket.some((it) => it.sku === line.sku);
+      const basket = had
+        ? prev.basket.map((it) => (it.sku === line.sku ? { ...it, qty: Number(it.qty || 1) + 1 } : it))
+        : [...prev.basket, { ...line, qty: 1 }];
+      return { ...prev, basket, upsell: prev.upsell.filter((u) => u.sku !== line.sku) };
+    });
+  }
+
+  // "¿Para qué sirve?" on the detail panel: asked in the chat, as the customer would
+  function handleAsk(product: Product) {
+    setDetailSku(null);
+    setQuestion((prev) => ({ id: (prev?.id ?? 0) + 1, text: `¿Para qué sirve ${product.name}?` }));
+  }
+
+  // swap a short line for one of its in-stock alternatives
+  function handleReplace(sku: string, alt: PlanLine) {
+    remember([alt]);
+    syncCart([{ type: "replace", sku, with: alt.sku, qty: alt.qty }]);
+    setPlan((prev) => {
+      if (!prev) return prev;
+      const basket = prev.basket.filter((it) => it.sku !== alt.sku).map((it) => (it.sku === sku ? alt : it));
+      return { ...prev, basket };
+    });
+    setShortfalls((prev) => prev.filter((s) => s.sku !== sku));
+  }
+
+  async function printReceiptAndReset() {
     const items = plan?.basket ?? [];
     if (!items.length) {
       window.alert("No hay artículos en la canasta.");
       return;
     }
 
-    const now = new Date();
+    // open the print window inside the click, before awaiting, or popup blockers kick in
+    let win = THERMAL ? null : window.open("", "PRINT", "width=900,height=700");
+    if (!THERMAL && !win) {
+      window.alert("Por favor permite ventanas emergentes para imprimir el ticket.");
+      return;
+    }
+
+    // record the order first: prices and the ticket number come from the server
+    let order: Order;
+    let ticket: string;
+    try {
+      // the order is the session's cart, never the lines on screen
+      if (!sessionId) throw new Error("la sesión aún no está lista, intenta de nuevo en un momento");
+      await cartSync.current;
+      const r = await fetch("/api/orders", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ sessionId, kioskId: KIOSK_ID }),
+      });
+      if (r.status === 404) {
+        win?.close();
+        window.alert("Tu sesión expiró y no pudimos registrar el pedido. Empecemos de nuevo.");
+        handleReset();
+        return;
+      }
+      const data = await r.json();
+      if (r.status === 409) {
+        // someone else got there first: show live stock and alternatives per line
+        win?.close();
+        const short: OrderShortfall[] = data.shortfalls ?? [];
+        const available = new Map(short.map((s) => [s.sku, s.available]));
+        setPlan((prev) =>
+          prev && {
+            ...prev,
+            basket: prev.basket.map((it) => (available.has(it.sku) ? { ...it, stock: available.get(it.sku)! } : it)),
+          }
+        );
+        setShortfalls(short);
+        return;
+      }
+      if (!r.ok) throw new Error(data?.error || `HTTP ${r.status}`);
+      ({ order, ticket } = data);
+    } catch (e) {
+      win?.close();
+      window.alert(`No se pudo registrar el pedido: ${(e as Error)?.message}`);
+      return;
+    }
+
+    if (THERMAL) {
+      const printed = await fetch("/api/receipt", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ order: order.id }),
+      })
+        .then((r) => r.ok)
+        .catch(() => false);
+      if (printed) {
+        handleReset();
+        return;
+      }
+      // thermal printer down: HTML ticket, or at least the number to give at the register
+      win = window.open("", "PRINT", "width=900,height=700");
+      if (!win) {
+        window.alert(`Tu número de pedido es ${ticket}. Preséntalo en caja.`);
+        handleReset();
+        return;
+      }
+    }
+
+    const images = new Map(items.map((it) => [it.sku, it.image_url]));
+    const now = new Date(order.created_at);
     const fmt = new Intl.DateTimeFormat("es-MX", {
       dateStyle: "medium",
       timeStyle: "short",
     }).format(now);
 
-    const currency = items[0]?.currency ?? "MXN";
-    const subtotal = items.reduce(
-      (s, it) => s + Number(it.price || 0) * Math.max(1, Number(it.qty || 1)),
-      0
-    );
+    const currency = order.currency;
+    const totalRow = (label: string, amount: number, strong = false) => `
+        <div style="display:flex; justify-content:space-between; padding:4px 0;">
+          <div style="color:#374151">${label}</div>
+          <div style="font-weight:${strong ? 800 : 600}">${currency} ${amount.toFixed(2)}</div>
+        </div>`;
+    const totals = [
+      ...order.promotions.map((pr) => totalRow(escapeHtml(pr.name), -pr.amount)),
+      totalRow("Subtotal", order.subtotal),
+      ...order.taxes.map((t) => totalRow(taxName(t.rate), t.tax)),
+      totalRow("Total", order.total, true),
+    ].join("");
 
-    // Simple inline-styled HTML to ensure consistent printing
-    const rows = items
+    // Simple inline-styled HTML to ensure consistent printing; lines in walking order, with their aisle
+    const rows = inRouteOrder(order.lines)
       .map((it) => {
-        const qty = Math.max(1, Number(it.qty || 1));
-        const line = (Number(it.price || 0) * qty).toFixed(2);
-        const unit = Number(it.price || 0).toFixed(2);
-        const img = it.image_url
-          ? `<img src="${it.image_url}" alt="" style="width:48px;height:48px;object-fit:cover;border-radius:8px;margin-right:10px;border:1px solid #e5e7eb" />`
+        const qty = it.qty;
+        const line = it.line_total.toFixed(2);
+        const unit = it.unit_price.toFixed(2);
+        const image = images.get(it.sku);
+        const where = it.location
+          ? `<div style="color:#1d4ed8;font-size:12px;font-weight:600">${escapeHtml(describeLocation(it.location))}</div>`
+          : "";
+        const img = image
+          ? `<img src="${image}" alt="" style="width:48px;height:48px;object-fit:cover;border-radius:8px;margin-right:10px;border:1px solid #e5e7eb" />`
           : "";
         return `
         <tr style="vertical-align:top">
@@ -80,6 +289,7 @@ export default function Home() {
             <div>
               <div style="font-weight:600">${escapeHtml(it.name)}</div>
               <div style="color:#6b7280;font-size:12px">SKU: ${escapeHtml(it.sku)}</div>
+              ${where}
             </div>
           </td>
           <td style="padding:8px 0; text-align:center;">${qty}</td>
@@ -109,6 +319,7 @@ export default function Home() {
       </div>
       <div style="text-align:right; color:#6b7280; font-size:12px">
         Ticket de compra<br/>
+        <span style="font-size:16px; font-weight:800; color:#111">${escapeHtml(ticket)}</span><br/>
         ${escapeHtml(plan?.title || "Pedido")}
       </div>
     </div>
@@ -133,15 +344,12 @@ export default function Home() {
 
     <div style="display:flex; justify-content:flex-end; font-size:16px;">
       <div style="min-width:240px;">
-        <div style="display:flex; justify-content:space-between; padding:4px 0;">
-          <div style="color:#374151">Subtotal</div>
-          <div style="font-weight:700">${currency} ${subtotal.toFixed(2)}</div>
-        </div>
+        ${totals}
       </div>
     </div>
 
     <div style="margin-top:18px; color:#6b7280; font-size:12px;">
-      ¡Gracias por su compra! Si necesita factura, por favor indíquelo en caja.
+      ¡Gracias por su compra! Presente el número <b>${escapeHtml(ticket)}</b> en caja. Si necesita factura, por favor indíquelo ahí.
     </div>
   </div>
 
@@ -155,11 +363,7 @@ export default function Home() {
 </body>
 </html>`;
 
-    const win = window.open("", "PRINT", "width=900,height=700");
-    if (!win) {
-      window.alert("Por favor permite ventanas emergentes para imprimir el ticket.");
-      return;
-    }
+    if (!win) return;
     win.document.open();
     win.document.write(html);
     win.document.close();
@@ -187,7 +391,13 @@ export default function Home() {
           </div>
         </div>
         <div className="chat-pane" key={chatKey} style={{ flex: 1, display: "flex", flexDirection: "column" }}>
-          <ChatPane onResult={handleResult} />
+          <ChatPane
+            sessionId={sessionId}
+            onResult={handleResult}
+            onSessionExpired={handleReset}
+            cartSynced={() => cartSync.current}
+            question={question}
+          />
         </div>
       </div>
 
@@ -201,8 +411,18 @@ export default function Home() {
           onConfirm={printReceiptAndReset}
           onReset={handleReset}
           onQtyChange={handleQtyChange}
+          onRemove={handleRemove}
+          onAdd={handleAdd}
+          shortfalls={shortfalls}
+          promotions={promotions}
+          onReplace={handleReplace}
+          onOpen={setDetailSku}
         />
       </div>
+
+      {detailSku && (
+        <ProductDetail sku={detailSku} onClose={() => setDetailSku(null)} onOpen={setDetailSku} onAsk={handleAsk} />
+      )}
     </main>
   );
 }
@@ -0,0 +1,29 @@
+// scripts/fake-printer.mjs
+// Stand-in for a network thermal printer: accepts raw ESC/POS jobs on a TCP
+// port (like a printer's 9100) and writes each one to its own .bin file.
+//
+//   node scripts/fake-printer.mjs [port=9100] [dir=.data/printed]
+//   PRINTER_URL=tcp://127.0.0.1:9100 npm run dev
+import fs from "fs";
+import net from "net";
+import path from "path";
+
+const port = Number(process.argv[2] || 9100);
+const dir = process.argv[3] || path.join(process.cwd(), ".data", "printed");
+fs.mkdirSync(dir, { recursive: true });
+
+let jobs = 0;
+net
+  .createServer((socket) => {
+    const chunks = [];
+    socket.on("data", (c) => chunks.push(c));
+    socket.on("end", () => {
+      const bytes = Buffer.concat(chunks);
+      const file = path.join(dir, `job-${new Date().toISOString().replace(/[:.]/g, "-")}-${++jobs}.bin`);
+      fs.writeFileSync(file, bytes);
+      const cut = bytes.includes(Buffer.from([0x1d, 0x56])) ? "cut" : "no cut";
+      console.log(`${file} (${bytes.length} bytes, ${cut})`);
+    });
+    socket.on("error", (e) => console.error("fake-printer:", e.message));
+  })
+  .listen(port, () => console.log(`fake printer on tcp://127.0.0.1:${port} → ${dir}`));
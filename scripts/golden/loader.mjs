@@ -0,0 +1,48 @@
+// scripts/golden/loader.mjs
+// Node module hooks for running the app's TypeScript without Next: "@/x" and
+// extensionless relative imports resolve like tsconfig's paths, .ts/.tsx files
+// are transpiled (types stripped, not checked) and the app's own .json files
+// load as modules, as Next bundles them.
+import fs from "node:fs";
+import path from "node:path";
+import { fileURLToPath, pathToFileURL } from "node:url";
+import ts from "typescript";
+
+const root = path.resolve(path.dirname(fileURLToPath(import.meta.url)), "../..");
+const EXTENSIONS = ["", ".ts", ".tsx", "/index.ts", "/index.tsx"];
+const isTs = (url) => /\.tsx?$/.test(url);
+
+function findFile(base) {
+  return EXTENSIONS.map((ext) => base + ext).find((f) => fs.statSync(f, { throwIfNoEntry: false })?.isFile());
+}
+
+export async function resolve(specifier, context, next) {
+  let base = null;
+  if (specifier.startsWith("@/")) base = path.join(root, specifier.slice(2));
+  else if (/^\.\.?\//.test(specifier) && context.parentURL && isTs(context.parentURL)) {
+    base = path.resolve(path.dirname(fileURLToPath(context.parentURL)), specifier);
+  }
+  const file = base && findFile(base);
+  return file ? { url: pathToFileURL(file).href, shortCircuit: true } : next(specifier, context);
+}
+
+export async function load(url, context, next) {
+  if (!url.startsWith("file:") || url.includes("/node_modules/")) return next(url, context);
+  const file = fileURLToPath(url);
+  if (isTs(url)) {
+    const { outputText } = ts.transpileModule(fs.readFileSync(file, "utf8"), {
+      fileName: file,
+      compilerOptions: {
+        module: ts.ModuleKind.ESNext,
+        target: ts.ScriptTarget.ES2022,
+        jsx: ts.JsxEmit.ReactJSX,
+        esModuleInterop: true,
+      },
+    });
+    return { format: "module", source: outputText, shortCircuit: true };
+  }
+  if (url.endsWith(".json")) {
+    return { format: "module", source: `export default ${fs.readFileSync(file, "utf8")};`, shortCircuit: true };
+  }
+  return next(url, context);
+}
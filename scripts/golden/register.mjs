@@ -0,0 +1,6 @@
+// scripts/golden/register.mjs
+// `node --import ./scripts/golden/register.mjs file.ts`: runs the app's TypeScript
+// (with its "@/..." imports) in plain Node, through the hooks in loader.mjs.
+import { register } from "node:module";
+
+register("./loader.mjs", import.meta.url);
@@ -0,0 +1,209 @@
+// scripts/golden/run.ts
+/**
+ * Golden-transcript harness for the agent's merge logic. Each transcript in
+ * scripts/golden/transcripts is replayed turn by turn through the real
+ * /api/agent handler (and basket edits through /api/sessions/:id), with its
+ * frozen catalog and, per turn, the model answers it recorded (or the scripted
+ * provider's default answer when it has none). Each turn's basket, upsell and
+ * reply flags are checked against what the transcript expects. No network.
+ *
+ *   npm run golden                       every transcript
+ *   npm run golden -- add-teflon ...     only files whose name contains one of these
+ *   npm run golden -- --update           rewrite the expectations from what the agent does now
+ *   npm run golden -- --verbose          show the agent's warnings for every transcript
+ *
+ * Record new ones from real sessions with AGENT_RECORD_DIR (see README).
+ */
+import fs from "fs";
+import path from "path";
+import type { NextApiRequest, NextApiResponse } from "next";
+import { setAnalyticsStore } from "@/lib/analytics";
+import { CatalogRepository, CatalogSeed, makeLocalCatalog, setCatalog } from "@/lib/catalog";
+import { makeScriptedLLM, registerLLMProvider, ScriptStep } from "@/lib/llm";
+import type { Plan } from "@/lib/plan";
+import { QueryLog, setQueryLog } from "@/lib/query-log";
+import { ReservationStore, setReservationStore } from "@/lib/reservations";
+import { CartLine, makeMemorySessionStore, setSessionStore } from "@/lib/sessions";
+import { expectFrom, replyFlags, ReplyFlags, Transcript, TurnExpect } from "@/lib/transcripts";
+import agentHandler from "@/pages/api/agent";
+import sessionHandler from "@/pages/api/sessions/[id]";
+
+const TRANSCRIPTS_DIR = path.join(process.cwd(), "scripts", "golden", "transcripts");
+const GOLDEN_PROVIDER = "golden";
+
+type Handler = (req: NextApiRequest, res: NextApiResponse) => unknown;
+
+/** Calls an API route in-process with a JSON body → { status, body } */
+async function call(handler: Handler, method: string, query: Record<string, string>, body: object) {
+  let status = 200;
+  let payload: unknown = null;
+  const res = {
+    status(code: number) {
+      status = code;
+      return res;
+    },
+    json(data: unknown) {
+      payload = data;
+      return res;
+    },
+    end() {
+      return res;
+    },
+    setHeader() {
+      return res;
+    },
+  };
+  const req = { method, query, body, headers: {}, cookies: {} };
+  await handler(req as unknown as NextApiRequest, res as unknown as NextApiResponse);
+  return { status, body: payload as Record<string, unknown> | null };
+}
+
+/** Live stock is catalog stock: nobody else holds anything during a replay */
+function catalogStock(catalog: CatalogRepository): ReservationStore {
+  return {
+    provider: GOLDEN_PROVIDER,
+    async reserve() {
+      throw new Error("golden: orders aren't replayed");
+    },
+    async release() {},
+    available: (skus) => catalog.getStock(skus),
+  };
+}
+
+const noQueryLog: QueryLog = {
+  provider: GOLDEN_PROVIDER,
+  async record() {},
+  async list() {
+    return [];
+  },
+  async resolve() {
+    return null;
+  },
+};
+
+const showLines = (lines: CartLine[]) =>
+  lines.map((l) => `${l.sku}×${l.qty}`).sort().join(", ") || "(empty)";
+const showSkus = (skus: string[]) => [...skus].sort().join(", ") || "(none)";
+
+function compareTurn(expect: TurnExpect, plan: Plan, reply: string) {
+  const problems: string[] = [];
+  if (expect.basket && showLines(expect.basket) !== showLines(plan.basket)) {
+    problems.push(`basket: expected ${showLines(expect.basket)}, got ${showLines(plan.basket)}`);
+  }
+  const upsell = plan.upsell.map((u) => u.sku);
+  if (expect.upsell && showSkus(expect.upsell) !== showSkus(upsell)) {
+    problems.push(`upsell: expected ${showSkus(expect.upsell)}, got ${showSkus(upsell)}`);
+  }
+  const flags = replyFlags(reply);
+  for (const [flag, want] of Object.entries(expect.flags ?? {})) {
+    if (flags[flag as keyof ReplyFlags] !== want) problems.push(`flag ${flag}: expected ${want}, got ${!want}`);
+  }
+  for (const text of expect.reply_includes ?? []) {
+    if (!reply.includes(text)) problems.push(`reply lacks "${text}"`);
+  }
+  if (problems.length) problems.push(`reply was: ${reply}`);
+  return problems;
+}
+
+function loadSeed(t: Transcript, file: string): CatalogSeed {
+  if (typeof t.catalog !== "string") return t.catalog;
+  return JSON.parse(fs.readFileSync(path.resolve(path.dirname(file), t.catalog), "utf8"));
+}
+
+/** Replays one transcript → the problems found, per step; `update` rewrites its expectations instead */
+async function replay(file: string, update: boolean) {
+  const t: Transcript = JSON.parse(fs.readFileSync(file, "utf8"));
+  const catalog = makeLocalCatalog(loadSeed(t, file));
+  setCatalog(catalog);
+  setReservationStore(catalogStock(catalog));
+  const sessions = makeMemorySessionStore();
+  setSessionStore(sessions);
+
+  const saved = { ...process.env };
+  Object.assign(process.env, { AGENT_MODE: "classic", ...t.env, LLM_PROVIDER: GOLDEN_PROVIDER });
+  const failures: string[] = [];
+  try {
+    const session = await sessions.create("K1");
+    for (const [i, step] of t.steps.entries()) {
+      const where = `step ${i + 1}`;
+      if ("edits" in step) {
+        const r = await call(sessionHandler, "PATCH", { id: session.id }, { edits: step.edits });
+        if (r.status !== 200) {
+          failures.push(`${where} (edits): HTTP ${r.status} ${JSON.stringify(r.body)}`);
+          continue;
+        }
+        const cart = (r.body?.cart ?? []) as CartLine[];
+        if (update) step.expect = { cart };
+        else if (step.expect?.cart && showLines(step.expect.cart) !== showLines(cart)) {
+          failures.push(`${where} (edits): cart expected ${showLines(step.expect.cart)}, got ${showLines(cart)}`);
+        }
+        continue;
+      }
+
+      registerLLMProvider(GOLDEN_PROVIDER, () => makeScriptedLLM((step.llm ?? []) as ScriptStep[]));
+      const r = await call(agentHandler, "POST", {}, { q: step.q, sessionId: session.id });
+      if (r.status !== 200) {
+        failures.push(`${where} "${step.q}": HTTP ${r.status} ${JSON.stringify(r.body)}`);
+        continue;
+      }
+      const { plan, reply } = JSON.parse(String(r.body?.content)) as { plan: Plan; reply: string };
+      if (update) {
+        step.expect = { ...expectFrom(plan, reply), reply_includes: step.expect?.reply_includes };
+        continue;
+      }
+      const problems = compareTurn(step.expect ?? {}, plan, reply);
+      if (problems.length) failures.push(`${where} "${step.q}":\n      ${problems.join("\n      ")}`);
+    }
+  } finally {
+    process.env = saved;
+  }
+  if (update) fs.writeFileSync(file, JSON.stringify(t, null, 2) + "\n");
+  return { name: t.name, steps: t.steps.length, failures };
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const update = args.includes("--update");
+  const verbose = args.includes("--verbose");
+  const filters = args.filter((a) => !a.startsWith("--"));
+  const files = fs
+    .readdirSync(TRANSCRIPTS_DIR)
+    .filter((f) => f.endsWith(".json") && (!filters.length || filters.some((x) => f.includes(x))))
+    .sort()
+    .map((f) => path.join(TRANSCRIPTS_DIR, f));
+  if (!files.length) {
+    console.error(`golden: no transcripts match in ${TRANSCRIPTS_DIR}`);
+    process.exit(1);
+  }
+
+  setAnalyticsStore(null);
+  setQueryLog(noQueryLog);
+  const warn = console.warn;
+  let failed = 0;
+  for (const file of files) {
+    // the agent warns on purpose in some scenarios; only a failing run needs to show it
+    const warnings: string[] = [];
+    console.warn = (...parts: unknown[]) => warnings.push(parts.map(String).join(" "));
+    const out = await replay(file, update).catch((e) => ({
+      name: path.basename(file),
+      steps: 0,
+      failures: [`crashed: ${(e as Error)?.stack || e}`],
+    }));
+    console.warn = warn;
+
+    const label = `${out.name} (${path.basename(file)}, ${out.steps} steps)`;
+    if (update) console.log(`updated  ${label}`);
+    else if (!out.failures.length) console.log(`ok       ${label}`);
+    else {
+      failed += 1;
+      console.log(`FAILED   ${label}`);
+      out.failures.forEach((f) => console.log(`    ${f}`));
+    }
+    if ((verbose || out.failures.length) && warnings.length) warnings.forEach((w) => console.log(`    warn: ${w}`));
+  }
+
+  if (!update) console.log(`\n${files.length - failed} of ${files.length} transcripts pass`);
+  process.exit(failed ? 1 : 0);
+}
+
+main();